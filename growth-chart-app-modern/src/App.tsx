@@ -9,6 +9,7 @@ import ChartViewPage from './pages/ChartViewPage';
 import TableViewPage from './pages/TableViewPage';
 import ParentalViewPage from './pages/ParentalViewPage';
 import SettingsPage from './pages/SettingsPage';
+import SmartLaunchPage from './pages/SmartLaunchPage';
 import FHIRStatusDisplay from './components/FHIRStatusDisplay'; // Import the status display component
 
 const App: React.FC = () => {
@@ -30,7 +31,7 @@ const App: React.FC = () => {
 
   useEffect(() => {
     // Initialize FHIR if status is 'idle' (initial load)
-    // or if it's 'no_context' (meaning prior init found no EHR launch, user might have navigated to launch.html manually)
+    // or if it's 'no_context' (meaning prior init found no SMART launch, user might have since launched from the Connect to FHIR page)
     // or if it's 'error' (allowing a retry on reload, though a manual retry button would be better UX for subsequent errors)
     if (fhirContext.status === 'idle' || fhirContext.status === 'no_context' || fhirContext.status === 'error') {
       console.log(`App.tsx: FHIR status is '${fhirContext.status}', attempting initialization.`);
@@ -41,8 +42,8 @@ const App: React.FC = () => {
           console.log("App.tsx: FHIR client ready with patient context, attempting to fetch patient data.");
           fetchFHIRPatient(); // This will set status to 'fetch_patient' then 'fetch_growth_data' then 'ready' or 'error'
         } else if (getAppStore().fhirContext.status === 'ready') {
-          console.log("App.tsx: FHIR client ready, but no patient context in launch (e.g., practitioner launch).");
-          // App can now show specific UI for this case, e.g., a patient search if applicable.
+          console.log("App.tsx: FHIR client ready, but no patient context in launch (e.g., practitioner launch). Patients can be found by search on the Patient Selection page.");
+          // PatientSelectionPage shows a FHIR patient search while isPractitionerLaunch is set
         } else {
           // Status will be 'no_context' or 'error', FHIRStatusDisplay will show appropriate message.
           console.log(`App.tsx: FHIR initialization completed with status: ${getAppStore().fhirContext.status}. Error: ${getAppStore().fhirContext.error || 'none'}`);
@@ -81,6 +82,7 @@ const App: React.FC = () => {
               <li><Link to="/chart-view" className="block p-2 text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-gray-700 rounded transition-colors">Chart View</Link></li>
               <li><Link to="/table-view" className="block p-2 text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-gray-700 rounded transition-colors">Table View</Link></li>
               <li><Link to="/parental-view" className="block p-2 text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-gray-700 rounded transition-colors">Parental View</Link></li>
+              <li><Link to="/launch" className="block p-2 text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-gray-700 rounded transition-colors">Connect to FHIR</Link></li>
               <li><Link to="/settings" className="block p-2 text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-gray-700 rounded transition-colors">Settings</Link></li>
             </ul>
           </nav>
@@ -94,6 +96,7 @@ const App: React.FC = () => {
               <Route path="/table-view" element={<TableViewPage />} />
               <Route path="/parental-view" element={<ParentalViewPage />} />
               <Route path="/settings" element={<SettingsPage />} />
+              <Route path="/launch" element={<SmartLaunchPage />} />
             </Routes>
           </main>
         </div>
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import useAppStore from '../store/appStore';
+import { searchFHIRPatients, PATIENT_SEARCH_PAGE_SIZE } from '../utils/fhirPatients';
+import type { FHIRPatientSearchCriteria, FHIRPatientSummary } from '../utils/fhirPatients';
+
+// Finds a patient on the FHIR server, for launches without a patient in context, and loads the one chosen
+const FHIRPatientSearch: React.FC = () => {
+  const { client, patientId, status } = useAppStore((state) => state.fhirContext);
+  const loadFHIRPatient = useAppStore((state) => state.loadFHIRPatient);
+
+  const [criteria, setCriteria] = useState<FHIRPatientSearchCriteria>({ name: '', birthdate: '', identifier: '' });
+  const [results, setResults] = useState<{ patients: FHIRPatientSummary[]; hasMore: boolean } | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isLoadingPatient = status === 'fetch_patient' || status === 'fetch_growth_data';
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!client) return;
+    if (!criteria.name?.trim() && !criteria.birthdate?.trim() && !criteria.identifier?.trim()) {
+      setError('Enter a name, date of birth or identifier to search for.');
+      return;
+    }
+    setError(null);
+    setIsSearching(true);
+    try {
+      setResults(await searchFHIRPatients(url => client.request(url), criteria));
+    } catch (searchError: any) {
+      console.error("Error searching FHIR patients:", searchError);
+      setError(searchError.message || 'The patient search failed.');
+      setResults(null);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleLoadPatient = async (fhirPatientId: string) => {
+    setError(null);
+    try {
+      await loadFHIRPatient(fhirPatientId);
+    } catch (loadError: any) {
+      console.error("Error loading FHIR patient:", loadError);
+      setError(loadError.message || 'The patient could not be loaded.');
+    }
+  };
+
+  const inputBaseClass = "mt-1 block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm bg-white dark:bg-gray-800 dark:text-gray-200";
+  const labelBaseClass = "block text-sm font-medium text-gray-600 dark:text-gray-300";
+
+  return (
+    <div className="mb-8 p-6 bg-white dark:bg-gray-700/50 shadow rounded-lg">
+      <h3 className="text-xl font-semibold mb-1 text-gray-700 dark:text-gray-100">Find a Patient in the EHR</h3>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">The app was launched without a patient. Search the EHR and choose a patient to load their growth data.</p>
+      <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div>
+          <label htmlFor="fhirSearchName" className={labelBaseClass}>Name</label>
+          <input type="text" id="fhirSearchName" value={criteria.name} onChange={(e) => setCriteria({ ...criteria, name: e.target.value })}
+                 className={inputBaseClass} placeholder="e.g., Smith" />
+        </div>
+        <div>
+          <label htmlFor="fhirSearchBirthdate" className={labelBaseClass}>Date of Birth</label>
+          <input type="date" id="fhirSearchBirthdate" value={criteria.birthdate} onChange={(e) => setCriteria({ ...criteria, birthdate: e.target.value })}
+                 className={`${inputBaseClass} [color-scheme:light] dark:[color-scheme:dark]`} />
+        </div>
+        <div>
+          <label htmlFor="fhirSearchIdentifier" className={labelBaseClass}>Identifier (e.g., MRN)</label>
+          <input type="text" id="fhirSearchIdentifier" value={criteria.identifier} onChange={(e) => setCriteria({ ...criteria, identifier: e.target.value })}
+                 className={inputBaseClass} />
+        </div>
+        <button type="submit" disabled={isSearching}
+                className="inline-flex justify-center items-center bg-blue-500 hover:bg-blue-700 dark:bg-blue-600 dark:hover:bg-blue-700 text-white font-bold py-2 px-4 rounded text-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:focus:ring-blue-400 disabled:opacity-50 transition-colors">
+          <MagnifyingGlassIcon className="h-5 w-5 mr-2" /> {isSearching ? 'Searching...' : 'Search'}
+        </button>
+      </form>
+      {error && <p className="text-sm text-red-600 dark:text-red-400 mt-3" role="alert">{error}</p>}
+
+      {results && (
+        results.patients.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-4">No patients match this search.</p>
+        ) : (
+          <ul className="mt-4 divide-y divide-gray-200 dark:divide-gray-600 border border-gray-200 dark:border-gray-600 rounded-lg">
+            {results.patients.map(patient => (
+              <li key={patient.id} className="p-3 flex justify-between items-center">
+                <div>
+                  <p className="font-medium text-gray-800 dark:text-gray-100">{patient.name}</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-300">
+                    DOB: {patient.birthDate ?? 'Unknown'} | Sex: {patient.sex}
+                    {patient.identifiers.length > 0 && <> | {patient.identifiers.join(', ')}</>}
+                  </p>
+                </div>
+                {patient.id === patientId ? (
+                  <span className="text-xs font-semibold text-blue-600 dark:text-blue-300 bg-blue-200 dark:bg-blue-700 px-2 py-1 rounded-full">Loaded</span>
+                ) : (
+                  <button onClick={() => handleLoadPatient(patient.id)} disabled={isLoadingPatient}
+                          className="text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline">
+                    Load Patient
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+      {results?.hasMore && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">Showing the first {PATIENT_SEARCH_PAGE_SIZE} matches. Add a date of birth or identifier to narrow the search.</p>
+      )}
+    </div>
+  );
+};
+
+export default FHIRPatientSearch;
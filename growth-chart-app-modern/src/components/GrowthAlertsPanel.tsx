@@ -0,0 +1,44 @@
+import React from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { useCurrentPatient, useCurrentPatientRecords } from '../store/appStore';
+import type { RecordZScore } from '../utils/referenceData';
+import { useGrowthAlerts } from '../hooks/useGrowthAlerts';
+import { getLatestAlerts, GROWTH_ALERT_LABELS } from '../utils/alerts';
+
+interface GrowthAlertsPanelProps {
+  zScoresByRecordId: Record<string, RecordZScore>; // Z-scores of the selected patient's records, as from useRecordZScores
+}
+
+// The selected patient's current growth alerts: the latest of each type and measurement
+const GrowthAlertsPanel: React.FC<GrowthAlertsPanelProps> = ({ zScoresByRecordId }) => {
+  const currentPatient = useCurrentPatient();
+  const patientRecords = useCurrentPatientRecords();
+  const alerts = useGrowthAlerts(patientRecords, zScoresByRecordId);
+  const latestAlerts = getLatestAlerts(alerts);
+
+  return (
+    <div className="bg-white dark:bg-gray-700/50 p-6 rounded-lg shadow mb-6">
+      <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100 mb-3">Growth Alerts</h2>
+      {!currentPatient ? (
+        <p className="text-gray-500 dark:text-gray-400">Select a patient to see alerts for concerning growth trajectories.</p>
+      ) : latestAlerts.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">No growth alerts for {currentPatient.name}.</p>
+      ) : (
+        <ul className="space-y-2">
+          {latestAlerts.map(alert => (
+            <li key={`${alert.type}:${alert.measurementType}`} className="flex items-start">
+              <ExclamationTriangleIcon className={`h-5 w-5 mr-2 flex-shrink-0 ${alert.severity === 'concern' ? 'text-red-600 dark:text-red-400' : 'text-amber-500 dark:text-amber-400'}`} aria-hidden="true" />
+              <div>
+                <span className="font-semibold">{GROWTH_ALERT_LABELS[alert.type]}</span>
+                <span className="text-sm text-gray-500 dark:text-gray-400"> at {alert.ageMonths.toFixed(1)} months</span>
+                <p className="text-sm text-gray-700 dark:text-gray-300">{alert.message}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default GrowthAlertsPanel;
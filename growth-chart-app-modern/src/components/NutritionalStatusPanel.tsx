@@ -0,0 +1,55 @@
+import React from 'react';
+import useAppStore, { useCurrentPatient, useCurrentPatientRecords } from '../store/appStore';
+import { DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS } from '../utils/calculations';
+import type { RecordZScore } from '../utils/referenceData';
+import { useNutritionalStatus } from '../hooks/useNutritionalStatus';
+import { NUTRITION_INDICATOR_LABELS } from '../utils/nutrition';
+import { formatPercentile } from '../utils/zScoreCalculator';
+
+interface NutritionalStatusPanelProps {
+  zScoresByRecordId: Record<string, RecordZScore>; // Z-scores of the selected patient's records, as from useRecordZScores
+}
+
+// The selected patient's nutritional status by indicator, with the reference and cut-offs each category comes from
+const NutritionalStatusPanel: React.FC<NutritionalStatusPanelProps> = ({ zScoresByRecordId }) => {
+  const currentPatient = useCurrentPatient();
+  const patientRecords = useCurrentPatientRecords();
+  const correctedAgeCutoffMonths = useAppStore((state) => state.settings.correctedAgeCutoffMonths) ?? DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS;
+  const classifications = useNutritionalStatus(patientRecords, currentPatient, zScoresByRecordId, correctedAgeCutoffMonths);
+
+  return (
+    <div className="bg-white dark:bg-gray-700/50 p-6 rounded-lg shadow mb-6">
+      <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100 mb-3">Nutritional Status</h2>
+      {!currentPatient ? (
+        <p className="text-gray-500 dark:text-gray-400">Select a patient to classify stunting, wasting, underweight and overweight.</p>
+      ) : classifications.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">No measurements of {currentPatient.name} could be assessed against a reference.</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              <th className="pr-4 py-1 font-medium">Indicator</th>
+              <th className="pr-4 py-1 font-medium">Latest</th>
+              <th className="pr-4 py-1 font-medium">Z-score (centile)</th>
+              <th className="pr-4 py-1 font-medium">Status</th>
+              <th className="py-1 font-medium">Reference</th>
+            </tr>
+          </thead>
+          <tbody>
+            {classifications.map(({ indicator, system, category, isNormal, record, zScore }) => (
+              <tr key={indicator}>
+                <td className="pr-4 py-1">{NUTRITION_INDICATOR_LABELS[indicator]}</td>
+                <td className="pr-4 py-1">{record.value} {record.unit} at {record.ageMonths.toFixed(1)} months</td>
+                <td className="pr-4 py-1">{zScore.zScore.toFixed(2)} ({formatPercentile(zScore.zScore)})</td>
+                <td className={`pr-4 py-1 font-semibold ${isNormal ? 'text-green-700 dark:text-green-300' : 'text-red-600 dark:text-red-400'}`}>{category}</td>
+                <td className="py-1 text-gray-600 dark:text-gray-300">{zScore.reference.name}; {system} cut-offs</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default NutritionalStatusPanel;
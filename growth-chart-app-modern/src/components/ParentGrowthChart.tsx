@@ -0,0 +1,118 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Line } from 'react-chartjs-2';
+import { Chart as ChartJS, LinearScale, PointElement, LineElement, Tooltip, Filler } from 'chart.js';
+import type { ChartData, ChartOptions, TooltipItem } from 'chart.js';
+import useAppStore from '../store/appStore';
+import type { GrowthRecord, Patient, AppSettings } from '../store/appStore';
+import { loadCentileManifest, loadChartSegments, selectDefaultChart, getMeasurementTypeForChartType, getChartMeasurementType, hasLMSParameters, toLMSDataPoints } from '../utils/referenceData';
+import type { ChartSegment, RecordZScore } from '../utils/referenceData';
+import { generateCentileCurves, parseCentileLineKey } from '../utils/zScoreCalculator';
+import { getAgeForAssessment, calculateAgeInMonths } from '../utils/calculations';
+import { getPatientConditions } from '../utils/conditions';
+import { describeGrowthForParents } from '../utils/parentSummary';
+import { convertToMetricForCalc, kgToLbs, cmToInches } from '../utils/units';
+import { useStableRecords } from '../hooks/useStableRecords';
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, Filler);
+
+const BAND_LINES = ['p3', 'p50', 'p97'].map(key => parseCentileLineKey(key)!);
+const bandColor = 'rgba(34, 197, 94, 0.15)';
+const medianColor = 'rgba(22, 163, 74, 0.6)';
+const childColor = 'rgb(37, 99, 235)';
+
+interface ParentGrowthChartProps {
+  patient: Patient;
+  records: GrowthRecord[]; // The patient's records
+  zScoresByRecordId: Record<string, RecordZScore>;
+  chartType: Extract<AppSettings['defaultChartType'], 'WeightForAge' | 'HeightForAge'>;
+  correctedAgeCutoffMonths: number;
+}
+
+// A simplified growth chart for parents: the 3rd-97th percentile band, the median and the child's measurements
+const ParentGrowthChart: React.FC<ParentGrowthChartProps> = ({ patient, records, zScoresByRecordId, chartType, correctedAgeCutoffMonths }) => {
+  const { darkMode, units } = useAppStore((state) => state.settings);
+  const [segments, setSegments] = useState<ChartSegment[]>([]);
+  const measurementType = getMeasurementTypeForChartType(chartType);
+  const measurement = chartType === 'WeightForAge' ? 'weight' : 'height';
+  const stableRecords = useStableRecords(records);
+
+  // The child's measurements at assessment age, oldest first
+  const points = useMemo(() => stableRecords
+    .filter(r => getChartMeasurementType(r.measurementType) === measurementType)
+    .map(record => ({ record, ageMonths: getAgeForAssessment(record.ageMonths, patient, correctedAgeCutoffMonths).ageMonths }))
+    .sort((a, b) => a.ageMonths - b.ageMonths), [stableRecords, patient, measurementType, correctedAgeCutoffMonths]);
+
+  useEffect(() => {
+    let isCancelled = false;
+    const fetchSegments = async () => {
+      try {
+        const manifest = await loadCentileManifest();
+        const currentAgeMonths = getAgeForAssessment(calculateAgeInMonths(patient.dob, new Date().toISOString()), patient, correctedAgeCutoffMonths).ageMonths;
+        const chart = selectDefaultChart(manifest, chartType, patient.sex, currentAgeMonths, points.map(p => p.ageMonths), getPatientConditions(patient));
+        const loaded = chart ? await loadChartSegments(chart, manifest) : [];
+        if (!isCancelled) setSegments(loaded.filter(segment => hasLMSParameters(segment.data)));
+      } catch (e) {
+        console.error(`Failed to load the ${measurement} chart:`, e);
+        if (!isCancelled) setSegments([]);
+      }
+    };
+    fetchSegments();
+    return () => { isCancelled = true; };
+  }, [patient, chartType, measurement, points, correctedAgeCutoffMonths]);
+
+  if (points.length === 0 || segments.length === 0) return null;
+
+  // Plotted in years and in the user's units; reference data is metric
+  const toDisplay = (metricValue: number) => units === 'Imperial' ? (measurement === 'weight' ? kgToLbs(metricValue) : cmToInches(metricValue)) : metricValue;
+  const unit = units === 'Imperial' ? (measurement === 'weight' ? 'lbs' : 'in') : (measurement === 'weight' ? 'kg' : 'cm');
+  const curves: Record<string, { x: number; y: number }[]> = { p3: [], p50: [], p97: [] };
+  segments.forEach(segment => {
+    const [minAge, maxAge] = segment.entry.ageRangeMonths;
+    const segmentCurves = generateCentileCurves([...toLMSDataPoints(segment.data)].sort((a, b) => a.age - b.age), BAND_LINES);
+    BAND_LINES.forEach(({ key }) => curves[key].push(...segmentCurves[key]
+      .filter(p => p.x >= minAge && p.x <= maxAge)
+      .map(p => ({ x: p.x / 12, y: toDisplay(p.y) }))));
+  });
+
+  const textColor = darkMode ? 'rgba(255, 255, 255, 0.8)' : 'rgba(0, 0, 0, 0.7)';
+  const gridColor = darkMode ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.05)';
+  const data: ChartData<'line', { x: number; y: number }[]> = {
+    datasets: [
+      { label: '3rd percentile', data: curves.p3, borderColor: 'rgba(0, 0, 0, 0)', pointRadius: 0, fill: false },
+      { label: '97th percentile', data: curves.p97, borderColor: 'rgba(0, 0, 0, 0)', backgroundColor: bandColor, pointRadius: 0, fill: '-1' },
+      { label: 'Average (50th percentile)', data: curves.p50, borderColor: medianColor, borderWidth: 1, pointRadius: 0, fill: false },
+      {
+        label: `Your child's ${measurement}`, showLine: true, borderColor: childColor, backgroundColor: childColor, pointRadius: 7, pointHoverRadius: 9,
+        data: points.map(({ record, ageMonths }) => ({ x: ageMonths / 12, y: toDisplay(convertToMetricForCalc(record.value, record.unit as GrowthRecord['unit'])) })),
+      },
+    ],
+  };
+  const options: ChartOptions<'line'> = {
+    responsive: true, maintainAspectRatio: false,
+    plugins: {
+      legend: { display: false },
+      tooltip: {
+        filter: (item: TooltipItem<'line'>) => item.datasetIndex === 3, // Only the child's measurements
+        callbacks: { label: (context: TooltipItem<'line'>) => `${context.parsed.y.toFixed(1)} ${unit} at ${context.parsed.x.toFixed(1)} years` },
+      },
+    },
+    scales: {
+      x: { type: 'linear' as const, min: 0, title: { display: true, text: 'Age (years)', color: textColor }, ticks: { color: textColor }, grid: { color: gridColor } },
+      y: { type: 'linear' as const, title: { display: true, text: `${measurement === 'weight' ? 'Weight' : 'Height'} (${unit})`, color: textColor }, ticks: { color: textColor }, grid: { color: gridColor } },
+    },
+  };
+
+  const zScores = points.map(p => zScoresByRecordId[p.record.id]?.zScore).filter((z): z is number => z !== undefined && !isNaN(z));
+  return (
+    <div className="bg-white dark:bg-gray-700/50 p-6 rounded-lg shadow">
+      <h3 className="text-xl font-semibold text-green-600 dark:text-green-300 mb-2">{measurement === 'weight' ? 'Weight' : 'Height'}</h3>
+      <p className="mb-1">{describeGrowthForParents(zScores, measurement)}</p>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">The shaded band shows where 94 in 100 children of the same age and sex are; the line through it is the average.</p>
+      <div className="h-64">
+        <Line options={options} data={data} />
+      </div>
+    </div>
+  );
+};
+
+export default ParentGrowthChart;
@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { render, screen, waitFor } from '@testing-library/react';
+import { Line } from 'react-chartjs-2';
+import type { ChartData, ChartOptions, TooltipItem } from 'chart.js';
+import ParentGrowthChart from '../ParentGrowthChart';
+import useAppStore from '../../store/appStore';
+import type { GrowthRecord, Patient } from '../../store/appStore';
+import { clearReferenceDataCache } from '../../utils/referenceData';
+import type { RecordZScore } from '../../utils/referenceData';
+
+// The canvas is not rendered in jsdom; tests inspect the data and options passed to the chart
+jest.mock('react-chartjs-2', () => ({ Line: jest.fn(() => null) }));
+
+const publicDir = path.join(__dirname, '../../../public');
+const patient: Patient = { id: 'p1', name: 'Test Boy', dob: '2020-01-01', sex: 'Male' };
+const weight = (id: string, ageMonths: number, value: number, unit: GrowthRecord['unit'] = 'kg'): GrowthRecord => ({
+  id, patientId: 'p1', date: '2021-01-01', ageMonths, measurementType: 'Weight', value, unit,
+});
+const who = { id: 'who_weight_boys_0_24_p', name: 'WHO Weight', source: 'WHO' };
+const zScoresByRecordId: Record<string, RecordZScore> = { w6: { zScore: 0, reference: who }, w12: { zScore: 0, reference: who } };
+
+const lastChartProps = () => {
+  const calls = (Line as unknown as jest.Mock).mock.calls;
+  return calls[calls.length - 1][0] as { data: ChartData<'line', { x: number; y: number }[]>; options: ChartOptions<'line'> };
+};
+
+describe('ParentGrowthChart', () => {
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    // Serve the bundled reference data
+    global.fetch = jest.fn((url: string) => Promise.resolve({
+      ok: true, status: 200,
+      json: () => Promise.resolve(JSON.parse(fs.readFileSync(path.join(publicDir, url), 'utf8'))),
+    })) as unknown as typeof fetch;
+  });
+  beforeEach(() => {
+    clearReferenceDataCache();
+    (Line as unknown as jest.Mock).mockClear();
+    (global.fetch as jest.Mock).mockClear();
+  });
+  afterAll(() => { global.fetch = originalFetch; });
+
+  it('should plot the child\'s measurements in years over the percentile band', async () => {
+    render(<ParentGrowthChart patient={patient} records={[weight('w12', 12, 9.6), weight('w6', 6, 7.9)]} zScoresByRecordId={zScoresByRecordId}
+      chartType="WeightForAge" correctedAgeCutoffMonths={24} />);
+
+    expect(await screen.findByRole('heading', { name: 'Weight' })).toBeInTheDocument();
+    expect(screen.getByText("Your child's weight is growing along the 50th percentile.")).toBeInTheDocument();
+    const { data } = lastChartProps();
+    expect(data.datasets.map(d => d.label)).toEqual(['3rd percentile', '97th percentile', 'Average (50th percentile)', "Your child's weight"]);
+    expect(data.datasets[3].data).toEqual([{ x: 0.5, y: 7.9 }, { x: 1, y: 9.6 }]);
+    expect(data.datasets[2].data.length).toBeGreaterThan(0);
+  });
+
+  it('should show tooltips for the child\'s measurements only', async () => {
+    render(<ParentGrowthChart patient={patient} records={[weight('w6', 6, 7.9)]} zScoresByRecordId={zScoresByRecordId}
+      chartType="WeightForAge" correctedAgeCutoffMonths={24} />);
+
+    await waitFor(() => expect(Line).toHaveBeenCalled());
+    const tooltip = lastChartProps().options.plugins!.tooltip!;
+    const item = (datasetIndex: number) => ({ datasetIndex, parsed: { x: 0.5, y: 7.94 } }) as TooltipItem<'line'>;
+    expect(tooltip.filter!(item(3), 0, [], {} as never)).toBe(true);
+    expect(tooltip.filter!(item(2), 0, [], {} as never)).toBe(false);
+    expect((tooltip.callbacks!.label as (context: TooltipItem<'line'>) => string)(item(3))).toBe('7.9 kg at 0.5 years');
+  });
+
+  it('should plot in the user\'s units', async () => {
+    useAppStore.setState(state => ({ settings: { ...state.settings, units: 'Imperial' } }));
+    const { unmount } = render(<ParentGrowthChart patient={patient} records={[weight('w6', 6, 7.9)]} zScoresByRecordId={zScoresByRecordId}
+      chartType="WeightForAge" correctedAgeCutoffMonths={24} />);
+
+    await waitFor(() => expect(Line).toHaveBeenCalled());
+    const { data, options } = lastChartProps();
+    expect(data.datasets[3].data[0].y).toBeCloseTo(17.42, 2);
+    expect(options.scales!.y!.title).toMatchObject({ text: 'Weight (lbs)' });
+    unmount();
+    useAppStore.setState(state => ({ settings: { ...state.settings, units: 'Metric' } }));
+  });
+
+  it('should render nothing without measurements for the chart', async () => {
+    const { container } = render(<ParentGrowthChart patient={patient} records={[weight('w6', 6, 7.9)]} zScoresByRecordId={zScoresByRecordId}
+      chartType="HeightForAge" correctedAgeCutoffMonths={24} />);
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    expect(container).toBeEmptyDOMElement();
+    expect(Line).not.toHaveBeenCalled();
+  });
+});
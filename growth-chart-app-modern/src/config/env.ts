@@ -0,0 +1,5 @@
+// src/config/env.ts
+
+// Build-time settings from Vite's environment, read only here so that tests can mock this module
+// (Jest cannot compile `import.meta`).
+export const SMART_CLIENT_ID: string | undefined = import.meta.env.VITE_SMART_CLIENT_ID;
@@ -0,0 +1,56 @@
+// src/config/smart.ts
+
+// How the app registers with SMART on FHIR authorization servers. The client id and redirect URI must
+// match the registration on each server; the SMART Health IT sandbox accepts any client id.
+export interface SmartClientConfig {
+  clientId: string;
+  scope: string; // Space-separated SMART scopes
+  redirectUri: string; // Relative to the app's origin; the page that completes the authorization
+  pkceMode: 'ifSupported' | 'required';
+}
+
+// A FHIR server offered for standalone launch
+export interface FHIRServerOption {
+  name: string;
+  url: string; // FHIR base URL
+}
+
+// Reading growth data
+const DATA_SCOPES = 'openid fhirUser patient/Patient.read patient/Observation.read';
+
+// The client id comes from VITE_SMART_CLIENT_ID at build time. Without it no launch can be authorized,
+// so this throws rather than falling back to an id the server doesn't know.
+// Write access to Observations is only requested with `writeBack`, when measurements are written back to the EHR.
+export function getSmartConfig(
+  clientId: string | undefined,
+  { writeBack = false }: { writeBack?: boolean } = {}
+): { ehrLaunch: SmartClientConfig; standaloneLaunch: SmartClientConfig } {
+  if (!clientId?.trim()) {
+    throw new Error('No SMART client id is configured. Set VITE_SMART_CLIENT_ID to the client id registered with the FHIR server and rebuild the app.');
+  }
+  const dataScopes = writeBack ? `${DATA_SCOPES} patient/Observation.write` : DATA_SCOPES;
+  const userScopes = writeBack ? 'user/Patient.read user/Observation.read user/Observation.write' : 'user/Patient.read user/Observation.read';
+  return {
+    // Launched from the EHR, which supplies the server (iss) and launch context. A practitioner launch
+    // without a patient needs to search patients and read their Observations. PKCE is used wherever the
+    // server advertises it.
+    ehrLaunch: {
+      clientId: clientId.trim(),
+      scope: `launch ${dataScopes} ${userScopes}`,
+      redirectUri: '/',
+      pkceMode: 'ifSupported',
+    },
+    // Launched directly: the user picks the server, then the patient on the server's authorization screens.
+    // The app is a public client, so it requires PKCE.
+    standaloneLaunch: {
+      clientId: clientId.trim(),
+      scope: `launch/patient ${dataScopes}`,
+      redirectUri: '/',
+      pkceMode: 'required',
+    },
+  };
+}
+
+export const FHIR_SERVER_OPTIONS: FHIRServerOption[] = [
+  { name: 'SMART Health IT Sandbox (R4)', url: 'https://launch.smarthealthit.org/v/r4/fhir' },
+];
@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import type { GrowthRecord } from '../store/appStore';
+import { evaluateGrowthAlerts } from '../utils/alerts';
+import type { GrowthAlert } from '../utils/alerts';
+import type { ZScoreResult } from '../utils/zScoreCalculator';
+import { useStableRecords } from './useStableRecords';
+
+/**
+ * Evaluates the growth alert rules for a patient's records.
+ * @param zScoresByRecordId Z-scores of the records, as from useRecordZScores.
+ * @returns Alerts in age order.
+ */
+export function useGrowthAlerts(
+  records: GrowthRecord[],
+  zScoresByRecordId: Record<string, ZScoreResult>
+): GrowthAlert[] {
+  const stableRecords = useStableRecords(records);
+  return useMemo(() => evaluateGrowthAlerts(stableRecords, zScoresByRecordId), [stableRecords, zScoresByRecordId]);
+}
@@ -0,0 +1,42 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { GrowthRecord, Patient } from '../store/appStore';
+import { calculateWeightForStatureZScores } from '../utils/referenceData';
+import type { RecordZScore } from '../utils/referenceData';
+import { classifyNutritionalStatus } from '../utils/nutrition';
+import type { NutritionalClassification } from '../utils/nutrition';
+import { useStableRecords } from './useStableRecords';
+
+/**
+ * Classifies a patient's nutritional status from their latest records. Weight-for-length/height Z-scores
+ * are calculated asynchronously; until they arrive (or without those charts) wasting is assessed from BMI only.
+ * @param zScoresByRecordId Z-scores of the records, as from useRecordZScores.
+ * @returns One classification per assessed indicator.
+ */
+export function useNutritionalStatus(
+  records: GrowthRecord[],
+  patient: Patient | null | undefined,
+  zScoresByRecordId: Record<string, RecordZScore>,
+  correctedAgeCutoffMonths: number
+): NutritionalClassification[] {
+  const [weightForStatureZScores, setWeightForStatureZScores] = useState<Record<string, RecordZScore>>({});
+
+  const stableRecords = useStableRecords(records);
+
+  useEffect(() => {
+    if (!patient || stableRecords.length === 0) {
+      setWeightForStatureZScores({});
+      return;
+    }
+    let isCancelled = false;
+    calculateWeightForStatureZScores(stableRecords, patient, correctedAgeCutoffMonths)
+      .then(zScores => { if (!isCancelled) setWeightForStatureZScores(zScores); })
+      .catch(e => {
+        console.error("Failed to calculate weight-for-length/height percentiles:", e);
+        if (!isCancelled) setWeightForStatureZScores({});
+      });
+    return () => { isCancelled = true; };
+  }, [patient, stableRecords, correctedAgeCutoffMonths]);
+
+  return useMemo(() => classifyNutritionalStatus(stableRecords, zScoresByRecordId, weightForStatureZScores, patient, correctedAgeCutoffMonths),
+    [stableRecords, zScoresByRecordId, weightForStatureZScores, patient, correctedAgeCutoffMonths]);
+}
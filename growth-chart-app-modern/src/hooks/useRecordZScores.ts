@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react';
+import type { GrowthRecord, Patient } from '../store/appStore';
+import { calculateRecordZScores } from '../utils/referenceData';
+import type { RecordZScore } from '../utils/referenceData';
+import { useStableRecords } from './useStableRecords';
+
+/**
+ * Calculates Z-scores for a patient's records against the best matching reference charts.
+ * Results arrive asynchronously once reference data is loaded; until then (or on failure) the map is empty.
+ * @returns Map of record ID to Z-score result and the chart it was read from.
+ */
+export function useRecordZScores(
+  records: GrowthRecord[],
+  patient: Patient | null | undefined,
+  correctedAgeCutoffMonths: number
+): Record<string, RecordZScore> {
+  const [zScoresByRecordId, setZScoresByRecordId] = useState<Record<string, RecordZScore>>({});
+  const stableRecords = useStableRecords(records);
+
+  useEffect(() => {
+    if (!patient || stableRecords.length === 0) {
+      setZScoresByRecordId({});
+      return;
+    }
+    let isCancelled = false;
+    calculateRecordZScores(stableRecords, patient, correctedAgeCutoffMonths)
+      .then(zScores => { if (!isCancelled) setZScoresByRecordId(zScores); })
+      .catch(e => {
+        console.error("Failed to calculate percentiles for records:", e);
+        if (!isCancelled) setZScoresByRecordId({});
+      });
+    return () => { isCancelled = true; };
+  }, [patient, stableRecords, correctedAgeCutoffMonths]);
+
+  return zScoresByRecordId;
+}
@@ -0,0 +1,20 @@
+import { useState } from 'react';
+import type { GrowthRecord } from '../store/appStore';
+
+const getRecordsKey = (records: GrowthRecord[]) =>
+  records.map(r => `${r.id}:${r.measurementType}:${r.date}:${r.ageMonths}:${r.value}:${r.unit}`).join('|');
+
+/**
+ * Keeps the same records array while the records' content is unchanged. A patient's records are
+ * re-derived on every render, so effects and memos depending on them would otherwise re-run each time.
+ * @returns The records as first seen with this content.
+ */
+export function useStableRecords(records: GrowthRecord[]): GrowthRecord[] {
+  const recordsKey = getRecordsKey(records);
+  const [stable, setStable] = useState({ recordsKey, records });
+  if (stable.recordsKey !== recordsKey) {
+    setStable({ recordsKey, records }); // React re-renders with the new records before committing
+    return records;
+  }
+  return stable.records;
+}
@@ -4,36 +4,36 @@ import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement
 import 'chartjs-adapter-date-fns';
 import useAppStore, { useCurrentPatient, useCurrentPatientRecords, GrowthRecord, AppSettings } from '../store/appStore';
 import Spinner from '../components/Spinner';
-import { getZScoreForMeasurement, LMSDataPoint } from '../utils/zScoreCalculator';
-import { generateVelocityDataSeries, VelocityDataPoint } from '../utils/calculations';
-import { convertWeightForDisplay, convertHeightForDisplay, WeightUnit, HeightUnit, DisplayUnits, convertToMetricForCalc } from '../utils/units';
+import { getZScoreResultForMeasurement, generateCentileCurves, resolveCentileLines, formatPercentile, parseCentileLineKey, getLMSForAge, calculateValueFromZScore } from '../utils/zScoreCalculator';
+import type { BMIObesityClass } from '../utils/zScoreCalculator';
+import { loadCentileManifest, loadCentileData, loadChartSegments, hasLMSParameters, getZScoreMethod, getChartMeasurementType, getMeasurementTypeForChartType, selectDefaultChart, getChartsCoveringAges, isCompositeChart, findSegmentForAge, getChartTransitions, getChartXAxis, getPairedRecordTypes, getCentileX, toLMSDataPoints, isChartForConditions, isConditionSpecificChart, loadHeightVelocityReferences, loadBayleyPinneauTables } from '../utils/referenceData';
+import type { CentileManifestEntry, ChartSegment } from '../utils/referenceData';
+import { generateVelocityDataSeries, VelocityDataPoint, getAgeForAssessment, isPreterm, DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS, calculateAgeInMonths, pairRecordsByVisit, calculateTargetHeight, ADULT_HEIGHT_AGE_MONTHS, DEFAULT_HEIGHT_VELOCITY_MIN_INTERVAL_MONTHS, DEFAULT_WEIGHT_VELOCITY_MIN_INTERVAL_MONTHS, DEFAULT_VELOCITY_WINDOW_MONTHS, toMetricVelocityRecords } from '../utils/calculations';
+import type { VelocityOptions } from '../utils/calculations';
+import { getPatientConditions, getConditionLabel } from '../utils/conditions';
+import { getPubertyTimeline, findHeightVelocityReference, compareHeightVelocity } from '../utils/puberty';
+import type { HeightVelocityReference, VelocityComparison } from '../utils/puberty';
+import { useRecordZScores } from '../hooks/useRecordZScores';
+import { useGrowthAlerts } from '../hooks/useGrowthAlerts';
+import { GROWTH_ALERT_LABELS } from '../utils/alerts';
+import type { GrowthAlertSeverity } from '../utils/alerts';
+import { getBoneAgeMonths, formatYearsMonths, predictAdultHeightFromBoneAge, findBoneAgeWithHeight, BONE_AGE_METHOD_LABELS, BONE_AGE_HEIGHT_MAX_GAP_MONTHS } from '../utils/boneAge';
+import type { BayleyPinneauTable } from '../utils/boneAge';
+import { convertWeightForDisplay, convertHeightForDisplay, WeightUnit, HeightUnit, convertToMetricForCalc, parseUnit } from '../utils/units';
 
 ChartJS.register( CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend, TimeScale, Filler );
 
-interface CentilePoint {
-  age: number;
-  [key: string]: number | undefined;
-  l?: number; m?: number; s?: number;
-}
-interface CentileData {
-  source: string; name: string; measurementType: string; sex: 'male' | 'female' | 'any';
-  ageUnit: string; measurementUnit: string; centilesAvailable: string[];
-  lmsParametersAvailable?: string[]; data: CentilePoint[];
-}
-interface CentileManifestEntry {
-  id: string; name: string; description: string; measurementType: string; sex: 'male' | 'female' | 'any';
-  ageRangeMonths: [number, number]; source: string; type: 'percentiles' | 'z-scores'; dataFile: string;
-  // Add a flag for 'Other' chart types if we make them selectable in manifest
-  isOtherMeasurementChart?: boolean;
-  otherMeasurementName?: string;
-}
-
 const lineColors = [
   'rgb(54, 162, 235)', 'rgb(255, 159, 64)', 'rgb(153, 102, 255)',
   'rgb(201, 203, 207)', 'rgb(255, 205, 86)', 'rgb(75, 192, 75)'
 ];
 const velocityLineColor = 'rgb(255, 99, 71)';
 const interventionPointColor = 'rgb(138, 43, 226)'; // Purple for intervention markers
+const targetHeightColor = 'rgb(13, 148, 136)'; // Teal for the mid-parental target and centile projection
+const boneAgeColor = 'rgb(217, 119, 6)'; // Amber for bone age markers and predictions
+const pubertyBandColors = ['rgba(236, 72, 153, 0.1)', 'rgba(236, 72, 153, 0.2)', 'rgba(236, 72, 153, 0.3)', 'rgba(236, 72, 153, 0.4)', 'rgba(236, 72, 153, 0.5)']; // Tanner 1-5
+const velocityComparisonColors: Record<VelocityComparison, string> = { below: 'rgb(220, 38, 38)', within: 'rgb(22, 163, 74)', above: 'rgb(234, 88, 12)' };
+const alertSeverityColors: Record<GrowthAlertSeverity, string> = { warning: 'rgb(245, 158, 11)', concern: 'rgb(220, 38, 38)' };
 
 const ChartViewPage: React.FC = () => {
   const currentPatient = useCurrentPatient();
@@ -41,11 +41,20 @@ const ChartViewPage: React.FC = () => {
   const appSettings = useAppStore((state) => state.settings);
   const darkMode = appSettings.darkMode;
   const displayUnitSystem = appSettings.units;
+  const correctedAgeCutoffMonths = appSettings.correctedAgeCutoffMonths ?? DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS;
+  const centileLinePreset = appSettings.centileLinePreset;
+  const defaultChartType = appSettings.defaultChartType;
+  const heightVelocityMinIntervalMonths = appSettings.heightVelocityMinIntervalMonths ?? DEFAULT_HEIGHT_VELOCITY_MIN_INTERVAL_MONTHS;
+  const weightVelocityMinIntervalMonths = appSettings.weightVelocityMinIntervalMonths ?? DEFAULT_WEIGHT_VELOCITY_MIN_INTERVAL_MONTHS;
+  const velocityWindowMonths = appSettings.velocityWindowMonths ?? DEFAULT_VELOCITY_WINDOW_MONTHS;
 
   const [manifest, setManifest] = useState<CentileManifestEntry[]>([]);
   const [selectedCentileId, setSelectedCentileId] = useState<string>(''); // ID of selected centile chart OR an "Other" measurement name
-  const [currentCentileData, setCurrentCentileData] = useState<CentileData | null>(null); // For standard charts
+  const [chartSegments, setChartSegments] = useState<ChartSegment[]>([]); // For standard charts; several for composite charts
+  const currentCentileData = chartSegments.length > 0 ? chartSegments[0].data : null; // Measurement type and units are shared by all segments
   const [isOtherChartSelected, setIsOtherChartSelected] = useState(false);
+  const [showGeneralReference, setShowGeneralReference] = useState(false); // Overlay the general WHO/CDC reference on condition-specific charts
+  const [generalReferenceSegments, setGeneralReferenceSegments] = useState<ChartSegment[]>([]);
 
   const [chartData, setChartData] = useState<any>({ datasets: [] });
   const [isLoadingManifest, setIsLoadingManifest] = useState<boolean>(false);
@@ -53,8 +62,17 @@ const ChartViewPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [filteredManifest, setFilteredManifest] = useState<CentileManifestEntry[]>([]);
   const [velocitySeries, setVelocitySeries] = useState<VelocityDataPoint[]>([]);
+  const [heightVelocityReferences, setHeightVelocityReferences] = useState<HeightVelocityReference[]>([]);
+  const [heightVelocityReferencesError, setHeightVelocityReferencesError] = useState<string | null>(null);
+  const [bayleyPinneauTables, setBayleyPinneauTables] = useState<BayleyPinneauTable[] | null | undefined>(undefined); // null when none are installed
+  const [bayleyPinneauTablesError, setBayleyPinneauTablesError] = useState<string | null>(null);
   const [chartOptions, setChartOptions] = useState<any>({});
 
+  const zScoresByRecordId = useRecordZScores(patientRecords, currentPatient, correctedAgeCutoffMonths);
+  const growthAlerts = useGrowthAlerts(patientRecords, zScoresByRecordId);
+
+  const patientConditions = React.useMemo(() => currentPatient ? getPatientConditions(currentPatient) : [], [currentPatient]);
+
   // Extract unique 'Other' measurement names for the current patient
   const otherMeasurementTypes = React.useMemo(() => {
     if (!currentPatient) return [];
@@ -62,14 +80,25 @@ const ChartViewPage: React.FC = () => {
     return [...new Set(otherRecords.map(r => r.otherMeasurementName!))];
   }, [patientRecords, currentPatient]);
 
+  // Which reference charts the patient's measurements of the selected type fall on
+  const recordChartCoverage = React.useMemo(() => {
+    const selectedEntry = manifest.find(entry => entry.id === selectedCentileId);
+    if (!currentPatient || !selectedEntry) return null;
+    const recordAges = patientRecords
+      .filter(r => getChartMeasurementType(r.measurementType) === selectedEntry.measurementType)
+      .map(r => getAgeForAssessment(r.ageMonths, currentPatient, correctedAgeCutoffMonths).ageMonths);
+    const coverage = getChartsCoveringAges(filteredManifest, selectedEntry.measurementType, currentPatient.sex, recordAges, patientConditions);
+    const recordsOnSelectedChart = recordAges.filter(age => age >= selectedEntry.ageRangeMonths[0] && age <= selectedEntry.ageRangeMonths[1]).length;
+    const compositeCharts = filteredManifest.filter(entry => isCompositeChart(entry) && entry.measurementType === selectedEntry.measurementType && entry.id !== selectedCentileId);
+    return { ...coverage, compositeCharts, recordsOffSelectedChart: recordAges.length - recordsOnSelectedChart };
+  }, [currentPatient, patientRecords, manifest, filteredManifest, selectedCentileId, correctedAgeCutoffMonths, patientConditions]);
+
 
   useEffect(() => { /* ... manifest fetching ... */
     const fetchManifest = async () => {
       setIsLoadingManifest(true);
       try {
-        const response = await fetch('/data/centile_manifest.json');
-        if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-        const data: CentileManifestEntry[] = await response.json();
+        const data = await loadCentileManifest();
         setManifest(data); setError(null);
       } catch (e) {
         console.error("Failed to fetch centile manifest:", e);
@@ -79,33 +108,55 @@ const ChartViewPage: React.FC = () => {
     fetchManifest();
   }, []);
 
+  useEffect(() => { // Optional: without references, height velocity is shown without a puberty-stage comparison
+    loadHeightVelocityReferences()
+      .then(data => { setHeightVelocityReferences(data ? data.references : []); setHeightVelocityReferencesError(null); })
+      .catch(e => setHeightVelocityReferencesError(e instanceof Error ? e.message : String(e)));
+  }, []);
+
+  useEffect(() => { // Optional: without the tables, bone age is plotted but adult height is not predicted from it
+    loadBayleyPinneauTables()
+      .then(data => { setBayleyPinneauTables(data ? data.tables : null); setBayleyPinneauTablesError(null); })
+      .catch(e => setBayleyPinneauTablesError(e instanceof Error ? e.message : String(e)));
+  }, []);
+
+  // Charts are chosen per patient: clear the selection so the default is picked again
+  useEffect(() => {
+    setSelectedCentileId('');
+  }, [currentPatient?.id]);
+
   useEffect(() => { /* ... filteredManifest update ... */
     if (currentPatient && manifest.length > 0) {
-      const standardCharts = manifest.filter(entry =>
-        (entry.sex === currentPatient.sex.toLowerCase() || entry.sex === 'any') &&
-        (!currentPatient.condition || !entry.id.includes(currentPatient.condition.toLowerCase().replace(/\s/g,'_'))) // Basic exclusion if condition specific charts are named
-      );
-      // Potentially add condition-specific charts here if manifest supports it
-      // For now, just standard sex-based filtering.
+      // Charts for the patient's sex and conditions, with condition-specific references listed first
+      const standardCharts = manifest
+        .filter(entry => (entry.sex === currentPatient.sex.toLowerCase() || entry.sex === 'any') && isChartForConditions(entry, patientConditions))
+        .sort((a, b) => Number(isConditionSpecificChart(b)) - Number(isConditionSpecificChart(a)));
       setFilteredManifest(standardCharts);
 
       if (!standardCharts.find(entry => entry.id === selectedCentileId) &&
           !otherMeasurementTypes.includes(selectedCentileId) && // also check if it's an "Other" type
           standardCharts.length > 0) {
-        // Auto-select logic can be added here if desired
+        // Auto-select the default chart type for the patient's current age, or the age of their latest measurement
+        const currentAgeMonths = getAgeForAssessment(calculateAgeInMonths(currentPatient.dob, new Date().toISOString()), currentPatient, correctedAgeCutoffMonths).ageMonths;
+        const defaultMeasurementType = getMeasurementTypeForChartType(defaultChartType);
+        const recordAges = patientRecords
+          .filter(r => getChartMeasurementType(r.measurementType) === defaultMeasurementType)
+          .map(r => getAgeForAssessment(r.ageMonths, currentPatient, correctedAgeCutoffMonths).ageMonths);
+        const defaultChart = selectDefaultChart(standardCharts, defaultChartType, currentPatient.sex, currentAgeMonths, recordAges, patientConditions);
+        if (defaultChart) setSelectedCentileId(defaultChart.id);
       } else if (standardCharts.length === 0 && otherMeasurementTypes.length === 0) {
           setSelectedCentileId('');
       }
     } else if (!currentPatient) {
-      setFilteredManifest(manifest); setSelectedCentileId(''); setCurrentCentileData(null); setIsOtherChartSelected(false);
+      setFilteredManifest(manifest); setSelectedCentileId(''); setChartSegments([]); setIsOtherChartSelected(false);
     } else {
       setFilteredManifest(manifest);
     }
-  }, [currentPatient, manifest, selectedCentileId, otherMeasurementTypes]);
+  }, [currentPatient, manifest, selectedCentileId, otherMeasurementTypes, defaultChartType, patientRecords, correctedAgeCutoffMonths, patientConditions]);
 
   useEffect(() => { /* ... currentCentileData fetching ... */
     if (!selectedCentileId) {
-        setCurrentCentileData(null);
+        setChartSegments([]);
         setIsOtherChartSelected(false);
         return;
     }
@@ -116,67 +167,114 @@ const ChartViewPage: React.FC = () => {
         const fetchCentileFile = async () => {
           setIsLoadingCentiles(true);
           try {
-            const response = await fetch(standardChartEntry.dataFile);
-            if (!response.ok) throw new Error(`HTTP error! status: ${response.status} for ${standardChartEntry.dataFile}`);
-            const data: CentileData = await response.json();
-            setCurrentCentileData(data); setError(null);
+            const segments = await loadChartSegments(standardChartEntry, manifest);
+            setChartSegments(segments); setError(null);
           } catch (e) {
             console.error(`Failed to fetch centile data for ${standardChartEntry.name}:`, e);
-            setError(`Failed to load data for ${standardChartEntry.name}.`); setCurrentCentileData(null);
+            setError(`Failed to load data for ${standardChartEntry.name}.`); setChartSegments([]);
           } finally { setIsLoadingCentiles(false); }
         };
         fetchCentileFile();
     } else if (otherMeasurementTypes.includes(selectedCentileId)) {
         // It's an "Other" measurement type selected
         setIsOtherChartSelected(true);
-        setCurrentCentileData(null); // No centile data for "Other" types
+        setChartSegments([]); // No centile data for "Other" types
         setError(null);
         setIsLoadingCentiles(false);
     } else {
         // Selected ID not found in manifest or other types
-        setCurrentCentileData(null);
+        setChartSegments([]);
         setIsOtherChartSelected(false);
         // setError(`Chart definition for "${selectedCentileId}" not found.`);
     }
   }, [selectedCentileId, manifest, otherMeasurementTypes]);
 
+  // Load the general references covering a condition-specific chart's ages, when overlaid
+  useEffect(() => {
+    const conditionChart = manifest.find(entry => entry.id === selectedCentileId);
+    if (!showGeneralReference || !currentPatient || !conditionChart || !isConditionSpecificChart(conditionChart)) {
+      setGeneralReferenceSegments([]);
+      return;
+    }
+    const [minAge, maxAge] = conditionChart.ageRangeMonths;
+    const sampleAges = Array.from({ length: Math.floor((maxAge - minAge) / 6) + 1 }, (_, i) => minAge + i * 6).concat(maxAge);
+    const generalCharts = getChartsCoveringAges(manifest, conditionChart.measurementType, currentPatient.sex, sampleAges).charts.map(chart => chart.entry);
+    const fetchGeneralReference = async () => {
+      try {
+        const segments = await Promise.all(generalCharts.map(async entry => ({ entry, data: await loadCentileData(entry) })));
+        setGeneralReferenceSegments(segments);
+      } catch (e) {
+        console.error('Failed to fetch general reference data:', e);
+        setGeneralReferenceSegments([]);
+      }
+    };
+    fetchGeneralReference();
+  }, [showGeneralReference, selectedCentileId, manifest, currentPatient]);
+
   const updateChartDataAndOptions = useCallback(() => {
-    let patientDataForChart: { x: number; y: number; zScore?: number; originalUnit: GrowthRecord['unit']; interventionType?: string; interventionDetails?: string; }[] = [];
+    let patientDataForChart: { x: number; y: number; zScore?: number; isExtendedZScore?: boolean; percentOf95th?: number; obesityClass?: BMIObesityClass; referenceSource?: string; recordId: string; ageMonths: number; originalUnit: GrowthRecord['unit']; chronologicalAgeMonths: number; isCorrectedAge: boolean; interventionType?: string; interventionDetails?: string; }[] = [];
     let patientLabel = 'Patient Measurements';
     let calculatedVelocitySeries: VelocityDataPoint[] = [];
     const datasets: ChartDataset<'line', any[]>[] = [];
 
     const activeMeasurementType = isOtherChartSelected ? 'Other' : currentCentileData?.measurementType;
     const activeOtherMeasurementName = isOtherChartSelected ? selectedCentileId : undefined;
+    const activeManifestEntry = isOtherChartSelected ? undefined : manifest.find(entry => entry.id === selectedCentileId);
+    const isComposite = !!activeManifestEntry && isCompositeChart(activeManifestEntry);
+    // Weight-for-length/height charts are plotted against the length or height measured at the same visit
+    const xAxis = !isOtherChartSelected && currentCentileData ? getChartXAxis(currentCentileData.measurementType) : 'age';
+    const pairedRecordTypes = !isOtherChartSelected && currentCentileData ? getPairedRecordTypes(currentCentileData.measurementType) : null;
 
-    if (currentPatient && (currentCentileData || isOtherChartSelected)) {
-      const hasLMS = !isOtherChartSelected && currentCentileData?.lmsParametersAvailable?.every(p => ['l','m','s'].includes(p));
+    const getVelocityOptions = (isHeight: boolean): VelocityOptions => ({
+        minIntervalMonths: isHeight ? heightVelocityMinIntervalMonths : weightVelocityMinIntervalMonths, windowMonths: velocityWindowMonths,
+    });
+    const tannerStageRecords = patientRecords.filter(r => r.measurementType === 'TannerStage');
 
-      const relevantPatientRecords = patientRecords.filter(r => {
+    if (currentPatient && (currentCentileData || isOtherChartSelected)) {
+      // Measurements outside this chart's age range belong on another reference chart
+      const isWithinChartAges = (r: GrowthRecord) => {
+        if (!activeManifestEntry) return true;
+        const assessmentAgeMonths = getAgeForAssessment(r.ageMonths, currentPatient, correctedAgeCutoffMonths).ageMonths;
+        return assessmentAgeMonths >= activeManifestEntry.ageRangeMonths[0] && assessmentAgeMonths <= activeManifestEntry.ageRangeMonths[1];
+      };
+
+      const xRecordsById = new Map<string, GrowthRecord>(); // Same-visit length/height of each plotted record
+      const relevantPatientRecords = pairedRecordTypes
+        ? pairRecordsByVisit(patientRecords, pairedRecordTypes.yRecordType, pairedRecordTypes.xRecordType)
+            .filter(({ record }) => isWithinChartAges(record))
+            .map(({ record, xRecord }) => { xRecordsById.set(record.id, xRecord); return record; })
+        : patientRecords.filter(r => {
         if (isOtherChartSelected) {
             return r.measurementType === 'Other' && r.otherMeasurementName === activeOtherMeasurementName;
         }
         if (!currentCentileData) return false; // Should not happen if !isOtherChartSelected
-        let recordMeasurementMapped = '';
-        if (r.measurementType === 'Length' || r.measurementType === 'Height') recordMeasurementMapped = 'length_for_age';
-        else if (r.measurementType === 'Weight') recordMeasurementMapped = 'weight_for_age';
-        else if (r.measurementType === 'HeadCircumference') recordMeasurementMapped = 'hc_for_age';
-        else if (r.measurementType === 'BMI') recordMeasurementMapped = 'bmi_for_age';
-        return recordMeasurementMapped === currentCentileData.measurementType ||
+        const isMatchingType = getChartMeasurementType(r.measurementType) === currentCentileData.measurementType ||
                r.measurementType.toLowerCase().replace(/\s/g, '_') === currentCentileData.measurementType;
+        return isMatchingType && isWithinChartAges(r);
       });
 
       patientDataForChart = relevantPatientRecords
         .map(r => {
-          let zScoreVal: number | undefined = undefined;
+          let zScoreResult: ReturnType<typeof getZScoreResultForMeasurement> = null;
+          // Preterm infants are plotted and assessed at corrected age until the configured cut-off
+          const { ageMonths: assessmentAgeMonths, isCorrected } = getAgeForAssessment(r.ageMonths, currentPatient, correctedAgeCutoffMonths);
           const metricValueForZScore = convertToMetricForCalc(r.value, r.unit as GrowthRecord['unit']);
-          if (hasLMS && currentCentileData?.data && !isNaN(metricValueForZScore)) {
-            const lmsReferenceData = currentCentileData.data as LMSDataPoint[];
-            zScoreVal = getZScoreForMeasurement(metricValueForZScore, r.ageMonths, lmsReferenceData);
+          const xRecord = xRecordsById.get(r.id);
+          const xValue = xRecord ? convertToMetricForCalc(xRecord.value, xRecord.unit as GrowthRecord['unit']) : assessmentAgeMonths;
+          // On composite charts each record is assessed against the reference that applies at its age
+          const segment = isOtherChartSelected ? undefined : findSegmentForAge(chartSegments, assessmentAgeMonths);
+          if (segment && hasLMSParameters(segment.data) && !isNaN(metricValueForZScore) && !isNaN(xValue)) {
+            const lmsReferenceData = toLMSDataPoints(segment.data);
+            zScoreResult = getZScoreResultForMeasurement(metricValueForZScore, xValue, lmsReferenceData, getZScoreMethod(segment.entry), segment.data.sex);
           }
           return {
-            x: r.ageMonths, y: r.value,
-            zScore: zScoreVal, originalUnit: r.unit,
+            // Reference curves are metric, so records are plotted in kg or cm whatever unit they were entered in
+            x: xValue, y: isOtherChartSelected ? r.value : metricValueForZScore, recordId: r.id, ageMonths: assessmentAgeMonths,
+            zScore: zScoreResult?.zScore, isExtendedZScore: zScoreResult?.isExtended,
+            percentOf95th: zScoreResult?.percentOf95th, obesityClass: zScoreResult?.obesityClass,
+            referenceSource: isComposite ? segment?.entry.source : undefined,
+            originalUnit: r.unit,
+            chronologicalAgeMonths: r.ageMonths, isCorrectedAge: isCorrected,
             interventionType: r.interventionType,
             interventionDetails: r.interventionDetails
           };
@@ -184,12 +282,9 @@ const ChartViewPage: React.FC = () => {
         .sort((a,b) => a.x - b.x);
 
       if (!isOtherChartSelected && (currentCentileData?.measurementType === 'length_for_age' || currentCentileData?.measurementType === 'weight_for_age')) {
-        const metricRecordsForVelocity = relevantPatientRecords.map(rec => ({
-            ...rec,
-            value: convertToMetricForCalc(rec.value, rec.unit as GrowthRecord['unit']),
-            unit: (rec.unit === 'kg' || rec.unit === 'lbs') ? 'kg' : 'cm',
-        }));
-        calculatedVelocitySeries = generateVelocityDataSeries(metricRecordsForVelocity);
+        const isHeight = currentCentileData?.measurementType === 'length_for_age';
+        // Height velocity is tagged with the Tanner stage it was measured at
+        calculatedVelocitySeries = generateVelocityDataSeries(toMetricVelocityRecords(relevantPatientRecords), isHeight ? tannerStageRecords : [], getVelocityOptions(isHeight));
       }
       setVelocitySeries(calculatedVelocitySeries);
 
@@ -212,18 +307,183 @@ const ChartViewPage: React.FC = () => {
     };
     datasets.push(patientDataset);
 
+    // Growth alerts raised at the plotted measurements
+    const alertPoints = patientDataForChart.flatMap(p => {
+      const pointAlerts = growthAlerts.filter(alert => alert.recordId === p.recordId);
+      if (pointAlerts.length === 0) return [];
+      const severity: GrowthAlertSeverity = pointAlerts.some(alert => alert.severity === 'concern') ? 'concern' : 'warning';
+      return [{ x: p.x, y: p.y, severity, alertMessages: pointAlerts.map(alert => `${GROWTH_ALERT_LABELS[alert.type]}: ${alert.message}`) }];
+    });
+    if (alertPoints.length > 0) {
+      datasets.push({
+        label: 'Growth Alerts', data: alertPoints, showLine: false, pointStyle: 'triangle', pointRadius: 10, pointBorderWidth: 2,
+        pointBorderColor: alertPoints.map(p => alertSeverityColors[p.severity]), backgroundColor: 'rgba(0, 0, 0, 0)',
+        borderColor: alertSeverityColors.warning, order: -2, yAxisID: 'yPrimary',
+      });
+    }
+
     if (currentCentileData && !isOtherChartSelected) { // Only add centiles if it's a standard chart
-      const available = currentCentileData.centilesAvailable || [];
-      available.forEach((centileKey, index) => {
-        datasets.push({
-          label: `${centileKey.toUpperCase()}`,
-          data: currentCentileData.data.map(p => ({ x: p.age, y: p[centileKey] })).sort((a,b) => a.x - b.x),
-          borderColor: lineColors[index % lineColors.length],
-          borderDash: [5, 5], tension: 0.1, pointRadius: 2, fill: false, order: index + 1, yAxisID: 'yPrimary',
-        });
+      // Lines are keyed so each segment of a composite chart continues the same legend entry
+      const centileDatasets = new Map<string, ChartDataset<'line', any[]>>();
+      const addCentileLine = (key: string, points: { x: number; y: number }[], style: Omit<ChartDataset<'line', any[]>, 'data' | 'order' | 'yAxisID'>) => {
+        if (points.length === 0) return;
+        const existing = centileDatasets.get(key);
+        if (existing) existing.data.push({ x: points[0].x, y: null }, ...points); // Break the line where the references meet
+        else centileDatasets.set(key, { ...style, data: [...points], order: centileDatasets.size + 1, yAxisID: 'yPrimary' } as ChartDataset<'line', any[]>);
+      };
+
+      chartSegments.forEach(segment => {
+        const [minAge, maxAge] = segment.entry.ageRangeMonths;
+        const isInSegment = (p: { x: number }) => xAxis !== 'age' || (p.x >= minAge && p.x <= maxAge);
+        if (hasLMSParameters(segment.data)) { // Generate smooth curves for the requested lines from the LMS parameters
+          const lines = resolveCentileLines(centileLinePreset, activeManifestEntry?.centileLines ?? segment.entry.centileLines, segment.data.centilesAvailable);
+          const lmsReferenceData = [...toLMSDataPoints(segment.data)].sort((a, b) => a.age - b.age);
+          const curves = generateCentileCurves(lmsReferenceData, lines);
+          lines.forEach(line => {
+            addCentileLine(line.key, curves[line.key].filter(isInSegment), {
+              label: line.label,
+              borderColor: centileDatasets.get(line.key)?.borderColor ?? lineColors[centileDatasets.size % lineColors.length],
+              borderDash: line.z === 0 ? [] : [5, 5], tension: 0, pointRadius: 0, fill: false,
+            });
+          });
+          if (getZScoreMethod(segment.entry) === 'cdc-extended-bmi') { // Severe obesity thresholds: 120% and 140% of the 95th percentile
+            const p95Curve = generateCentileCurves(lmsReferenceData, [parseCentileLineKey('p95')!]).p95.filter(isInSegment);
+            [120, 140].forEach((percent, index) => {
+              addCentileLine(`p95x${percent}`, p95Curve.map(p => ({ x: p.x, y: p.y * percent / 100 })), {
+                label: `${percent}% of P95`,
+                borderColor: index === 0 ? 'rgb(249, 115, 22)' : 'rgb(185, 28, 28)',
+                borderDash: [2, 4], tension: 0, pointRadius: 0, fill: false,
+              });
+            });
+          }
+        } else { // No LMS parameters: fall back to the pre-tabulated columns
+          const available = segment.data.centilesAvailable || [];
+          const keys = isComposite && activeManifestEntry?.centileLines ? activeManifestEntry.centileLines.filter(key => available.includes(key)) : available;
+          keys.forEach(centileKey => {
+            addCentileLine(centileKey, segment.data.data.map(p => ({ x: getCentileX(p, segment.data)!, y: p[centileKey]! })).filter(isInSegment).sort((a,b) => a.x - b.x), {
+              label: `${centileKey.toUpperCase()}`,
+              borderColor: centileDatasets.get(centileKey)?.borderColor ?? lineColors[centileDatasets.size % lineColors.length],
+              borderDash: [5, 5], tension: 0.1, pointRadius: 2, fill: false,
+            });
+          });
+        }
+      });
+
+      // General reference drawn faintly behind a condition-specific chart, limited to that chart's ages
+      const [chartMinAge, chartMaxAge] = activeManifestEntry?.ageRangeMonths ?? [0, Infinity];
+      generalReferenceSegments.forEach(segment => {
+        const [minAge, maxAge] = [Math.max(segment.entry.ageRangeMonths[0], chartMinAge), Math.min(segment.entry.ageRangeMonths[1], chartMaxAge)];
+        const isInSegment = (p: { x: number }) => xAxis !== 'age' || (p.x >= minAge && p.x <= maxAge);
+        const style = { borderColor: darkMode ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.25)', borderWidth: 1, tension: 0, pointRadius: 0, fill: false };
+        if (hasLMSParameters(segment.data)) {
+          const lines = resolveCentileLines(centileLinePreset, segment.entry.centileLines, segment.data.centilesAvailable);
+          const curves = generateCentileCurves([...toLMSDataPoints(segment.data)].sort((a, b) => a.age - b.age), lines);
+          lines.forEach(line => {
+            addCentileLine(`general:${line.key}`, curves[line.key].filter(isInSegment), { ...style, label: `General ${line.label}`, borderDash: line.z === 0 ? [] : [2, 3] });
+          });
+        } else {
+          (segment.data.centilesAvailable || []).forEach(centileKey => {
+            addCentileLine(`general:${centileKey}`, segment.data.data.map(p => ({ x: getCentileX(p, segment.data)!, y: p[centileKey]! })).filter(isInSegment).sort((a,b) => a.x - b.x), {
+              ...style, label: `General ${centileKey.toUpperCase()}`, borderDash: [2, 3],
+            });
+          });
+        }
       });
+      datasets.push(...centileDatasets.values());
+
+      // Mark where a composite chart switches reference (e.g. WHO to CDC at 24 months)
+      const centileValues = [...centileDatasets.values()].flatMap(dataset => dataset.data.map((p: { y: number | null }) => p.y)).filter((y): y is number => y !== null && !isNaN(y));
+      if (centileValues.length > 0) {
+        const [minY, maxY] = [Math.min(...centileValues), Math.max(...centileValues)];
+        getChartTransitions(chartSegments).forEach(transition => {
+          datasets.push({
+            label: `${transition.fromSource} → ${transition.toSource} (${transition.ageMonths} months)`,
+            data: [minY, maxY].map(y => ({ x: transition.ageMonths, y, isTransition: true })),
+            borderColor: darkMode ? 'rgba(255, 255, 255, 0.5)' : 'rgba(0, 0, 0, 0.4)',
+            borderDash: [8, 4], borderWidth: 1, tension: 0, pointRadius: 0, fill: false, order: centileDatasets.size + 1, yAxisID: 'yPrimary',
+          });
+        });
+      }
+
+      // Bone age: a horizontal line from chronological age to bone age, at the height measured with the X-ray
+      if (currentPatient && currentCentileData.measurementType === 'length_for_age') {
+        const [chartMinAge, chartMaxAge] = activeManifestEntry?.ageRangeMonths ?? [0, Infinity];
+        const heightRecords = patientRecords.filter(r => r.measurementType === 'Height' || r.measurementType === 'Length');
+        const boneAgePoints = patientRecords.filter(r => !isNaN(getBoneAgeMonths(r))).flatMap(boneAgeRecord => {
+          const chronologicalAgeMonths = getAgeForAssessment(boneAgeRecord.ageMonths, currentPatient, correctedAgeCutoffMonths).ageMonths;
+          const heightRecord = heightRecords
+            .filter(r => Math.abs(r.ageMonths - boneAgeRecord.ageMonths) <= BONE_AGE_HEIGHT_MAX_GAP_MONTHS)
+            .sort((a, b) => Math.abs(a.ageMonths - boneAgeRecord.ageMonths) - Math.abs(b.ageMonths - boneAgeRecord.ageMonths))[0];
+          if (!heightRecord || chronologicalAgeMonths < chartMinAge || chronologicalAgeMonths > chartMaxAge) return [];
+          const heightCm = convertToMetricForCalc(heightRecord.value, heightRecord.unit as GrowthRecord['unit']);
+          const boneAgeMonths = getBoneAgeMonths(boneAgeRecord);
+          const marker = { boneAgeMonths, chronologicalAgeMonths, boneAgeMethod: boneAgeRecord.boneAgeMethod };
+          return [{ x: chronologicalAgeMonths, y: heightCm, ...marker }, { x: boneAgeMonths, y: heightCm, ...marker }, { x: boneAgeMonths, y: null }];
+        });
+        if (boneAgePoints.length > 0) {
+          datasets.push({
+            label: 'Bone Age', data: boneAgePoints,
+            borderColor: boneAgeColor, backgroundColor: boneAgeColor, borderWidth: 2, tension: 0, fill: false, order: 0, yAxisID: 'yPrimary',
+            pointRadius: boneAgePoints.map((_, i) => i % 3 === 1 ? 5 : 0), pointStyle: 'triangle', spanGaps: false,
+          });
+        }
+      }
+
+      // Height charts reaching adult age: the mid-parental target range, and the child's current centile carried forward to it
+      const adultSegment = currentCentileData.measurementType === 'length_for_age' ? findSegmentForAge(chartSegments, ADULT_HEIGHT_AGE_MONTHS) : undefined;
+      if (currentPatient && adultSegment) {
+        const targetHeight = calculateTargetHeight(currentPatient);
+        if (targetHeight) {
+          const bracketTickMonths = 3;
+          datasets.push({
+            label: 'Target Height Range',
+            data: [
+              { x: ADULT_HEIGHT_AGE_MONTHS - bracketTickMonths, y: targetHeight.lowerCm }, { x: ADULT_HEIGHT_AGE_MONTHS, y: targetHeight.lowerCm },
+              { x: ADULT_HEIGHT_AGE_MONTHS, y: targetHeight.upperCm }, { x: ADULT_HEIGHT_AGE_MONTHS - bracketTickMonths, y: targetHeight.upperCm },
+            ],
+            borderColor: targetHeightColor, borderWidth: 2, tension: 0, pointRadius: 0, fill: false, order: 0, yAxisID: 'yPrimary',
+          });
+          datasets.push({
+            label: 'Mid-Parental Height', data: [{ x: ADULT_HEIGHT_AGE_MONTHS, y: targetHeight.midParentalHeightCm }],
+            borderColor: targetHeightColor, backgroundColor: targetHeightColor, pointRadius: 5, pointStyle: 'rectRot', showLine: false, order: 0, yAxisID: 'yPrimary',
+          });
+        }
+
+        const boneAgePrediction = bayleyPinneauTables ? predictAdultHeightFromBoneAge(patientRecords, currentPatient, bayleyPinneauTables) : null;
+        if (boneAgePrediction) {
+          datasets.push({
+            label: 'Predicted Adult Height (Bone Age)', data: [{ x: ADULT_HEIGHT_AGE_MONTHS, y: boneAgePrediction.predictedHeightCm }],
+            borderColor: boneAgeColor, backgroundColor: boneAgeColor, pointRadius: 6, pointStyle: 'triangle', showLine: false, order: 0, yAxisID: 'yPrimary',
+          });
+        }
+
+        const latestAssessedPoint = patientDataForChart.filter(p => p.zScore !== undefined && !isNaN(p.zScore)).sort((a, b) => a.ageMonths - b.ageMonths).pop();
+        if (latestAssessedPoint && latestAssessedPoint.ageMonths < ADULT_HEIGHT_AGE_MONTHS) {
+          const projectionZScore = latestAssessedPoint.zScore!;
+          const projectionAges = [latestAssessedPoint.ageMonths];
+          for (let age = Math.floor(latestAssessedPoint.ageMonths / 6) * 6 + 6; age < ADULT_HEIGHT_AGE_MONTHS; age += 6) projectionAges.push(age);
+          projectionAges.push(ADULT_HEIGHT_AGE_MONTHS);
+          const projection = projectionAges.flatMap(age => {
+            const segment = findSegmentForAge(chartSegments, age);
+            const lms = segment && hasLMSParameters(segment.data) ? getLMSForAge(age, [...toLMSDataPoints(segment.data)].sort((a, b) => a.age - b.age)) : null;
+            return lms ? [{ x: age, y: calculateValueFromZScore(projectionZScore, lms.l, lms.m, lms.s) }] : [];
+          });
+          if (projection.length > 1) {
+            datasets.push({
+              label: `Current Centile Projection (${formatPercentile(projectionZScore)})`, data: projection,
+              borderColor: targetHeightColor, borderDash: [2, 4], borderWidth: 2, tension: 0, pointRadius: 0, fill: false, order: 0, yAxisID: 'yPrimary',
+            });
+          }
+        }
+      }
     }
 
+    // Height velocity against the reference range for the pubertal stage it was measured at
+    const getVelocityComparison = (v: VelocityDataPoint): VelocityComparison | undefined => {
+        const reference = currentPatient && v.velocityUnit.startsWith('cm') ? findHeightVelocityReference(heightVelocityReferences, currentPatient.sex, v.pubertyStage) : undefined;
+        return reference ? compareHeightVelocity(v.velocity, reference) : undefined;
+    };
+
     let velocityYAxisLabel = 'Velocity';
     if (velocitySeries.length > 0) {
         const velUnit = velocitySeries[0].velocityUnit.startsWith('kg') ? 'kg/year' : 'cm/year';
@@ -232,9 +492,25 @@ const ChartViewPage: React.FC = () => {
             label: `${currentPatient?.name || 'Patient'} - Velocity (${velUnit})`,
             data: velocitySeries.map(v => ({ x: v.ageMonthsMidPoint, y: v.velocity })),
             borderColor: velocityLineColor, backgroundColor: 'rgba(255, 99, 71, 0.3)',
+            pointBackgroundColor: velocitySeries.map(v => {
+                const comparison = getVelocityComparison(v);
+                return comparison ? velocityComparisonColors[comparison] : 'rgba(255, 99, 71, 0.3)';
+            }),
             tension: 0.1, pointRadius: 4, borderWidth: 2, yAxisID: 'yVelocity', order: -1
         });
     }
+
+    // Puberty timeline: a band along the bottom of age-based charts, shaded by Tanner stage
+    const pubertyTimeline = currentPatient && !isOtherChartSelected && xAxis === 'age' ? getPubertyTimeline(patientRecords) : [];
+    pubertyTimeline.forEach(period => {
+        const endAgeMonths = period.endAgeMonths ?? Math.max(period.startAgeMonths, ...patientDataForChart.map(p => p.ageMonths));
+        datasets.push({
+            label: `Tanner ${period.stage}`,
+            data: [{ x: period.startAgeMonths, y: 1, pubertyStage: period.stage }, { x: endAgeMonths, y: 1, pubertyStage: period.stage }],
+            borderColor: pubertyBandColors[period.stage - 1], backgroundColor: pubertyBandColors[period.stage - 1],
+            borderWidth: 1, tension: 0, pointRadius: 0, fill: 'origin', yAxisID: 'yPuberty', order: 10,
+        });
+    });
     setChartData({ datasets });
 
     const currentTickColor = darkMode ? 'rgba(255, 255, 255, 0.7)' : 'rgba(0, 0, 0, 0.7)';
@@ -257,7 +533,13 @@ const ChartViewPage: React.FC = () => {
 
     const chartTitleText = isOtherChartSelected ?
         `${activeOtherMeasurementName} for ${currentPatient?.name || 'Patient'}` :
-        (currentCentileData ? currentCentileData.name : (currentPatient ? `${currentPatient.name} - Growth Chart` : 'Growth Chart'));
+        (currentCentileData ? (isComposite ? activeManifestEntry!.name : currentCentileData.name) : (currentPatient ? `${currentPatient.name} - Growth Chart` : 'Growth Chart'));
+
+    const isPretermPatient = !!currentPatient && isPreterm(currentPatient.gestationalAgeWeeks, currentPatient.gestationalAgeDays);
+    const xAxisLabel = xAxis === 'length' ? 'Length' : 'Height';
+    const xAxisTitle = xAxis !== 'age' ? `${xAxisLabel} (${currentCentileData?.xUnit || 'cm'})` :
+        `Age (${ isOtherChartSelected ? 'Months' : (currentCentileData?.ageUnit || 'Months')})` +
+        (isPretermPatient ? ` - corrected for prematurity until ${correctedAgeCutoffMonths} months` : '');
 
     const options: any = {
         responsive: true, maintainAspectRatio: false,
@@ -271,6 +553,19 @@ const ChartViewPage: React.FC = () => {
                         const datasetLabel = context.dataset.label || '';
                         const pointData = context.raw as any;
 
+                        if (pointData?.pubertyStage !== undefined) {
+                            return [`Puberty: Tanner stage ${pointData.pubertyStage}`];
+                        }
+                        if (pointData?.alertMessages) {
+                            return pointData.alertMessages;
+                        }
+                        if (pointData?.isTransition) {
+                            return [`${datasetLabel}: reference changes here`];
+                        }
+                        if (pointData?.boneAgeMonths !== undefined) {
+                            const method = pointData.boneAgeMethod ? ` (${BONE_AGE_METHOD_LABELS[pointData.boneAgeMethod as keyof typeof BONE_AGE_METHOD_LABELS]})` : '';
+                            return [`Bone Age: ${formatYearsMonths(pointData.boneAgeMonths)}${method}`, `Chronological Age: ${formatYearsMonths(pointData.chronologicalAgeMonths)}`];
+                        }
                         if (context.parsed.y !== null) {
                             let displayValue = context.parsed.y;
                             let displayUnitLabel = '';
@@ -280,15 +575,25 @@ const ChartViewPage: React.FC = () => {
                                 displayUnitLabel = vPoint?.velocityUnit || (velocitySeries.length > 0 ? velocitySeries[0].velocityUnit : '');
                                 tooltipLabelLines.push(`${datasetLabel}: ${displayValue.toFixed(1)} ${displayUnitLabel}`);
                                 tooltipLabelLines.push(`Interval Age: ${context.parsed.x.toFixed(1)} months (midpoint)`);
+                                if (vPoint) tooltipLabelLines.push(`Interval: ${vPoint.intervalMonths.toFixed(1)} months`);
+                                if (vPoint?.pubertyStage) {
+                                    const reference = findHeightVelocityReference(heightVelocityReferences, currentPatient!.sex, vPoint.pubertyStage);
+                                    tooltipLabelLines.push(reference
+                                        ? `Tanner ${vPoint.pubertyStage} reference: ${reference.lower}-${reference.upper} cm/year (${getVelocityComparison(vPoint)} range)`
+                                        : `Tanner stage ${vPoint.pubertyStage}`);
+                                }
                             } else if (context.datasetIndex === 0 && pointData?.originalUnit) { // Patient's main measurement
                                 const rawValue = pointData.y;
                                 const originalUnit = pointData.originalUnit as GrowthRecord['unit'];
+                                const dimension = parseUnit(originalUnit)?.dimension;
+                                // Other measurements are plotted in their own unit, the rest in kg or cm
+                                const plottedUnit = isOtherChartSelected ? originalUnit : dimension === 'mass' ? 'kg' : 'cm';
 
-                                if (originalUnit === 'kg' || originalUnit === 'lbs') {
-                                    const converted = convertWeightForDisplay(rawValue, originalUnit as WeightUnit, displayUnitSystem);
+                                if (dimension === 'mass') {
+                                    const converted = convertWeightForDisplay(rawValue, plottedUnit as WeightUnit, displayUnitSystem);
                                     displayValue = converted.value; displayUnitLabel = converted.unit;
-                                } else if (originalUnit === 'cm' || originalUnit === 'in') {
-                                    const converted = convertHeightForDisplay(rawValue, originalUnit as HeightUnit, displayUnitSystem);
+                                } else if (dimension === 'length') {
+                                    const converted = convertHeightForDisplay(rawValue, plottedUnit as HeightUnit, displayUnitSystem);
                                     displayValue = converted.value; displayUnitLabel = converted.unit;
                                 } else if (originalUnit === 'kg/m²') {
                                     displayValue = rawValue; displayUnitLabel = 'kg/m²';
@@ -296,10 +601,28 @@ const ChartViewPage: React.FC = () => {
                                     displayValue = rawValue; displayUnitLabel = originalUnit || '';
                                 }
                                 tooltipLabelLines.push(`${datasetLabel}: ${displayValue.toFixed(1)} ${displayUnitLabel}`);
-                                tooltipLabelLines.push(`Age: ${context.parsed.x.toFixed(1)} months`);
+                                if (xAxis !== 'age') {
+                                    const xMeasurement = convertHeightForDisplay(context.parsed.x, 'cm', displayUnitSystem);
+                                    tooltipLabelLines.push(`${xAxisLabel}: ${xMeasurement.value.toFixed(1)} ${xMeasurement.unit}`);
+                                }
+                                if (pointData.isCorrectedAge) {
+                                    tooltipLabelLines.push(`Corrected Age: ${pointData.ageMonths.toFixed(1)} months (chronological ${pointData.chronologicalAgeMonths.toFixed(1)})`);
+                                } else {
+                                    tooltipLabelLines.push(`Age: ${pointData.ageMonths.toFixed(1)} months`);
+                                }
 
                                 if (pointData.zScore !== undefined && !isNaN(pointData.zScore) && !isOtherChartSelected) {
-                                    tooltipLabelLines.push(`Z-Score: ${pointData.zScore.toFixed(2)}`);
+                                    tooltipLabelLines.push(`Z-Score: ${pointData.zScore.toFixed(2)}${pointData.isExtendedZScore ? ' (extended BMI)' : ''}`);
+                                    tooltipLabelLines.push(`Percentile: ${formatPercentile(pointData.zScore)}`);
+                                    if (pointData.percentOf95th !== undefined && pointData.percentOf95th >= 100) {
+                                        tooltipLabelLines.push(`% of 95th Percentile: ${pointData.percentOf95th.toFixed(0)}%`);
+                                    }
+                                    if (pointData.obesityClass) {
+                                        tooltipLabelLines.push(`Category: ${pointData.obesityClass}`);
+                                    }
+                                    if (pointData.referenceSource) {
+                                        tooltipLabelLines.push(`Reference: ${pointData.referenceSource}`);
+                                    }
                                 }
                                 if (pointData.interventionType) {
                                     tooltipLabelLines.push(`Intervention: ${pointData.interventionType}`);
@@ -317,7 +640,7 @@ const ChartViewPage: React.FC = () => {
                                     }
                                 }
                                 tooltipLabelLines.push(`${datasetLabel}: ${displayValue.toFixed(1)} ${displayUnitLabel}`);
-                                tooltipLabelLines.push(`Age: ${context.parsed.x.toFixed(1)} months`);
+                                tooltipLabelLines.push(xAxis !== 'age' ? `${xAxisLabel}: ${context.parsed.x.toFixed(1)} ${currentCentileData?.xUnit || 'cm'}` : `Age: ${context.parsed.x.toFixed(1)} months`);
                             }
                         }
                         return tooltipLabelLines; // Return array for multi-line tooltips
@@ -329,12 +652,16 @@ const ChartViewPage: React.FC = () => {
             }
         },
         scales: {
-            x: { type: 'linear' as const, title: { display: true, text: `Age (${ isOtherChartSelected ? 'Months' : (currentCentileData?.ageUnit || 'Months')})`, color: currentTitleColor }, min: 0, ticks: { color: currentTickColor }, grid: { color: currentGridColor } },
+            x: { type: 'linear' as const, title: { display: true, text: xAxisTitle, color: currentTitleColor }, min: isPretermPatient || xAxis !== 'age' ? undefined : 0, ticks: { color: currentTickColor }, grid: { color: currentGridColor } },
             yPrimary: { type: 'linear' as const, position: 'left' as const, title: { display: true, text: yPrimaryLabel, color: currentTitleColor }, beginAtZero: false, ticks: { color: currentTickColor }, grid: { color: currentGridColor } }
         },
         interaction: { mode: 'index' as const, intersect: false, axis: 'x' as const },
     };
 
+    if (pubertyTimeline.length > 0) { // Hidden axis that keeps the puberty band to the bottom of the chart
+        options.scales.yPuberty = { type: 'linear' as const, display: false, min: 0, max: 25 };
+    }
+
     if (velocitySeries.length > 0) {
         options.scales.yVelocity = {
             type: 'linear' as const, position: 'right' as const,
@@ -345,7 +672,7 @@ const ChartViewPage: React.FC = () => {
     }
     setChartOptions(options);
 
-  }, [currentPatient, patientRecords, currentCentileData, darkMode, velocitySeries, displayUnitSystem, isOtherChartSelected, selectedCentileId]);
+  }, [currentPatient, patientRecords, chartSegments, currentCentileData, darkMode, velocitySeries, displayUnitSystem, isOtherChartSelected, selectedCentileId, correctedAgeCutoffMonths, manifest, centileLinePreset, generalReferenceSegments, heightVelocityReferences, bayleyPinneauTables, heightVelocityMinIntervalMonths, weightVelocityMinIntervalMonths, velocityWindowMonths, growthAlerts]);
 
   useEffect(() => { updateChartDataAndOptions(); }, [updateChartDataAndOptions]);
 
@@ -358,17 +685,46 @@ const ChartViewPage: React.FC = () => {
     );
   }
 
+  const selectedManifestEntry = manifest.find(entry => entry.id === selectedCentileId);
+  const patientTargetHeight = calculateTargetHeight(currentPatient);
+  const boneAgePrediction = bayleyPinneauTables ? predictAdultHeightFromBoneAge(patientRecords, currentPatient, bayleyPinneauTables) : null;
+  const canPredictFromBoneAge = (currentPatient.sex === 'Male' || currentPatient.sex === 'Female') && findBoneAgeWithHeight(patientRecords) !== null;
+  const formatHeight = (cm: number) => {
+    const converted = convertHeightForDisplay(cm, 'cm', displayUnitSystem);
+    return `${converted.value.toFixed(1)} ${converted.unit}`;
+  };
+
   return (
     <div className="p-4 text-gray-800 dark:text-gray-200">
       <h2 className="text-2xl font-semibold mb-1 text-gray-900 dark:text-white">Growth Chart for: <span className="text-blue-600 dark:text-blue-400">{currentPatient.name}</span></h2>
       <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">
-        <span>Sex: {currentPatient.sex}</span> | <span>DOB: {currentPatient.dob}</span> | <span className="capitalize">Display: {displayUnitSystem} Units</span>
+        <span>Sex: {currentPatient.sex}</span> | <span>DOB: {currentPatient.dob}</span> |
+        {currentPatient.gestationalAgeWeeks !== undefined && <> <span>GA at Birth: {currentPatient.gestationalAgeWeeks}+{currentPatient.gestationalAgeDays ?? 0} weeks</span> |</>} <span className="capitalize">Display: {displayUnitSystem} Units</span>
       </div>
+      {patientTargetHeight && (
+        <p className="text-sm text-teal-600 dark:text-teal-400 mb-1">
+          Mid-parental height: <span className="font-semibold">{formatHeight(patientTargetHeight.midParentalHeightCm)}</span> (target range {formatHeight(patientTargetHeight.lowerCm)} – {formatHeight(patientTargetHeight.upperCm)})
+        </p>
+      )}
+      {boneAgePrediction && (
+        <p className="text-sm text-amber-600 dark:text-amber-400 mb-1">
+          Predicted adult height from bone age: <span className="font-semibold">{formatHeight(boneAgePrediction.predictedHeightCm)}</span> (Bayley-Pinneau, {boneAgePrediction.maturity} maturity: bone age {formatYearsMonths(getBoneAgeMonths(boneAgePrediction.boneAgeRecord))} at {formatYearsMonths(boneAgePrediction.boneAgeRecord.ageMonths)})
+        </p>
+      )}
+      {!boneAgePrediction && canPredictFromBoneAge && bayleyPinneauTables === null && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">Adult height is not predicted from bone age: no Bayley-Pinneau tables are installed.</p>
+      )}
+      {!boneAgePrediction && canPredictFromBoneAge && bayleyPinneauTablesError && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-1">Adult height could not be predicted from bone age: the Bayley-Pinneau tables could not be loaded ({bayleyPinneauTablesError}).</p>
+      )}
+      {patientConditions.length > 0 && (
+        <p className="text-sm text-purple-600 dark:text-purple-400 mb-1">Growth conditions: <span className="font-semibold">{patientConditions.map(getConditionLabel).join(', ')}</span></p>
+      )}
       {currentPatient.condition && (
         <p className="text-sm text-purple-600 dark:text-purple-400 mb-4">Condition: <span className="font-semibold">{currentPatient.condition}</span></p>
       )}
 
-      <div className={`mb-6 p-4 bg-white dark:bg-gray-700/50 shadow rounded-lg ${!currentPatient.condition ? 'mt-4' : ''}`}>
+      <div className={`mb-6 p-4 bg-white dark:bg-gray-700/50 shadow rounded-lg ${!currentPatient.condition && patientConditions.length === 0 ? 'mt-4' : ''}`}>
         <label htmlFor="centileSelect" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
           Select Growth Chart / Measurement:
         </label>
@@ -381,8 +737,13 @@ const ChartViewPage: React.FC = () => {
           <option value="" disabled>
             {isLoadingManifest ? 'Loading options...' : (filteredManifest.length === 0 && otherMeasurementTypes.length === 0 && !error) ? `No charts/measurements available` : 'Select a chart or measurement'}
           </option>
+          {filteredManifest.some(isConditionSpecificChart) && (
+            <optgroup label={`Charts for ${patientConditions.map(getConditionLabel).join(', ')}`}>
+              {filteredManifest.filter(isConditionSpecificChart).map(entry => ( <option key={entry.id} value={entry.id}> {entry.name} ({entry.source}) </option> ))}
+            </optgroup>
+          )}
           <optgroup label="Standard Growth Charts">
-            {filteredManifest.map(entry => ( <option key={entry.id} value={entry.id}> {entry.name} ({entry.source}) </option> ))}
+            {filteredManifest.filter(entry => !isConditionSpecificChart(entry)).map(entry => ( <option key={entry.id} value={entry.id}> {entry.name} ({entry.source}) </option> ))}
           </optgroup>
           {otherMeasurementTypes.length > 0 && (
             <optgroup label="Other Patient Measurements">
@@ -391,6 +752,43 @@ const ChartViewPage: React.FC = () => {
           )}
         </select>
         {error && <p className="text-red-500 dark:text-red-400 text-xs mt-1">{error}</p>}
+        {heightVelocityReferencesError && velocitySeries.some(v => v.velocityUnit.startsWith('cm')) && (
+          <p className="text-amber-700 dark:text-amber-300 text-xs mt-1">
+            Height velocity is shown without a puberty-stage comparison: the reference could not be loaded ({heightVelocityReferencesError}).
+          </p>
+        )}
+        {selectedManifestEntry && isConditionSpecificChart(selectedManifestEntry) && (
+          <label className="mt-3 flex items-center text-sm text-gray-700 dark:text-gray-300">
+            <input type="checkbox" checked={showGeneralReference} onChange={(e) => setShowGeneralReference(e.target.checked)}
+              className="mr-2 h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-indigo-600 focus:ring-indigo-500" />
+            Overlay general reference (WHO/CDC)
+          </label>
+        )}
+        {recordChartCoverage && recordChartCoverage.recordsOffSelectedChart > 0 && (
+          <div className="mt-3 text-sm text-amber-700 dark:text-amber-300">
+            <p>{recordChartCoverage.recordsOffSelectedChart} measurement(s) fall outside this chart's age range and are not shown.</p>
+            {recordChartCoverage.compositeCharts.map(entry => (
+              <button key={entry.id} type="button" onClick={() => setSelectedCentileId(entry.id)}
+                className="mt-1 mr-2 px-2 py-1 text-xs rounded-md border border-amber-400 dark:border-amber-500 hover:bg-amber-50 dark:hover:bg-amber-900/30">
+                Show full history on {entry.name}
+              </button>
+            ))}
+            {recordChartCoverage.charts.filter(c => c.entry.id !== selectedCentileId).length > 0 && (
+              <div className="mt-1 flex flex-wrap gap-2 items-center">
+                <span>View on:</span>
+                {recordChartCoverage.charts.filter(c => c.entry.id !== selectedCentileId).map(({ entry, recordCount }) => (
+                  <button key={entry.id} type="button" onClick={() => setSelectedCentileId(entry.id)}
+                    className="px-2 py-1 text-xs rounded-md border border-amber-400 dark:border-amber-500 hover:bg-amber-50 dark:hover:bg-amber-900/30">
+                    {entry.name} ({recordCount})
+                  </button>
+                ))}
+              </div>
+            )}
+            {recordChartCoverage.uncoveredCount > 0 && (
+              <p className="mt-1">{recordChartCoverage.uncoveredCount} measurement(s) are outside the age range of all available charts.</p>
+            )}
+          </div>
+        )}
       </div>
 
       <div className="bg-white dark:bg-gray-700/60 p-2 md:p-6 rounded-lg shadow relative h-[500px] md:h-[600px]">
@@ -1,117 +1,138 @@
 import React from 'react';
-import { ArrowTrendingUpIcon, BeakerIcon, ScaleIcon, UserIcon, InformationCircleIcon } from '@heroicons/react/24/outline';
-import useAppStore, { useCurrentPatient } from '../store/appStore'; // Assuming you might want to use real data eventually
+import { ArrowTrendingUpIcon, ArrowTrendingDownIcon, ScaleIcon, UserIcon, InformationCircleIcon } from '@heroicons/react/24/outline';
+import useAppStore, { useCurrentPatient, useCurrentPatientRecords } from '../store/appStore';
+import type { GrowthRecord } from '../store/appStore';
+import { DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS, calculateAgeInMonths, formatAge } from '../utils/calculations';
+import { useRecordZScores } from '../hooks/useRecordZScores';
+import { useNutritionalStatus } from '../hooks/useNutritionalStatus';
+import { getWeightStatus } from '../utils/nutrition';
+import ParentGrowthChart from '../components/ParentGrowthChart';
+import { getCentileTrend } from '../utils/parentSummary';
+import type { CentileTrend } from '../utils/parentSummary';
+import { convertToMetricForCalc, parseUnit } from '../utils/units';
+import type { UnitDimension } from '../utils/units';
+import { formatPercentile } from '../utils/zScoreCalculator';
+
+interface LatestMetric {
+  record: GrowthRecord;
+  percentile?: string;
+  change?: string; // Change in value since the previous visit, e.g. "+0.4 kg since 2024-03-12"
+  trend?: CentileTrend; // Movement across the centile lines since the previous visit
+}
+
+const formatDate = (date: string) => date.split('T')[0];
+const METRIC_UNITS: Record<UnitDimension, string> = { mass: 'kg', length: 'cm' };
+
+const TREND_LABELS: Record<CentileTrend, string> = {
+  up: 'Moving up the centile lines',
+  down: 'Moving down the centile lines',
+  steady: 'Following their centile line',
+};
 
 const ParentalViewPage: React.FC = () => {
-  const currentPatient = useCurrentPatient(); // Example: use real patient if selected
-
-  // Mock data, potentially overridden or supplemented by store data if patient is selected
-  const mockParentalData = {
-    name: currentPatient?.name || 'Alex Johnson (Sample)',
-    age: '1 year 3 months', // This would need calculation based on currentPatient.dob
-    lastVisit: '2024-06-15',
-    weight: { value: '10.2 kg', trend: 'normal', percentile: 'P60' },
-    height: { value: '78 cm', trend: 'normal', percentile: 'P55' },
-    headCircumference: { value: '45 cm', trend: 'normal', percentile: 'P50', applicable: true },
-    bmi: { value: '16.7 kg/m²', status: 'Healthy Weight', applicable: true },
-    nextAppointment: '2024-09-15 (Routine Checkup)',
-    milestones: [
-      'Started walking', 'Can say several single words', 'Responds to simple instructions'
-    ],
-    recommendations: [
-      'Continue offering a variety of healthy foods.', 'Encourage active play for at least 1 hour a day.', 'Read books together daily.'
-    ]
-  };
+  const currentPatient = useCurrentPatient();
+  const patientRecords = useCurrentPatientRecords();
+  const correctedAgeCutoffMonths = useAppStore((state) => state.settings.correctedAgeCutoffMonths) ?? DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS;
+  const zScoresByRecordId = useRecordZScores(patientRecords, currentPatient, correctedAgeCutoffMonths);
+  const nutritionalStatus = useNutritionalStatus(patientRecords, currentPatient, zScoresByRecordId, correctedAgeCutoffMonths);
+  const weightStatus = getWeightStatus(nutritionalStatus);
+
+  // Latest measurement of the given types with its percentile and the change since the previous one, or undefined if none recorded
+  const getLatestMetric = (types: GrowthRecord['measurementType'][]): LatestMetric | undefined => {
+    const [latest, previous] = patientRecords
+      .filter(r => types.includes(r.measurementType))
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime() || b.ageMonths - a.ageMonths);
+    if (!latest) return undefined;
+    const latestZ = zScoresByRecordId[latest.id]?.zScore;
+    const metric: LatestMetric = { record: latest, percentile: latestZ !== undefined ? formatPercentile(latestZ) : undefined };
+    if (!previous) return metric;
 
-  const patientData = currentPatient ? {
-      ...mockParentalData, // Use mock as a base
-      name: currentPatient.name,
-      // age: calculateAge(currentPatient.dob), // TODO: Implement age calculation
-      // Potentially fetch and map real records to weight, height etc. if available in store
-  } : mockParentalData;
+    // Compare in the latest record's unit, via metric if the previous one was entered in another
+    const difference = previous.unit === latest.unit ? latest.value - previous.value
+      : convertToMetricForCalc(latest.value, latest.unit as GrowthRecord['unit']) - convertToMetricForCalc(previous.value, previous.unit as GrowthRecord['unit']);
+    const dimension = parseUnit(latest.unit)?.dimension;
+    const unit = previous.unit === latest.unit || !dimension ? latest.unit : METRIC_UNITS[dimension];
+    metric.change = `${difference >= 0 ? '+' : ''}${parseFloat(difference.toFixed(2))} ${unit} since ${formatDate(previous.date)}`;
 
+    const previousZ = zScoresByRecordId[previous.id]?.zScore;
+    if (latestZ !== undefined && previousZ !== undefined) {
+      metric.trend = getCentileTrend(previousZ, latestZ);
+    }
+    return metric;
+  };
 
-  const getTrendIndicator = (trend: string) => {
-    if (trend === 'above average') return <ArrowTrendingUpIcon className="w-5 h-5 text-yellow-500 dark:text-yellow-400 inline mr-1" />;
-    if (trend === 'below average') return <ArrowTrendingUpIcon className="w-5 h-5 text-yellow-500 dark:text-yellow-400 inline mr-1 transform rotate-90" />;
-    return <ScaleIcon className="w-5 h-5 text-green-500 dark:text-green-400 inline mr-1" />;
+  const getTrendIndicator = (trend?: CentileTrend) => {
+    if (!trend) return null;
+    const Icon = trend === 'up' ? ArrowTrendingUpIcon : trend === 'down' ? ArrowTrendingDownIcon : ScaleIcon;
+    const color = trend === 'steady' ? 'text-green-500 dark:text-green-400' : 'text-yellow-500 dark:text-yellow-400';
+    return <Icon className={`w-5 h-5 ${color} inline ml-1`} title={TREND_LABELS[trend]} aria-label={TREND_LABELS[trend]} />;
   };
 
-  if (!currentPatient && false) { // Set to true to enforce patient selection for this view
-      return (
-          <div className="p-4 text-center text-gray-800 dark:text-gray-200">
-            <h2 className="text-2xl font-semibold mb-6 text-gray-900 dark:text-white">Parental Growth Summary</h2>
-            <InformationCircleIcon className="w-12 h-12 mx-auto text-blue-500 dark:text-blue-400 mb-4" />
-            <p className="text-gray-500 dark:text-gray-400">Please select a patient from the "Patient Selection" page to view their growth summary.</p>
-          </div>
-        );
+  if (!currentPatient) {
+    return (
+      <div className="p-4 text-center text-gray-800 dark:text-gray-200">
+        <h2 className="text-2xl font-semibold mb-6 text-gray-900 dark:text-white">Parental Growth Summary</h2>
+        <InformationCircleIcon className="w-12 h-12 mx-auto text-blue-500 dark:text-blue-400 mb-4" />
+        <p className="text-gray-500 dark:text-gray-400">Please select a patient from the "Patient Selection" page to view their growth summary.</p>
+      </div>
+    );
   }
 
+  const metrics: { label: string; metric?: LatestMetric; status?: string }[] = [
+    { label: 'Weight', metric: getLatestMetric(['Weight']) },
+    { label: 'Height/Length', metric: getLatestMetric(['Height', 'Length']) },
+    { label: 'Head Circumference', metric: getLatestMetric(['HeadCircumference']) },
+    { label: 'BMI', metric: getLatestMetric(['BMI']), status: weightStatus?.category },
+  ];
+  const lastVisit = patientRecords.map(r => formatDate(r.date)).sort().pop();
 
   return (
     <div className="p-4 text-gray-800 dark:text-gray-200">
-      <h2 className="text-2xl font-semibold mb-6 text-gray-900 dark:text-white">Growth Summary for {patientData.name}</h2>
+      <h2 className="text-2xl font-semibold mb-6 text-gray-900 dark:text-white">Growth Summary for {currentPatient.name}</h2>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
         <div className="bg-white dark:bg-gray-700/50 p-6 rounded-lg shadow">
           <h3 className="text-xl font-semibold text-blue-600 dark:text-blue-300 mb-3 flex items-center">
             <UserIcon className="w-6 h-6 mr-2" /> Basic Information
           </h3>
-          <p><strong>Age:</strong> {patientData.age}</p>
-          <p><strong>Last Visit:</strong> {patientData.lastVisit}</p>
-          <p><strong>Next Appointment:</strong> {patientData.nextAppointment}</p>
+          <p><strong>Age:</strong> {formatAge(calculateAgeInMonths(currentPatient.dob, new Date().toISOString()))}</p>
+          <p><strong>Last Visit:</strong> {lastVisit ?? 'No measurements recorded yet'}</p>
         </div>
 
         <div className="bg-white dark:bg-gray-700/50 p-6 rounded-lg shadow space-y-3">
           <h3 className="text-xl font-semibold text-green-600 dark:text-green-300 mb-3 flex items-center">
             <ArrowTrendingUpIcon className="w-6 h-6 mr-2" /> Growth Metrics
           </h3>
-          <div>
-            <strong>Weight:</strong> {patientData.weight.value} ({patientData.weight.percentile})
-            {getTrendIndicator(patientData.weight.trend)}
-          </div>
-          <div>
-            <strong>Height/Length:</strong> {patientData.height.value} ({patientData.height.percentile})
-            {getTrendIndicator(patientData.height.trend)}
-          </div>
-          {patientData.headCircumference.applicable && (
-            <div>
-              <strong>Head Circumference:</strong> {patientData.headCircumference.value} ({patientData.headCircumference.percentile})
-              {getTrendIndicator(patientData.headCircumference.trend)}
-            </div>
-          )}
-          {patientData.bmi.applicable && (
-            <div>
-              <strong>BMI:</strong> {patientData.bmi.value} ({patientData.bmi.status})
-            </div>
-          )}
+          {metrics.every(({ metric }) => !metric) ? (
+            <p className="text-gray-500 dark:text-gray-400">No measurements have been recorded for {currentPatient.name} yet. They will appear here after the next check-up.</p>
+          ) : metrics.map(({ label, metric, status }) => {
+            const details = [metric?.percentile && `P${metric.percentile}`, status].filter(Boolean).join(', ');
+            return (
+              <div key={label}>
+                <strong>{label}:</strong>{' '}
+                {metric ? (
+                  <>
+                    {metric.record.value} {metric.record.unit}
+                    {details ? ` (${details})` : ''}
+                    {getTrendIndicator(metric.trend)}
+                    <span className="block text-sm text-gray-500 dark:text-gray-400">
+                      Measured {formatDate(metric.record.date)}{metric.change ? `; ${metric.change}` : ''}
+                    </span>
+                  </>
+                ) : (
+                  <span className="text-gray-500 dark:text-gray-400">Not measured yet</span>
+                )}
+              </div>
+            );
+          })}
         </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {patientData.milestones.length > 0 && (
-          <div className="bg-white dark:bg-gray-700/50 p-6 rounded-lg shadow">
-            <h3 className="text-xl font-semibold text-purple-600 dark:text-purple-300 mb-3">Recent Milestones</h3>
-            <ul className="list-disc list-inside space-y-1 text-gray-700 dark:text-gray-300">
-              {patientData.milestones.map((milestone, index) => (
-                <li key={index}>{milestone}</li>
-              ))}
-            </ul>
-          </div>
-        )}
-
-        {patientData.recommendations.length > 0 && (
-          <div className="bg-white dark:bg-gray-700/50 p-6 rounded-lg shadow">
-            <h3 className="text-xl font-semibold text-teal-600 dark:text-teal-300 mb-3 flex items-center">
-              <BeakerIcon className="w-6 h-6 mr-2" /> Recommendations
-            </h3>
-            <ul className="list-disc list-inside space-y-1 text-gray-700 dark:text-gray-300">
-              {patientData.recommendations.map((rec, index) => (
-                <li key={index}>{rec}</li>
-              ))}
-            </ul>
-          </div>
-        )}
+        {(['WeightForAge', 'HeightForAge'] as const).map(chartType => (
+          <ParentGrowthChart key={chartType} patient={currentPatient} records={patientRecords} zScoresByRecordId={zScoresByRecordId}
+            chartType={chartType} correctedAgeCutoffMonths={correctedAgeCutoffMonths} />
+        ))}
       </div>
 
       <div className="mt-8 text-sm text-gray-500 dark:text-gray-400">
@@ -1,6 +1,11 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import useAppStore, { Patient } from '@/store/appStore'; // Using @ alias
 import { TrashIcon, PencilSquareIcon } from '@heroicons/react/24/outline';
+import { gestationalAgeFromEDD } from '../utils/calculations';
+import { GROWTH_CONDITIONS, getConditionLabel } from '../utils/conditions';
+import type { GrowthConditionCode } from '../utils/conditions';
+import { loadCentileManifest, getChartedConditions } from '../utils/referenceData';
+import FHIRPatientSearch from '../components/FHIRPatientSearch';
 
 const PatientSelectionPage: React.FC = () => {
   const patients = useAppStore((state) => state.patients);
@@ -9,15 +14,33 @@ const PatientSelectionPage: React.FC = () => {
   const updatePatientAction = useAppStore((state) => state.updatePatient);
   const selectPatient = useAppStore((state) => state.selectPatient);
   const deletePatientAction = useAppStore((state) => state.deletePatient);
+  const { client: fhirClient, isPractitionerLaunch } = useAppStore((state) => state.fhirContext);
 
   const [formPatientId, setFormPatientId] = useState<string | null>(null);
   const [formName, setFormName] = useState('');
   const [formDob, setFormDob] = useState('');
   const [formSex, setFormSex] = useState<'Male' | 'Female' | 'Other' | 'Unknown'>('Unknown');
   const [formCondition, setFormCondition] = useState('');
+  const [formConditions, setFormConditions] = useState<GrowthConditionCode[]>([]);
+  const [formGestationalWeeks, setFormGestationalWeeks] = useState<number | ''>('');
+  const [formGestationalDays, setFormGestationalDays] = useState<number | ''>('');
+  const [formEdd, setFormEdd] = useState(''); // Estimated due date, from which gestation is derived
+  const [formFatherHeight, setFormFatherHeight] = useState<number | ''>('');
+  const [formMotherHeight, setFormMotherHeight] = useState<number | ''>('');
   const [formMessage, setFormMessage] = useState<{type: 'success' | 'error', text: string, field?: string} | null>(null);
+  const [chartedConditions, setChartedConditions] = useState<GrowthConditionCode[]>([]);
 
   const isEditing = formPatientId !== null;
+  // Only conditions with their own charts are offered, plus any already recorded on the patient being edited
+  const offeredConditions = GROWTH_CONDITIONS.filter(condition => chartedConditions.includes(condition.code) || formConditions.includes(condition.code));
+
+  useEffect(() => {
+    let isCancelled = false;
+    loadCentileManifest()
+      .then(manifest => { if (!isCancelled) setChartedConditions(getChartedConditions(manifest)); })
+      .catch(e => console.error("Failed to fetch centile manifest:", e));
+    return () => { isCancelled = true; };
+  }, []);
 
   const resetForm = () => {
     setFormPatientId(null);
@@ -25,10 +48,24 @@ const PatientSelectionPage: React.FC = () => {
     setFormDob('');
     setFormSex('Unknown');
     setFormCondition('');
+    setFormConditions([]);
+    setFormGestationalWeeks('');
+    setFormGestationalDays('');
+    setFormEdd('');
+    setFormFatherHeight('');
+    setFormMotherHeight('');
     // Keep formMessage for a moment if it was a success message from submit
     // It will be cleared by its own timeout or on next submit attempt
   };
 
+  // Fills in gestational age from the DOB and an estimated due date, whichever of the two is entered last
+  const applyEdd = (dob: string, edd: string) => {
+    const gestation = dob && edd ? gestationalAgeFromEDD(dob, edd) : null;
+    if (!gestation) return;
+    setFormGestationalWeeks(gestation.weeks);
+    setFormGestationalDays(gestation.days);
+  };
+
   const handleFormSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     setFormMessage(null);
@@ -53,17 +90,34 @@ const PatientSelectionPage: React.FC = () => {
     if (formCondition.trim().length > 100) {
       setFormMessage({type: 'error', text: 'Condition cannot exceed 100 characters.', field: 'formCondition'}); return;
     }
+    if (formGestationalWeeks !== '' && (formGestationalWeeks < 22 || formGestationalWeeks > 44 || !Number.isInteger(formGestationalWeeks))) {
+      setFormMessage({type: 'error', text: 'Gestational age must be a whole number of weeks between 22 and 44.', field: 'formGestationalWeeks'}); return;
+    }
+    if (formGestationalDays !== '' && (formGestationalWeeks === '' || formGestationalDays < 0 || formGestationalDays > 6 || !Number.isInteger(formGestationalDays))) {
+      setFormMessage({type: 'error', text: 'Gestational days must be 0-6 and require weeks.', field: 'formGestationalDays'}); return;
+    }
+    if ((formFatherHeight !== '' && (formFatherHeight < 100 || formFatherHeight > 250)) || (formMotherHeight !== '' && (formMotherHeight < 100 || formMotherHeight > 250))) {
+      setFormMessage({type: 'error', text: 'Parental heights must be between 100 and 250 cm.', field: 'formParentalHeights'}); return;
+    }
 
     const patientPayload: Omit<Patient, 'id'> & { id?: string } = {
         name: formName.trim(), dob: formDob, sex: formSex,
         condition: formCondition.trim() || undefined,
+        conditions: formConditions.length > 0 ? formConditions : undefined,
+        gestationalAgeWeeks: formGestationalWeeks === '' ? undefined : formGestationalWeeks,
+        gestationalAgeDays: formGestationalWeeks === '' || formGestationalDays === '' ? undefined : formGestationalDays,
+        fatherHeightCm: formFatherHeight === '' ? undefined : formFatherHeight,
+        motherHeightCm: formMotherHeight === '' ? undefined : formMotherHeight,
     };
 
     try {
         let successMessageText = '';
         if (isEditing && formPatientId) {
-            updatePatientAction({ ...patientPayload, id: formPatientId } as Patient);
-            successMessageText = 'Patient updated successfully!';
+            const dobChanged = patients.find(p => p.id === formPatientId)?.dob !== formDob;
+            updatePatientAction({ ...patientPayload, id: formPatientId } as Patient); // Store recalculates record ages if DOB changed
+            successMessageText = dobChanged
+              ? 'Patient updated successfully! Growth record ages were recalculated from the new date of birth.'
+              : 'Patient updated successfully!';
         } else {
             const newPatient = addPatientAction(patientPayload as Omit<Patient, 'id'>);
             successMessageText = `Patient "${newPatient.name}" added successfully!`;
@@ -84,10 +138,20 @@ const PatientSelectionPage: React.FC = () => {
     setFormDob(patient.dob);
     setFormSex(patient.sex);
     setFormCondition(patient.condition || '');
+    setFormConditions(patient.conditions ?? []);
+    setFormGestationalWeeks(patient.gestationalAgeWeeks ?? '');
+    setFormGestationalDays(patient.gestationalAgeDays ?? '');
+    setFormEdd('');
+    setFormFatherHeight(patient.fatherHeightCm ?? '');
+    setFormMotherHeight(patient.motherHeightCm ?? '');
     setFormMessage(null);
     document.getElementById('patientFormHeading')?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  const toggleFormCondition = (code: GrowthConditionCode) => {
+    setFormConditions(current => current.includes(code) ? current.filter(c => c !== code) : [...current, code]);
+  };
+
   const handleCancelEdit = () => {
     resetForm();
     setFormMessage(null); // Explicitly clear message on cancel
@@ -119,6 +183,8 @@ const PatientSelectionPage: React.FC = () => {
     <div className="p-4 text-gray-800 dark:text-gray-200">
       <h2 className="text-2xl font-semibold mb-6 text-gray-900 dark:text-white">Patient Management</h2>
 
+      {fhirClient && isPractitionerLaunch && <FHIRPatientSearch />}
+
       <div className="mb-8 p-6 bg-white dark:bg-gray-700/50 shadow rounded-lg">
         <h3 id="patientFormHeading" className="text-xl font-semibold mb-4 text-gray-700 dark:text-gray-100">
           {isEditing ? 'Edit Patient' : 'Add New Patient'}
@@ -139,7 +205,7 @@ const PatientSelectionPage: React.FC = () => {
               <label htmlFor="formDob" className={labelBaseClass}>Date of Birth</label>
               <input
                 type="date" id="formDob" value={formDob}
-                onChange={(e) => setFormDob(e.target.value)}
+                onChange={(e) => { setFormDob(e.target.value); applyEdd(e.target.value, formEdd); }}
                 className={`${inputBaseClass} [color-scheme:light] dark:[color-scheme:dark] ${formMessage?.field === 'formDob' ? 'border-red-500 dark:border-red-400' : ''}`} required
               />
               {formMessage?.field === 'formDob' && <p className="text-xs text-red-500 dark:text-red-400 mt-1">{formMessage.text}</p>}
@@ -165,6 +231,65 @@ const PatientSelectionPage: React.FC = () => {
                 <option value="Female">Female</option> <option value="Other">Other</option>
               </select>
             </div>
+            <div>
+              <label htmlFor="formGestationalWeeks" className={labelBaseClass}>Gestational Age at Birth (Optional)</label>
+              <div className="flex space-x-2">
+                <input
+                  type="number" id="formGestationalWeeks" value={formGestationalWeeks} min="22" max="44" step="1"
+                  onChange={(e) => setFormGestationalWeeks(e.target.value === '' ? '' : Number(e.target.value))}
+                  className={`${inputBaseClass} ${formMessage?.field === 'formGestationalWeeks' ? 'border-red-500 dark:border-red-400' : ''}`}
+                  placeholder="Weeks" aria-label="Gestational age weeks"
+                />
+                <input
+                  type="number" id="formGestationalDays" value={formGestationalDays} min="0" max="6" step="1"
+                  onChange={(e) => setFormGestationalDays(e.target.value === '' ? '' : Number(e.target.value))}
+                  className={`${inputBaseClass} ${formMessage?.field === 'formGestationalDays' ? 'border-red-500 dark:border-red-400' : ''}`}
+                  placeholder="Days" aria-label="Gestational age days"
+                />
+              </div>
+              <label htmlFor="formEdd" className="block text-xs text-gray-500 dark:text-gray-400 mt-2">or Estimated Due Date</label>
+              <input
+                type="date" id="formEdd" value={formEdd}
+                onChange={(e) => { setFormEdd(e.target.value); applyEdd(formDob, e.target.value); }}
+                className={`${inputBaseClass} [color-scheme:light] dark:[color-scheme:dark]`}
+              />
+              {(formMessage?.field === 'formGestationalWeeks' || formMessage?.field === 'formGestationalDays') && <p className="text-xs text-red-500 dark:text-red-400 mt-1">{formMessage.text}</p>}
+            </div>
+            <div>
+              <label htmlFor="formFatherHeight" className={labelBaseClass}>Biological Parents' Heights in cm (Optional)</label>
+              <div className="flex space-x-2">
+                <input
+                  type="number" id="formFatherHeight" value={formFatherHeight} min="100" max="250" step="0.1"
+                  onChange={(e) => setFormFatherHeight(e.target.value === '' ? '' : Number(e.target.value))}
+                  className={`${inputBaseClass} ${formMessage?.field === 'formParentalHeights' ? 'border-red-500 dark:border-red-400' : ''}`}
+                  placeholder="Father" aria-label="Father's height in cm"
+                />
+                <input
+                  type="number" id="formMotherHeight" value={formMotherHeight} min="100" max="250" step="0.1"
+                  onChange={(e) => setFormMotherHeight(e.target.value === '' ? '' : Number(e.target.value))}
+                  className={`${inputBaseClass} ${formMessage?.field === 'formParentalHeights' ? 'border-red-500 dark:border-red-400' : ''}`}
+                  placeholder="Mother" aria-label="Mother's height in cm"
+                />
+              </div>
+              {formMessage?.field === 'formParentalHeights' && <p className="text-xs text-red-500 dark:text-red-400 mt-1">{formMessage.text}</p>}
+            </div>
+            {offeredConditions.length > 0 && (
+              <fieldset className="md:col-span-2">
+                <legend className={labelBaseClass}>Conditions with Specific Growth Charts (Optional)</legend>
+                <div className="flex flex-wrap gap-x-6 gap-y-2 mt-1">
+                  {offeredConditions.map(condition => (
+                    <label key={condition.code} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox" checked={formConditions.includes(condition.code)}
+                        onChange={() => toggleFormCondition(condition.code)}
+                        className="mr-2 h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      {condition.label}
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+            )}
           </div>
           <div className="pt-2 flex flex-col sm:flex-row justify-end items-center space-y-2 sm:space-y-0 sm:space-x-3">
             {formMessage && (formMessage.type === 'success' || (formMessage.type === 'error' && !formMessage.field) ) && (
@@ -214,7 +339,13 @@ const PatientSelectionPage: React.FC = () => {
                     </span>
                   )}
                  </h3>
-                <p className="text-sm text-gray-600 dark:text-gray-300">DOB: {patient.dob} | Sex: {patient.sex}</p>
+                <p className="text-sm text-gray-600 dark:text-gray-300">
+                  DOB: {patient.dob} | Sex: {patient.sex}
+                  {patient.gestationalAgeWeeks !== undefined && <> | GA: {patient.gestationalAgeWeeks}+{patient.gestationalAgeDays ?? 0} weeks</>}
+                </p>
+                {patient.conditions && patient.conditions.length > 0 && (
+                  <p className="text-xs text-purple-600 dark:text-purple-400 mt-1">Growth conditions: {patient.conditions.map(getConditionLabel).join(', ')}</p>
+                )}
                 {patient.condition && (
                   <p className="text-xs text-purple-600 dark:text-purple-400 mt-1">Condition: {patient.condition}</p>
                 )}
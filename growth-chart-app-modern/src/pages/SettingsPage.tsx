@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import useAppStore, { AppSettings } from '../store/appStore';
+import { DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS, DEFAULT_HEIGHT_VELOCITY_MIN_INTERVAL_MONTHS, DEFAULT_WEIGHT_VELOCITY_MIN_INTERVAL_MONTHS, DEFAULT_VELOCITY_WINDOW_MONTHS } from '../utils/calculations';
 
 const SettingsPage: React.FC = () => {
   const storeSettings = useAppStore((state) => state.settings);
@@ -34,8 +35,11 @@ const SettingsPage: React.FC = () => {
   };
 
   const handleResetToDefaults = () => {
-    const initialStoreSettings = {
-        defaultChartType: 'WeightForAge', units: 'Metric', darkMode: false, language: 'English',
+    const initialStoreSettings: AppSettings = {
+        defaultChartType: 'WeightForAge', units: 'Metric', correctedAgeCutoffMonths: DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS,
+        centileLinePreset: 'manifest', darkMode: false, language: 'English',
+        heightVelocityMinIntervalMonths: DEFAULT_HEIGHT_VELOCITY_MIN_INTERVAL_MONTHS, weightVelocityMinIntervalMonths: DEFAULT_WEIGHT_VELOCITY_MIN_INTERVAL_MONTHS,
+        velocityWindowMonths: DEFAULT_VELOCITY_WINDOW_MONTHS, fhirWriteBack: false,
         notifications: { appointmentReminders: true, newDataAlerts: false },
       };
     setLocalSettings(initialStoreSettings);
@@ -73,6 +77,49 @@ const SettingsPage: React.FC = () => {
                 <option value="Metric">Metric (kg, cm)</option> <option value="Imperial">Imperial (lbs, inches)</option>
               </select>
             </div>
+            <div>
+              <label htmlFor="correctedAgeCutoffMonths" className={labelClass}>Use Corrected Age for Preterm Infants Until (Months)</label>
+              <input id="correctedAgeCutoffMonths" type="number" min="0" max="60" step="1"
+                value={localSettings.correctedAgeCutoffMonths ?? DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS}
+                onChange={(e) => handleChange('correctedAgeCutoffMonths', e.target.value === '' ? DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS : Number(e.target.value))}
+                className={inputFieldClass} />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Chronological age after which measurements for babies born before 37 weeks are plotted without gestational correction.</p>
+            </div>
+            <div>
+              <label htmlFor="centileLinePreset" className={labelClass}>Centile Lines</label>
+              <select id="centileLinePreset" value={localSettings.centileLinePreset ?? 'manifest'} onChange={(e) => handleChange('centileLinePreset', e.target.value as AppSettings['centileLinePreset'])} className={selectFieldClass} >
+                <option value="manifest">Chart Default</option>
+                <option value="who">WHO (P3, P15, P50, P85, P97)</option>
+                <option value="cdc">CDC (P5, P10, P25, P50, P75, P90, P95)</option>
+                <option value="uk-who">UK-WHO (P0.4 to P99.6)</option>
+                <option value="sd">Z-Scores (-3 to +3 SD)</option>
+              </select>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Applies to charts with LMS reference data; other charts show their tabulated centiles.</p>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="heightVelocityMinIntervalMonths" className={labelClass}>Min. Height Velocity Interval (Months)</label>
+                <input id="heightVelocityMinIntervalMonths" type="number" min="0" max="24" step="1"
+                  value={localSettings.heightVelocityMinIntervalMonths ?? DEFAULT_HEIGHT_VELOCITY_MIN_INTERVAL_MONTHS}
+                  onChange={(e) => handleChange('heightVelocityMinIntervalMonths', e.target.value === '' ? DEFAULT_HEIGHT_VELOCITY_MIN_INTERVAL_MONTHS : Number(e.target.value))}
+                  className={inputFieldClass} />
+              </div>
+              <div>
+                <label htmlFor="weightVelocityMinIntervalMonths" className={labelClass}>Min. Weight Velocity Interval (Months)</label>
+                <input id="weightVelocityMinIntervalMonths" type="number" min="0" max="24" step="1"
+                  value={localSettings.weightVelocityMinIntervalMonths ?? DEFAULT_WEIGHT_VELOCITY_MIN_INTERVAL_MONTHS}
+                  onChange={(e) => handleChange('weightVelocityMinIntervalMonths', e.target.value === '' ? DEFAULT_WEIGHT_VELOCITY_MIN_INTERVAL_MONTHS : Number(e.target.value))}
+                  className={inputFieldClass} />
+              </div>
+              <div>
+                <label htmlFor="velocityWindowMonths" className={labelClass}>Velocity Window (Months)</label>
+                <input id="velocityWindowMonths" type="number" min="0" max="24" step="1"
+                  value={localSettings.velocityWindowMonths ?? DEFAULT_VELOCITY_WINDOW_MONTHS}
+                  onChange={(e) => handleChange('velocityWindowMonths', e.target.value === '' ? DEFAULT_VELOCITY_WINDOW_MONTHS : Number(e.target.value))}
+                  className={inputFieldClass} />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 -mt-2">Measurements closer together than the minimum interval are not used for velocity. Each velocity is taken over the interval closest to the window (0 for consecutive measurements).</p>
           </div>
         </div>
 
@@ -92,6 +139,17 @@ const SettingsPage: React.FC = () => {
           </div>
         </div>
 
+        <div className="bg-white dark:bg-gray-700/50 p-6 rounded-lg shadow">
+          <h3 className="text-lg font-medium mb-3 text-gray-700 dark:text-gray-100">EHR Integration</h3>
+          <div className="space-y-2">
+            <div className="flex items-center">
+              <input id="fhirWriteBack" type="checkbox" checked={localSettings.fhirWriteBack ?? false} onChange={(e) => handleChange('fhirWriteBack', e.target.checked)} className={checkboxClass} />
+              <label htmlFor="fhirWriteBack" className={checkboxLabelClass}>Write New Measurements Back to the EHR</label>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">Weights, heights/lengths and head circumferences added for a patient launched from the EHR are saved there as vital-signs Observations. Takes effect from the next connection to the EHR, which then asks for write access.</p>
+          </div>
+        </div>
+
         <div className="bg-white dark:bg-gray-700/50 p-6 rounded-lg shadow">
           <h3 className="text-lg font-medium mb-3 text-gray-700 dark:text-gray-100">Notifications</h3>
           <div className="space-y-4">
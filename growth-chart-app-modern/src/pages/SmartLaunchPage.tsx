@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { getSmartConfig, FHIR_SERVER_OPTIONS } from '../config/smart';
+import { SMART_CLIENT_ID } from '../config/env';
+import useAppStore from '../store/appStore';
+import { normalizeFHIRBaseUrl, startSmartLaunch } from '../utils/smartLaunch';
+
+const CUSTOM_SERVER = 'custom';
+
+// Starts a SMART launch: immediately when the EHR supplies the server, else from a server the user picks
+const SmartLaunchPage: React.FC = () => {
+  const { search } = useLocation();
+  const fhirWriteBack = useAppStore(state => !!state.settings.fhirWriteBack);
+  const [selectedServer, setSelectedServer] = useState(FHIR_SERVER_OPTIONS[0]?.url ?? CUSTOM_SERVER);
+  const [customUrl, setCustomUrl] = useState('');
+  const [isLaunching, setIsLaunching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const launch = async (iss: string, launchToken?: string) => {
+    setError(null);
+    setIsLaunching(true);
+    try {
+      const smartConfig = getSmartConfig(SMART_CLIENT_ID, { writeBack: fhirWriteBack });
+      // With a launch token this is an EHR launch; with only iss, a standalone launch against that server
+      await startSmartLaunch(launchToken ? smartConfig.ehrLaunch : smartConfig.standaloneLaunch, { iss, launch: launchToken });
+    } catch (launchError: any) {
+      console.error("Error starting SMART launch:", launchError);
+      setError(launchError.message || 'The FHIR server could not be reached for authorization.');
+      setIsLaunching(false);
+    }
+  };
+
+  useEffect(() => {
+    const params = new URLSearchParams(search);
+    const iss = params.get('iss');
+    if (iss) launch(iss, params.get('launch') ?? undefined);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [search]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const iss = normalizeFHIRBaseUrl(selectedServer === CUSTOM_SERVER ? customUrl : selectedServer);
+    if (!iss) {
+      setError('Enter the FHIR server\'s base URL, e.g. https://example.org/fhir.');
+      return;
+    }
+    launch(iss);
+  };
+
+  const inputBaseClass = "mt-1 block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm bg-white dark:bg-gray-800 dark:text-gray-200";
+  const labelBaseClass = "block text-sm font-medium text-gray-600 dark:text-gray-300";
+
+  return (
+    <div className="p-4 text-gray-800 dark:text-gray-200">
+      <h2 className="text-2xl font-semibold mb-6 text-gray-900 dark:text-white">Connect to a FHIR Server</h2>
+      <div className="max-w-xl p-6 bg-white dark:bg-gray-700/50 shadow rounded-lg">
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Sign in to a FHIR server to chart a patient's growth data from their record. You will choose the patient on the server's authorization screens.
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="fhirServer" className={labelBaseClass}>FHIR Server</label>
+            <select id="fhirServer" value={selectedServer} onChange={(e) => setSelectedServer(e.target.value)} className={inputBaseClass}>
+              {FHIR_SERVER_OPTIONS.map(server => <option key={server.url} value={server.url}>{server.name}</option>)}
+              <option value={CUSTOM_SERVER}>Other FHIR server...</option>
+            </select>
+          </div>
+          {selectedServer === CUSTOM_SERVER && (
+            <div>
+              <label htmlFor="fhirServerUrl" className={labelBaseClass}>FHIR Base URL</label>
+              <input type="url" id="fhirServerUrl" value={customUrl} onChange={(e) => setCustomUrl(e.target.value)}
+                     className={inputBaseClass} placeholder="https://example.org/fhir" />
+            </div>
+          )}
+          <button type="submit" disabled={isLaunching}
+                  className="bg-blue-500 hover:bg-blue-700 dark:bg-blue-600 dark:hover:bg-blue-700 text-white font-bold py-2 px-4 rounded text-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:focus:ring-blue-400 disabled:opacity-50 transition-colors">
+            {isLaunching ? 'Connecting...' : 'Connect'}
+          </button>
+        </form>
+        {error && <p className="text-sm text-red-600 dark:text-red-400 mt-3" role="alert">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default SmartLaunchPage;
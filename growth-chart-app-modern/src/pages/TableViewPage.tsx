@@ -1,7 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import useAppStore, { GrowthRecord, NewGrowthRecordData, useCurrentPatient, useCurrentPatientRecords } from '../store/appStore';
-import { PlusCircleIcon, XCircleIcon, TrashIcon, PencilSquareIcon } from '@heroicons/react/24/outline';
-import { convertWeightForDisplay, convertHeightForDisplay, WeightUnit, HeightUnit } from '../utils/units';
+import { PlusCircleIcon, XCircleIcon, TrashIcon, PencilSquareIcon, ExclamationTriangleIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { convertWeightForDisplay, convertHeightForDisplay, WeightUnit, HeightUnit, parseUnit } from '../utils/units';
+import { getAgeForAssessment, DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS, calculateAgeInMonths, hasAgeDateMismatch } from '../utils/calculations';
+import { useRecordZScores } from '../hooks/useRecordZScores';
+import { useGrowthAlerts } from '../hooks/useGrowthAlerts';
+import { GROWTH_ALERT_LABELS } from '../utils/alerts';
+import { formatPercentile } from '../utils/zScoreCalculator';
+import { BONE_AGE_METHOD_LABELS } from '../utils/boneAge';
+import type { BoneAgeMethod } from '../utils/boneAge';
+import { TANNER_SITE_LABELS } from '../utils/puberty';
+import type { TannerSite } from '../utils/puberty';
 
 const TableViewPage: React.FC = () => {
   const currentPatient = useCurrentPatient();
@@ -9,32 +18,39 @@ const TableViewPage: React.FC = () => {
   const addGrowthRecordAction = useAppStore((state) => state.addGrowthRecord);
   const updateGrowthRecordAction = useAppStore((state) => state.updateGrowthRecord);
   const deleteGrowthRecordAction = useAppStore((state) => state.deleteGrowthRecord);
+  const recalculateRecordAgesAction = useAppStore((state) => state.recalculateRecordAges);
+  const retryFHIRWritesAction = useAppStore((state) => state.retryFHIRWrites);
   const displayUnitSystem = useAppStore((state) => state.settings.units);
+  const correctedAgeCutoffMonths = useAppStore((state) => state.settings.correctedAgeCutoffMonths) ?? DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS;
 
   const [editingRecordId, setEditingRecordId] = useState<string | null>(null);
   const [showForm, setShowForm] = useState(false);
   const [formDate, setFormDate] = useState(new Date().toISOString().split('T')[0]);
-  const [formAgeMonths, setFormAgeMonths] = useState<number | ''>('');
   const [formType, setFormType] = useState<GrowthRecord['measurementType']>('Weight');
   const [formValue, setFormValue] = useState<number | ''>('');
   const [formUnit, setFormUnit] = useState<GrowthRecord['unit']>('kg');
   const [formOtherMeasurementName, setFormOtherMeasurementName] = useState('');
+  const [formBoneAgeMethod, setFormBoneAgeMethod] = useState<BoneAgeMethod>('greulich-pyle');
+  const [formTannerSite, setFormTannerSite] = useState<TannerSite>('breast');
   const [formInterventionType, setFormInterventionType] = useState('');
   const [formInterventionDetails, setFormInterventionDetails] = useState('');
   const [formNotes, setFormNotes] = useState('');
   const [formMessage, setFormMessage] = useState<{type: 'success' | 'error', text: string, field?: string} | null>(null);
+  const zScoresByRecordId = useRecordZScores(recordsToDisplayRaw, currentPatient, correctedAgeCutoffMonths);
+  const growthAlerts = useGrowthAlerts(recordsToDisplayRaw, zScoresByRecordId);
 
   const isEditingForm = editingRecordId !== null;
 
   const resetFormFields = (isSubmitSuccess = false) => {
     setFormDate(new Date().toISOString().split('T')[0]);
-    setFormAgeMonths('');
     if (!isSubmitSuccess || !isEditingForm) { // Don't reset type if successfully added, let user add another of same type
         setFormType('Weight');
     }
     // Unit will be reset by useEffect based on type and displayUnitSystem if not editing
     setFormValue('');
     setFormOtherMeasurementName('');
+    setFormBoneAgeMethod('greulich-pyle');
+    setFormTannerSite('breast');
     setFormInterventionType('');
     setFormInterventionDetails('');
     setFormNotes('');
@@ -46,6 +62,8 @@ const TableViewPage: React.FC = () => {
       case 'Weight': setFormUnit(system === 'Metric' ? 'kg' : 'lbs'); break;
       case 'Height': case 'Length': case 'HeadCircumference': setFormUnit(system === 'Metric' ? 'cm' : 'in'); break;
       case 'BMI': setFormUnit('kg/m²'); break;
+      case 'BoneAge': setFormUnit('years'); break;
+      case 'TannerStage': setFormUnit('stage'); break;
       case 'Other': if (!isEditingForm) setFormUnit(''); break; // Clear for new 'Other', keep if editing 'Other'
       default: setFormUnit(system === 'Metric' ? 'kg' : 'lbs');
     }
@@ -76,7 +94,6 @@ const TableViewPage: React.FC = () => {
 
     if (!currentPatient) { setFormMessage({type: 'error', text: 'No patient selected.'}); return; }
     if (!formDate.trim()) { setFormMessage({type: 'error', text: 'Measurement Date is required.', field: 'formDate'}); return; }
-    if (formAgeMonths === '') { setFormMessage({type: 'error', text: 'Age at Measurement is required.', field: 'formAgeMonths'}); return; }
     if (formValue === '') { setFormMessage({type: 'error', text: 'Value is required.', field: 'formValue'}); return; }
 
     const measurementDate = new Date(formDate);
@@ -84,14 +101,27 @@ const TableViewPage: React.FC = () => {
     if (isNaN(measurementDate.getTime())) { setFormMessage({type: 'error', text: 'Invalid Measurement Date format.', field: 'formDate'}); return; }
     if (measurementDate > today) { setFormMessage({type: 'error', text: 'Measurement Date cannot be in the future.', field: 'formDate'}); return; }
 
-    const ageNum = Number(formAgeMonths);
-    if (isNaN(ageNum) || ageNum < 0) { setFormMessage({type: 'error', text: 'Age must be a non-negative number.', field: 'formAgeMonths'}); return; }
+    const ageNum = calculateAgeInMonths(currentPatient.dob, formDate);
+    if (isNaN(ageNum)) {
+        const dobIsKnown = !isNaN(new Date(currentPatient.dob).getTime());
+        setFormMessage({type: 'error', field: 'formDate', text: dobIsKnown
+            ? 'Measurement Date cannot be before the Date of Birth.'
+            : "Age cannot be calculated because the patient's Date of Birth is unknown."});
+        return;
+    }
 
     const valueNum = Number(formValue);
     if (isNaN(valueNum)) { setFormMessage({type: 'error', text: 'Value must be a number.', field: 'formValue'}); return; }
-    if (['Weight', 'Height', 'Length', 'HeadCircumference'].includes(formType) && valueNum <=0 && formType !== 'Other') { // Allow 0 or negative for 'Other'
+    if (['Weight', 'Height', 'Length', 'HeadCircumference', 'BoneAge'].includes(formType) && valueNum <=0 && formType !== 'Other') { // Allow 0 or negative for 'Other'
         setFormMessage({type: 'error', text: 'Value must be positive for this measurement type.', field: 'formValue'}); return;
     }
+    const unitDimension = parseUnit(formUnit)?.dimension;
+    if ((formType === 'Weight' && unitDimension !== 'mass') || (['Height', 'Length', 'HeadCircumference'].includes(formType) && unitDimension !== 'length')) {
+        setFormMessage({type: 'error', text: `"${formUnit}" is not a unit of ${formType === 'Weight' ? 'weight' : 'length'}.`, field: 'formUnit'}); return;
+    }
+    if (formType === 'TannerStage' && (!Number.isInteger(valueNum) || valueNum < 1 || valueNum > 5)) {
+        setFormMessage({type: 'error', text: 'Tanner stage must be a whole number from 1 to 5.', field: 'formValue'}); return;
+    }
 
     if (formType === 'Other') {
         if (!formOtherMeasurementName.trim()) { setFormMessage({type: 'error', text: 'Measurement Name is required for "Other" type.', field: 'formOtherMeasurementName'}); return; }
@@ -107,6 +137,8 @@ const TableViewPage: React.FC = () => {
       patientId: currentPatient.id, date: formDate, ageMonths: ageNum,
       measurementType: formType, value: valueNum, unit: formUnit.trim(),
       otherMeasurementName: formType === 'Other' ? formOtherMeasurementName.trim() : undefined,
+      boneAgeMethod: formType === 'BoneAge' ? formBoneAgeMethod : undefined,
+      tannerSite: formType === 'TannerStage' ? formTannerSite : undefined,
       interventionType: formInterventionType.trim() || undefined,
       interventionDetails: formInterventionDetails.trim() || undefined,
       notes: formNotes.trim() || undefined,
@@ -148,11 +180,12 @@ const TableViewPage: React.FC = () => {
 
     setEditingRecordId(record.id);
     setFormDate(record.date.split('T')[0]);
-    setFormAgeMonths(record.ageMonths);
     setFormType(record.measurementType);
     setFormValue(record.value);
     setFormUnit(record.unit);
     setFormOtherMeasurementName(record.otherMeasurementName || '');
+    setFormBoneAgeMethod(record.boneAgeMethod ?? 'greulich-pyle');
+    setFormTannerSite(record.tannerSite ?? 'breast');
     setFormInterventionType(record.interventionType || '');
     setFormInterventionDetails(record.interventionDetails || '');
     setFormNotes(record.notes || '');
@@ -196,6 +229,17 @@ const TableViewPage: React.FC = () => {
     );
   }
 
+  const formComputedAgeMonths = calculateAgeInMonths(currentPatient.dob, formDate);
+  const mismatchedRecordCount = recordsToDisplayRaw.filter(r => hasAgeDateMismatch(r, currentPatient.dob)).length;
+  const pendingWriteCount = recordsToDisplayRaw.filter(r => r.fhirSyncStatus === 'pending').length;
+  const failedWriteCount = recordsToDisplayRaw.filter(r => r.fhirSyncStatus === 'failed').length;
+
+  const handleRecalculateAges = () => {
+    recalculateRecordAgesAction(currentPatient.id);
+    setFormMessage({type: 'success', text: 'Record ages recalculated from date of birth.'});
+    setTimeout(() => setFormMessage(null), 3000);
+  };
+
   const recordsForDisplayTable = recordsToDisplayRaw.map(record => {
     let displayValue = record.value;
     let displayUnit = record.unit;
@@ -215,6 +259,33 @@ const TableViewPage: React.FC = () => {
       <h2 className="text-2xl font-semibold mb-1 text-gray-900 dark:text-white">Growth Data for: <span className="text-blue-600 dark:text-blue-400">{currentPatient.name}</span></h2>
       <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">DOB: {currentPatient.dob} | Sex: {currentPatient.sex} | Displaying Units: <span className="font-semibold">{displayUnitSystem}</span></p>
 
+      {mismatchedRecordCount > 0 && (
+        <div className="mb-4 p-3 flex items-center justify-between bg-amber-50 dark:bg-amber-900/40 border border-amber-300 dark:border-amber-700 rounded-lg text-sm text-amber-800 dark:text-amber-200" role="alert">
+          <span className="flex items-center">
+            <ExclamationTriangleIcon className="h-5 w-5 mr-2" />
+            {mismatchedRecordCount} record{mismatchedRecordCount === 1 ? '' : 's'} {mismatchedRecordCount === 1 ? 'has' : 'have'} a stored age that does not match the measurement date.
+          </span>
+          <button onClick={handleRecalculateAges} className="inline-flex items-center text-amber-900 dark:text-amber-100 font-semibold hover:underline">
+            <ArrowPathIcon className="h-4 w-4 mr-1" /> Recalculate Ages from DOB
+          </button>
+        </div>
+      )}
+
+      {(pendingWriteCount > 0 || failedWriteCount > 0) && (
+        <div className={`mb-4 p-3 flex items-center justify-between border rounded-lg text-sm ${failedWriteCount > 0 ? 'bg-red-50 dark:bg-red-900/40 border-red-300 dark:border-red-700 text-red-800 dark:text-red-200' : 'bg-cyan-50 dark:bg-cyan-900/40 border-cyan-300 dark:border-cyan-700 text-cyan-800 dark:text-cyan-200'}`} role="status">
+          <span className="flex items-center">
+            <ArrowPathIcon className="h-5 w-5 mr-2" />
+            {[pendingWriteCount > 0 && `${pendingWriteCount} measurement${pendingWriteCount === 1 ? '' : 's'} being written to the EHR`,
+              failedWriteCount > 0 && `${failedWriteCount} measurement${failedWriteCount === 1 ? '' : 's'} could not be written to the EHR`].filter(Boolean).join('; ')}.
+          </span>
+          {failedWriteCount > 0 && (
+            <button onClick={() => retryFHIRWritesAction(currentPatient.id)} className="inline-flex items-center font-semibold hover:underline">
+              <ArrowPathIcon className="h-4 w-4 mr-1" /> Retry
+            </button>
+          )}
+        </div>
+      )}
+
       <div className="mb-6">
         <button
             onClick={handleToggleForm}
@@ -241,9 +312,9 @@ const TableViewPage: React.FC = () => {
                 </div>
                 <div>
                   <label htmlFor="formAgeMonths" className={labelClass}>Age at Measurement (Months)</label>
-                  <input type="number" id="formAgeMonths" value={formAgeMonths} onChange={(e) => setFormAgeMonths(e.target.value === '' ? '' : Number(e.target.value))} placeholder="e.g., 6" required
-                         className={`${inputFieldClass} ${formMessage?.field === 'formAgeMonths' ? 'border-red-500 dark:border-red-400' : ''}`} min="0" step="0.1"/>
-                  {formMessage?.field === 'formAgeMonths' && <p className="text-xs text-red-500 dark:text-red-400 mt-1">{formMessage.text}</p>}
+                  <input type="text" id="formAgeMonths" value={isNaN(formComputedAgeMonths) ? '' : formComputedAgeMonths} readOnly
+                         className={`${inputFieldClass} bg-gray-100 dark:bg-gray-900`} placeholder="Calculated from date of birth"/>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Calculated from DOB ({currentPatient.dob}) and measurement date.</p>
                 </div>
                 <div>
                   <label htmlFor="formType" className={labelClass}>Measurement Type</label>
@@ -251,6 +322,8 @@ const TableViewPage: React.FC = () => {
                     <option value="Weight">Weight</option> <option value="Height">Height (standing)</option>
                     <option value="Length">Length (lying)</option> <option value="HeadCircumference">Head Circumference</option>
                     <option value="BMI" disabled>BMI (auto-calculated)</option>
+                    <option value="BoneAge">Bone Age</option>
+                    <option value="TannerStage">Tanner Stage (puberty)</option>
                     <option value="Other">Other Measurement</option>
                   </select>
                 </div>
@@ -264,6 +337,24 @@ const TableViewPage: React.FC = () => {
                   </div>
                 )}
 
+                {formType === 'BoneAge' && (
+                  <div>
+                    <label htmlFor="formBoneAgeMethod" className={labelClass}>Bone Age Method</label>
+                    <select id="formBoneAgeMethod" value={formBoneAgeMethod} onChange={(e) => setFormBoneAgeMethod(e.target.value as BoneAgeMethod)} className={selectFieldClass}>
+                      {Object.entries(BONE_AGE_METHOD_LABELS).map(([method, label]) => <option key={method} value={method}>{label}</option>)}
+                    </select>
+                  </div>
+                )}
+
+                {formType === 'TannerStage' && (
+                  <div>
+                    <label htmlFor="formTannerSite" className={labelClass}>Tanner Stage Of</label>
+                    <select id="formTannerSite" value={formTannerSite} onChange={(e) => setFormTannerSite(e.target.value as TannerSite)} className={selectFieldClass}>
+                      {Object.entries(TANNER_SITE_LABELS).map(([site, label]) => <option key={site} value={site}>{label}</option>)}
+                    </select>
+                  </div>
+                )}
+
                 <div>
                   <label htmlFor="formValue" className={labelClass}>Value</label>
                   <input type="number" step="any" id="formValue" value={formValue} onChange={(e) => setFormValue(e.target.value === '' ? '' : Number(e.target.value))} required
@@ -278,9 +369,11 @@ const TableViewPage: React.FC = () => {
                            className={`${inputFieldClass} ${formMessage?.field === 'formUnit' ? 'border-red-500 dark:border-red-400' : ''}`} placeholder="e.g., cm, ratio, score"/>
                   ) : (
                     <select id="formUnit" value={formUnit} onChange={(e) => setFormUnit(e.target.value as GrowthRecord['unit'])} required className={selectFieldClass} disabled={formType === 'BMI'}>
-                      {formType === 'Weight' && <> <option value="kg">kg</option> <option value="lbs">lbs</option> </>}
-                      {(formType === 'Height' || formType === 'Length' || formType === 'HeadCircumference') && <> <option value="cm">cm</option> <option value="in">in</option> </>}
+                      {formType === 'Weight' && <> <option value="kg">kg</option> <option value="g">g</option> <option value="lbs">lbs</option> <option value="oz">oz</option> </>}
+                      {(formType === 'Height' || formType === 'Length' || formType === 'HeadCircumference') && <> <option value="cm">cm</option> <option value="mm">mm</option> <option value="m">m</option> <option value="in">in</option> <option value="ft">ft</option> </>}
                       {formType === 'BMI' && <option value="kg/m²">kg/m²</option>}
+                      {formType === 'BoneAge' && <> <option value="years">years</option> <option value="months">months</option> </>}
+                      {formType === 'TannerStage' && <option value="stage">stage (1-5)</option>}
                     </select>
                   )}
                   {formMessage?.field === 'formUnit' && <p className="text-xs text-red-500 dark:text-red-400 mt-1">{formMessage.text}</p>}
@@ -337,6 +430,7 @@ const TableViewPage: React.FC = () => {
                 <th className="px-5 py-3">Date</th> <th className="px-5 py-3">Age (Months)</th>
                 <th className="px-5 py-3">Type</th> <th className="px-5 py-3">Value</th>
                 <th className="px-5 py-3">Unit</th>
+                <th className="px-5 py-3">Percentile</th>
                 {/* Optionally show intervention cols, or just in notes/details on edit */}
                 <th className="px-5 py-3">Notes</th>
                 <th className="px-5 py-3">Actions</th>
@@ -347,16 +441,44 @@ const TableViewPage: React.FC = () => {
                 .map((record) => {
                   const originalRecord = recordsToDisplayRaw.find(r => r.id === record.id);
                   const isFHIR = originalRecord?.isFHIRRecord;
+                  const assessmentAge = getAgeForAssessment(record.ageMonths, currentPatient, correctedAgeCutoffMonths);
+                  const isAgeMismatch = hasAgeDateMismatch(record, currentPatient.dob);
+                  const zScoreResult = zScoresByRecordId[record.id];
+                  const recordAlerts = growthAlerts.filter(alert => alert.recordId === record.id);
                   return (
                 <tr key={record.id} className="hover:bg-gray-50 dark:hover:bg-gray-600/70">
                   <td className="px-5 py-4 text-sm text-gray-700 dark:text-gray-200">{record.date}</td>
-                  <td className="px-5 py-4 text-sm text-gray-700 dark:text-gray-200">{record.ageMonths}</td>
+                  <td className="px-5 py-4 text-sm text-gray-700 dark:text-gray-200">
+                    {record.ageMonths}
+                    {isAgeMismatch && (
+                      <span className="ml-1 inline-block align-middle" title={`Stored age does not match the measurement date (expected ${calculateAgeInMonths(currentPatient.dob, record.date)} months)`}>
+                        <ExclamationTriangleIcon className="h-4 w-4 text-amber-500 dark:text-amber-400" aria-label="Age does not match date" />
+                      </span>
+                    )}
+                    {assessmentAge.isCorrected && <div className="text-xs text-teal-600 dark:text-teal-400" title="Age corrected for prematurity">Corrected: {assessmentAge.ageMonths}</div>}
+                  </td>
                   <td className="px-5 py-4 text-sm text-gray-700 dark:text-gray-200">
                     {record.measurementType === 'Other' ? record.otherMeasurementName : record.measurementType}
+                    {record.boneAgeMethod && <div className="text-xs text-gray-500 dark:text-gray-400">{BONE_AGE_METHOD_LABELS[record.boneAgeMethod]}</div>}
+                    {record.tannerSite && <div className="text-xs text-gray-500 dark:text-gray-400">{TANNER_SITE_LABELS[record.tannerSite]}</div>}
                     {record.interventionType && <div className="text-xs text-purple-500 dark:text-purple-400 truncate" title={`${record.interventionType}: ${record.interventionDetails || ''}`}>Intervention</div>}
                   </td>
                   <td className="px-5 py-4 text-sm text-gray-700 dark:text-gray-200">{record.value}</td>
                   <td className="px-5 py-4 text-sm text-gray-700 dark:text-gray-200">{record.unit}</td>
+                  <td className="px-5 py-4 text-sm text-gray-700 dark:text-gray-200"
+                      title={zScoreResult ? `Z-Score: ${zScoreResult.zScore.toFixed(2)}${zScoreResult.isExtended ? ' (extended BMI)' : ''}${zScoreResult.percentOf95th !== undefined ? `, ${zScoreResult.percentOf95th.toFixed(0)}% of 95th percentile` : ''}` : undefined}>
+                    {zScoreResult ? formatPercentile(zScoreResult.zScore) : 'N/A'}
+                    {zScoreResult?.obesityClass && (
+                      <div className={`text-xs ${zScoreResult.obesityClass === 'Class 1 obesity' ? 'text-amber-600 dark:text-amber-400' : 'text-red-600 dark:text-red-400 font-semibold'}`}>
+                        {zScoreResult.obesityClass}
+                      </div>
+                    )}
+                    {recordAlerts.map(alert => (
+                      <div key={alert.type} className={`text-xs ${alert.severity === 'concern' ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-amber-600 dark:text-amber-400'}`} title={alert.message}>
+                        {GROWTH_ALERT_LABELS[alert.type]}
+                      </div>
+                    ))}
+                  </td>
                   <td className="px-5 py-4 text-sm text-gray-700 dark:text-gray-200 whitespace-pre-wrap max-w-xs truncate" title={record.notes}>{record.notes || 'N/A'}</td>
                   <td className="px-5 py-4 text-sm whitespace-nowrap">
                     {isFHIR && (
@@ -364,6 +486,16 @@ const TableViewPage: React.FC = () => {
                         FHIR
                       </span>
                     )}
+                    {originalRecord?.fhirSyncStatus === 'pending' && (
+                      <span className="mr-2 px-1.5 py-0.5 text-xs font-semibold text-cyan-700 bg-cyan-50 dark:text-cyan-200 dark:bg-cyan-900/50 rounded-full inline-block align-middle" title="This record is being written to the EHR">
+                        Pending
+                      </span>
+                    )}
+                    {originalRecord?.fhirSyncStatus === 'failed' && (
+                      <span className="mr-2 px-1.5 py-0.5 text-xs font-semibold text-red-700 bg-red-100 dark:text-red-200 dark:bg-red-700/50 rounded-full inline-block align-middle" title={`This record could not be written to the EHR: ${originalRecord.fhirSyncError ?? 'unknown error'}`}>
+                        Not Saved to EHR
+                      </span>
+                    )}
                     <button
                         className={`text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300 mr-3 text-xs inline-flex items-center ${isFHIR ? 'opacity-50 cursor-not-allowed dark:opacity-60' : ''}`}
                         onClick={() => handleEditRecord(originalRecord!)}
@@ -1,6 +1,13 @@
 import React from 'react';
 import { render, screen } from '@testing-library/react';
 import DashboardPage from '../DashboardPage'; // Adjust path as necessary
+import useAppStore from '../../store/appStore';
+import { calculateRecordZScores } from '../../utils/referenceData';
+
+// Reference charts are fetched over HTTP; no record has a Z-score here
+jest.mock('../../utils/referenceData', () => ({
+  calculateRecordZScores: jest.fn().mockResolvedValue({}), calculateWeightForStatureZScores: jest.fn().mockResolvedValue({}),
+}));
 
 describe('DashboardPage Component', () => {
   it('renders the welcome message', () => {
@@ -36,4 +43,31 @@ describe('DashboardPage Component', () => {
     );
     expect(navPromptElement).toBeInTheDocument();
   });
+
+  it('reports no growth alerts for a patient without concerning trends', async () => {
+    useAppStore.setState({
+      patients: [{ id: 'p1', name: 'Test Girl', dob: '2015-01-01', sex: 'Female' }],
+      selectedPatientId: 'p1',
+      growthRecords: [
+        { id: 'h1', patientId: 'p1', date: '2023-01-01', ageMonths: 96, measurementType: 'Height', value: 125, unit: 'cm' },
+        { id: 'h2', patientId: 'p1', date: '2024-01-01', ageMonths: 108, measurementType: 'Height', value: 130, unit: 'cm' },
+      ],
+    });
+    render(<DashboardPage />);
+    expect(await screen.findByText('No growth alerts for Test Girl.')).toBeInTheDocument();
+    useAppStore.setState({ patients: [], selectedPatientId: null, growthRecords: [] });
+  });
+
+  it('assesses the records once for both panels', async () => {
+    (calculateRecordZScores as jest.Mock).mockClear();
+    useAppStore.setState({
+      patients: [{ id: 'p1', name: 'Test Girl', dob: '2015-01-01', sex: 'Female' }],
+      selectedPatientId: 'p1',
+      growthRecords: [{ id: 'w1', patientId: 'p1', date: '2023-01-01', ageMonths: 96, measurementType: 'Weight', value: 25, unit: 'kg' }],
+    });
+    render(<DashboardPage />);
+    expect(await screen.findByText('No growth alerts for Test Girl.')).toBeInTheDocument();
+    expect(calculateRecordZScores).toHaveBeenCalledTimes(1);
+    useAppStore.setState({ patients: [], selectedPatientId: null, growthRecords: [] });
+  });
 });
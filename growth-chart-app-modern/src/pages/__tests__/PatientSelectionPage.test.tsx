@@ -4,19 +4,26 @@ import userEvent from '@testing-library/user-event';
 import { MemoryRouter } from 'react-router-dom';
 import PatientSelectionPage from '../PatientSelectionPage';
 import useAppStore, { Patient, AppStoreState } from '../../store/appStore';
+import { loadCentileManifest } from '../../utils/referenceData';
 
 // Mock the Zustand store
 jest.mock('../../store/appStore');
+// The manifest is fetched over HTTP; tests supply the charts directly
+jest.mock('../../utils/referenceData', () => ({
+  ...jest.requireActual('../../utils/referenceData'),
+  loadCentileManifest: jest.fn().mockResolvedValue([]),
+}));
 
 const mockAddPatientAction = jest.fn();
 const mockUpdatePatientAction = jest.fn();
 const mockDeletePatientAction = jest.fn();
 const mockSelectPatient = jest.fn();
+const mockLoadFHIRPatient = jest.fn();
 let mockPatientsState: Patient[] = [];
 let mockSelectedPatientIdState: string | null = null;
 
 // Helper to setup mock store implementation for tests
-const setupMockStore = (patients: Patient[], selectedId: string | null) => {
+const setupMockStore = (patients: Patient[], selectedId: string | null, fhirContext: Partial<AppStoreState['fhirContext']> = {}) => {
   mockPatientsState = patients;
   mockSelectedPatientIdState = selectedId;
 
@@ -32,7 +39,7 @@ const setupMockStore = (patients: Patient[], selectedId: string | null) => {
       // Provide defaults for other parts of the store state if necessary
       growthRecords: [],
       settings: { units: 'Metric', darkMode: false, defaultChartType: 'WeightForAge', language: 'English', notifications: {appointmentReminders: false, newDataAlerts: false}},
-      fhirContext: { client: undefined, patientId: undefined, serverUrl: undefined, error: null, isRetrieved: false, isAuthorized: false },
+      fhirContext: { client: undefined, patientId: undefined, serverUrl: undefined, error: null, isRetrieved: false, isAuthorized: false, ...fhirContext },
       _addOrUpdateBMIRecordInternal: jest.fn(),
       getPatientById: (id: string) => mockPatientsState.find(p => p.id === id),
       getRecordsForPatient: (id: string) => [], // Assuming no records for these patient-centric tests
@@ -41,6 +48,7 @@ const setupMockStore = (patients: Patient[], selectedId: string | null) => {
       clearFHIRContext: jest.fn(),
       fetchFHIRPatientData: jest.fn().mockResolvedValue(undefined),
       fetchFHIRGrowthData: jest.fn().mockResolvedValue(undefined),
+      loadFHIRPatient: mockLoadFHIRPatient,
     };
     return selector(state);
   });
@@ -77,6 +85,30 @@ describe('PatientSelectionPage - Add Patient Form', () => {
     await waitFor(() => expect(screen.getByText(/Patient "New Patient Jane" added successfully!/i)).toBeInTheDocument());
   });
 
+  test('derives gestational age from an estimated due date', async () => {
+    render(<MemoryRouter><PatientSelectionPage /></MemoryRouter>);
+    await userEvent.type(screen.getByLabelText(/Full Name/i), 'Preterm Baby');
+    fireEvent.change(screen.getByLabelText(/Date of Birth/i), { target: { value: '2023-05-10' } });
+    fireEvent.change(screen.getByLabelText(/Estimated Due Date/i), { target: { value: '2023-07-10' } }); // 61 days early
+    expect((screen.getByLabelText(/Gestational age weeks/i) as HTMLInputElement).value).toBe('31');
+    expect((screen.getByLabelText(/Gestational age days/i) as HTMLInputElement).value).toBe('2');
+    await userEvent.click(screen.getByRole('button', { name: /Add Patient/i }));
+    expect(mockAddPatientAction).toHaveBeenCalledWith(expect.objectContaining({ gestationalAgeWeeks: 31, gestationalAgeDays: 2 }));
+  });
+
+  test('offers only the conditions that have growth charts', async () => {
+    (loadCentileManifest as jest.Mock).mockResolvedValueOnce([{ id: 'ds_length', conditions: ['down_syndrome'] }]);
+    render(<MemoryRouter><PatientSelectionPage /></MemoryRouter>);
+    expect(await screen.findByLabelText('Down syndrome')).toBeInTheDocument();
+    expect(screen.queryByLabelText('Achondroplasia')).not.toBeInTheDocument();
+  });
+
+  test('hides the conditions when no charts are condition-specific', async () => {
+    render(<MemoryRouter><PatientSelectionPage /></MemoryRouter>);
+    await waitFor(() => expect(loadCentileManifest).toHaveBeenCalled());
+    expect(screen.queryByText(/Conditions with Specific Growth Charts/i)).not.toBeInTheDocument();
+  });
+
   test('shows error if name is missing', async () => {
     render(<MemoryRouter><PatientSelectionPage /></MemoryRouter>);
     await userEvent.click(screen.getByRole('button', { name: /Add Patient/i }));
@@ -125,3 +157,47 @@ describe('PatientSelectionPage - Delete Patient', () => {
     expect(mockDeletePatientAction).toHaveBeenCalledWith(mockPatientToDelete.id);
   });
 });
+
+describe('PatientSelectionPage - FHIR Patient Search', () => {
+  const request = jest.fn();
+
+  beforeEach(() => {
+    request.mockReset().mockResolvedValue({
+      resourceType: 'Bundle',
+      entry: [{ resource: {
+        resourceType: 'Patient', id: 'p1', name: [{ given: ['Amy'], family: 'Smith' }], birthDate: '2020-04-02', gender: 'female',
+        identifier: [{ type: { coding: [{ code: 'MR' }] }, value: '12345' }],
+      } }],
+    });
+    mockLoadFHIRPatient.mockClear();
+  });
+
+  test('is not shown without a practitioner launch', () => {
+    setupMockStore([], null, { client: { request } as any, patientId: '123', isPractitionerLaunch: false });
+    render(<MemoryRouter><PatientSelectionPage /></MemoryRouter>);
+    expect(screen.queryByRole('heading', { name: /Find a Patient in the EHR/i })).not.toBeInTheDocument();
+  });
+
+  test('searches the server and loads the chosen patient', async () => {
+    setupMockStore([], null, { client: { request } as any, isPractitionerLaunch: true, status: 'ready' });
+    render(<MemoryRouter><PatientSelectionPage /></MemoryRouter>);
+    await userEvent.type(screen.getByLabelText('Name'), 'Smith');
+    await userEvent.click(screen.getByRole('button', { name: /Search/i }));
+
+    expect(request).toHaveBeenCalledWith('Patient?name=Smith&_count=20');
+    expect(await screen.findByText('Amy Smith')).toBeInTheDocument();
+    expect(screen.getByText(/MR 12345/)).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: /Load Patient/i }));
+    expect(mockLoadFHIRPatient).toHaveBeenCalledWith('p1');
+  });
+
+  test('shows why a patient could not be loaded', async () => {
+    mockLoadFHIRPatient.mockRejectedValueOnce(new Error('403 Forbidden'));
+    setupMockStore([], null, { client: { request } as any, isPractitionerLaunch: true, status: 'ready' });
+    render(<MemoryRouter><PatientSelectionPage /></MemoryRouter>);
+    await userEvent.type(screen.getByLabelText('Name'), 'Smith');
+    await userEvent.click(screen.getByRole('button', { name: /Search/i }));
+    await userEvent.click(await screen.findByRole('button', { name: /Load Patient/i }));
+    expect(await screen.findByRole('alert')).toHaveTextContent('403 Forbidden');
+  });
+});
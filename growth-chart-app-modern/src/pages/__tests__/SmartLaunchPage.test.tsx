@@ -0,0 +1,81 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import SmartLaunchPage from '../SmartLaunchPage';
+import useAppStore from '../../store/appStore';
+import { startSmartLaunch } from '../../utils/smartLaunch';
+
+let mockClientId: string | undefined = 'growth_chart_test';
+// The build-time environment; `import.meta` cannot be compiled by Jest
+jest.mock('../../config/env', () => ({
+  get SMART_CLIENT_ID() { return mockClientId; },
+}));
+// Authorizing redirects the browser; tests check what it was started with
+jest.mock('../../utils/smartLaunch', () => ({
+  ...jest.requireActual('../../utils/smartLaunch'),
+  startSmartLaunch: jest.fn(),
+}));
+
+const mockStartSmartLaunch = startSmartLaunch as jest.Mock;
+
+const renderPage = (search = '') => render(
+  <MemoryRouter initialEntries={[`/launch${search}`]}>
+    <SmartLaunchPage />
+  </MemoryRouter>
+);
+
+describe('SmartLaunchPage', () => {
+  beforeEach(() => {
+    mockClientId = 'growth_chart_test';
+    mockStartSmartLaunch.mockReset().mockResolvedValue(undefined);
+    useAppStore.setState(state => ({ settings: { ...state.settings, fhirWriteBack: false } }));
+  });
+
+  it('should start an EHR launch from the launch parameters, without write access', async () => {
+    renderPage('?iss=https%3A%2F%2Fehr.example.org%2Ffhir&launch=abc');
+
+    await waitFor(() => expect(mockStartSmartLaunch).toHaveBeenCalledTimes(1));
+    const [config, launch] = mockStartSmartLaunch.mock.calls[0];
+    expect(launch).toEqual({ iss: 'https://ehr.example.org/fhir', launch: 'abc' });
+    expect(config).toMatchObject({ clientId: 'growth_chart_test', pkceMode: 'ifSupported' });
+    expect(config.scope.split(' ')).toContain('launch');
+    expect(config.scope).not.toContain('.write');
+  });
+
+  it('should start a standalone launch against the chosen server, with write access for write-back', async () => {
+    useAppStore.setState(state => ({ settings: { ...state.settings, fhirWriteBack: true } }));
+    renderPage();
+
+    await userEvent.selectOptions(screen.getByLabelText('FHIR Server'), 'custom');
+    await userEvent.type(screen.getByLabelText('FHIR Base URL'), 'https://example.org/fhir/');
+    await userEvent.click(screen.getByRole('button', { name: 'Connect' }));
+
+    await waitFor(() => expect(mockStartSmartLaunch).toHaveBeenCalledTimes(1));
+    const [config, launch] = mockStartSmartLaunch.mock.calls[0];
+    expect(launch).toEqual({ iss: 'https://example.org/fhir', launch: undefined });
+    expect(config).toMatchObject({ pkceMode: 'required' });
+    expect(config.scope.split(' ')).toEqual(expect.arrayContaining(['launch/patient', 'patient/Observation.write']));
+  });
+
+  it('should ask for an http(s) server URL', async () => {
+    renderPage();
+
+    await userEvent.selectOptions(screen.getByLabelText('FHIR Server'), 'custom');
+    await userEvent.type(screen.getByLabelText('FHIR Base URL'), 'ftp://example.org/fhir');
+    await userEvent.click(screen.getByRole('button', { name: 'Connect' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent("Enter the FHIR server's base URL");
+    expect(mockStartSmartLaunch).not.toHaveBeenCalled();
+  });
+
+  it('should show why the launch could not start', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockClientId = undefined;
+    renderPage('?iss=https%3A%2F%2Fehr.example.org%2Ffhir&launch=abc');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('VITE_SMART_CLIENT_ID');
+    expect(mockStartSmartLaunch).not.toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: 'Connect' })).toBeEnabled();
+    (console.error as jest.Mock).mockRestore();
+  });
+});
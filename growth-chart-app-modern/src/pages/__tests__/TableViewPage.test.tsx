@@ -3,10 +3,13 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { MemoryRouter } from 'react-router-dom';
 import TableViewPage from '../TableViewPage';
-import useAppStore, { GrowthRecord, Patient, AppStoreState, NewGrowthRecordData } from '../../store/appStore'; // Import necessary types
+import useAppStore, { GrowthRecord, Patient, AppStoreState, useCurrentPatient, useCurrentPatientRecords } from '../../store/appStore'; // Import necessary types
+import { useRecordZScores } from '../../hooks/useRecordZScores';
 
 // Mock the Zustand store
 jest.mock('../../store/appStore');
+// Reference charts are fetched over HTTP; tests supply Z-scores directly
+jest.mock('../../hooks/useRecordZScores', () => ({ useRecordZScores: jest.fn().mockReturnValue({}) }));
 
 // Define mock implementations
 const mockAddGrowthRecordAction = jest.fn();
@@ -28,6 +31,10 @@ const setupMockStore = (currentPatient: Patient | null, records: GrowthRecord[],
   mockSettingsState = { ...{ units: 'Metric', darkMode: false }, ...settings };
 
 
+  // The helper hooks are auto-mocked too, so they must return the same state as the store mock
+  (useCurrentPatient as jest.Mock).mockReturnValue(currentPatient);
+  (useCurrentPatientRecords as jest.Mock).mockReturnValue(records);
+
   (useAppStore as jest.Mock).mockImplementation((selector: (state: AppStoreState) => any) => {
     const state: AppStoreState = {
       patients: currentPatient ? [currentPatient] : [],
@@ -89,7 +96,6 @@ describe('TableViewPage - Add Growth Record Form', () => {
     await openForm();
 
     fireEvent.change(screen.getByLabelText(/Date of Measurement/i), { target: { value: '2023-06-15' } });
-    await userEvent.type(screen.getByLabelText(/Age at Measurement \(Months\)/i), '6');
     await userEvent.selectOptions(screen.getByLabelText(/Measurement Type/i), 'Weight');
     await userEvent.clear(screen.getByLabelText(/Value/i));
     await userEvent.type(screen.getByLabelText(/Value/i), '7.5');
@@ -101,7 +107,7 @@ describe('TableViewPage - Add Growth Record Form', () => {
     await userEvent.click(screen.getByRole('button', { name: /Save Record/i }));
 
     expect(mockAddGrowthRecordAction).toHaveBeenCalledWith({
-      patientId: samplePatient.id, date: '2023-06-15', ageMonths: 6,
+      patientId: samplePatient.id, date: '2023-06-15', ageMonths: 5.46, // Derived from DOB 2023-01-01
       measurementType: 'Weight', value: 7.5, unit: 'kg',
       otherMeasurementName: undefined, interventionType: 'Vitamin D',
       interventionDetails: '1000 IU daily', notes: 'Regular checkup',
@@ -113,7 +119,6 @@ describe('TableViewPage - Add Growth Record Form', () => {
     render(<MemoryRouter><TableViewPage /></MemoryRouter>);
     await openForm();
     fireEvent.change(screen.getByLabelText(/Date of Measurement/i), { target: { value: '2023-07-01' } });
-    await userEvent.type(screen.getByLabelText(/Age at Measurement \(Months\)/i), '7');
     await userEvent.selectOptions(screen.getByLabelText(/Measurement Type/i), 'Other');
     await userEvent.type(screen.getByLabelText(/Measurement Name/i), 'Arm Span');
     await userEvent.clear(screen.getByLabelText(/Value/i)); await userEvent.type(screen.getByLabelText(/Value/i), '60');
@@ -121,7 +126,7 @@ describe('TableViewPage - Add Growth Record Form', () => {
     await userEvent.click(screen.getByRole('button', { name: /Save Record/i }));
 
     expect(mockAddGrowthRecordAction).toHaveBeenCalledWith({
-      patientId: samplePatient.id, date: '2023-07-01', ageMonths: 7,
+      patientId: samplePatient.id, date: '2023-07-01', ageMonths: 6,
       measurementType: 'Other', otherMeasurementName: 'Arm Span',
       value: 60, unit: 'cm',
       interventionType: undefined, interventionDetails: undefined, notes: undefined,
@@ -129,11 +134,21 @@ describe('TableViewPage - Add Growth Record Form', () => {
     await waitFor(() => expect(screen.getByText('Record added successfully!')).toBeInTheDocument());
   });
 
-  test('shows error if Age is missing', async () => {
+  test('shows error if measurement date is before the date of birth', async () => {
     render(<MemoryRouter><TableViewPage /></MemoryRouter>);
     await openForm();
+    fireEvent.change(screen.getByLabelText(/Date of Measurement/i), { target: { value: '2022-12-01' } });
+    await userEvent.type(screen.getByLabelText(/Value/i), '3.5');
     await userEvent.click(screen.getByRole('button', { name: /Save Record/i }));
-    expect(screen.getByText('Age at Measurement is required.')).toBeInTheDocument();
+    expect(screen.getByText('Measurement Date cannot be before the Date of Birth.')).toBeInTheDocument();
+    expect(mockAddGrowthRecordAction).not.toHaveBeenCalled();
+  });
+
+  test('shows the age calculated from DOB and measurement date', async () => {
+    render(<MemoryRouter><TableViewPage /></MemoryRouter>);
+    await openForm();
+    fireEvent.change(screen.getByLabelText(/Date of Measurement/i), { target: { value: '2023-07-01' } });
+    expect(screen.getByLabelText(/Age at Measurement \(Months\)/i)).toHaveValue('6');
   });
 });
 
@@ -198,3 +213,43 @@ describe('TableViewPage - Delete Growth Record', () => {
     expect(mockDeleteGrowthRecordAction).toHaveBeenCalledWith(mockRecordToDelete.id);
   });
 });
+
+describe('TableViewPage - Percentile column', () => {
+  const weightRecord: GrowthRecord = {
+    id: 'rec-weight-1', patientId: samplePatient.id, date: '2023-07-01', ageMonths: 6,
+    measurementType: 'Weight', value: 8, unit: 'kg'
+  };
+  const otherRecord: GrowthRecord = {
+    id: 'rec-other-1', patientId: samplePatient.id, date: '2023-07-01', ageMonths: 6,
+    measurementType: 'Other', otherMeasurementName: 'Arm Span', value: 50, unit: 'cm'
+  };
+
+  beforeEach(() => {
+    setupMockStore(samplePatient, [weightRecord, otherRecord]);
+    (useRecordZScores as jest.Mock).mockReturnValue({});
+  });
+
+  test('shows the percentile for records with a Z-score', async () => {
+    (useRecordZScores as jest.Mock).mockReturnValue({ [weightRecord.id]: { zScore: 0.2533 } });
+    render(<MemoryRouter><TableViewPage /></MemoryRouter>);
+    expect(screen.getByRole('columnheader', { name: 'Percentile' })).toBeInTheDocument();
+    const percentileCell = await screen.findByText('60');
+    expect(percentileCell).toHaveAttribute('title', 'Z-Score: 0.25');
+    expect(useRecordZScores).toHaveBeenCalledWith([weightRecord, otherRecord], samplePatient, expect.any(Number));
+  });
+
+  test('shows the obesity class for extended BMI results', async () => {
+    (useRecordZScores as jest.Mock).mockReturnValue({
+      [weightRecord.id]: { zScore: 2.6003, isExtended: true, percentOf95th: 135.4, obesityClass: 'Class 2 severe obesity' },
+    });
+    render(<MemoryRouter><TableViewPage /></MemoryRouter>);
+    expect(await screen.findByText('Class 2 severe obesity')).toBeInTheDocument();
+    expect(screen.getByText('99.5').closest('td')).toHaveAttribute('title', 'Z-Score: 2.60 (extended BMI), 135% of 95th percentile');
+  });
+
+  test('shows growth alerts on the record that raised them', async () => {
+    (useRecordZScores as jest.Mock).mockReturnValue({ [weightRecord.id]: { zScore: -2.5 } });
+    render(<MemoryRouter><TableViewPage /></MemoryRouter>);
+    expect(await screen.findByText('Weight faltering')).toHaveAttribute('title', 'Weight is below the 2nd centile (0.6).');
+  });
+});
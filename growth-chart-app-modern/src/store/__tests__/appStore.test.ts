@@ -1,5 +1,6 @@
 import { create, StoreApi } from 'zustand';
 import { storeCreator, AppStoreState, Patient, GrowthRecord, AppSettings, NewGrowthRecordData } from '../appStore';
+import type { FHIRContext } from '../appStore';
 
 // Type for the test store instance
 type TestStore = StoreApi<AppStoreState>;
@@ -232,6 +233,55 @@ describe('Zustand App Store (Actions Logic)', () => {
   });
 
 
+  describe('Age derived from date of birth', () => {
+    it('should compute ageMonths from DOB and measurement date, ignoring a supplied age', () => {
+      const patient = testStore.getState().addPatient({ name: 'Age Patient', dob: '2022-01-15', sex: 'Male' });
+      const record = testStore.getState().addGrowthRecord({ patientId: patient.id, date: '2023-01-15', ageMonths: 3, measurementType: 'Weight', value: 9, unit: 'kg' });
+      expect(record.ageMonths).toBe(12);
+    });
+
+    it('should fall back to the supplied age when the patient DOB is unknown', () => {
+      const patient = testStore.getState().addPatient({ name: 'Unknown DOB', dob: 'Unknown', sex: 'Female' });
+      const record = testStore.getState().addGrowthRecord({ patientId: patient.id, date: '2023-01-15', ageMonths: 7, measurementType: 'Weight', value: 8, unit: 'kg' });
+      expect(record.ageMonths).toBe(7);
+    });
+
+    it('should throw if the measurement date is before the DOB', () => {
+      const patient = testStore.getState().addPatient({ name: 'Future Record', dob: '2023-01-15', sex: 'Male' });
+      expect(() => testStore.getState().addGrowthRecord({ patientId: patient.id, date: '2022-12-01', measurementType: 'Weight', value: 3, unit: 'kg' }))
+        .toThrow("Measurement date must be a valid date on or after the patient's date of birth.");
+    });
+
+    it('should recompute ageMonths when a record date is updated', () => {
+      const patient = testStore.getState().addPatient({ name: 'Update Age', dob: '2022-01-01', sex: 'Male' });
+      const record = testStore.getState().addGrowthRecord({ patientId: patient.id, date: '2022-02-01', measurementType: 'Weight', value: 5, unit: 'kg' });
+      testStore.getState().updateGrowthRecord({ ...record, date: '2022-07-01' });
+      expect(testStore.getState().growthRecords.find(r => r.id === record.id)?.ageMonths).toBe(6);
+    });
+
+    it("should recompute all of a patient's record ages when their DOB is edited", () => {
+      const patient = testStore.getState().addPatient({ name: 'DOB Fix', dob: '2022-01-01', sex: 'Female' });
+      testStore.getState().addGrowthRecord({ patientId: patient.id, date: '2023-01-01', measurementType: 'Weight', value: 10, unit: 'kg' });
+      testStore.getState().addGrowthRecord({ patientId: patient.id, date: '2023-01-01', measurementType: 'Height', value: 75, unit: 'cm' });
+
+      testStore.getState().updatePatient({ ...patient, dob: '2022-07-01' });
+
+      const records = testStore.getState().getRecordsForPatient(patient.id);
+      expect(records.length).toBe(3); // Weight, Height and auto-BMI
+      expect(records.every(r => r.ageMonths === 6)).toBe(true);
+    });
+
+    it('should fix legacy records whose stored age disagrees with their date', () => {
+      const patient = testStore.getState().addPatient({ name: 'Legacy', dob: '2022-01-01', sex: 'Male' });
+      testStore.setState((state) => ({
+        growthRecords: [...state.growthRecords, { id: 'legacy-1', patientId: patient.id, date: '2023-01-01', ageMonths: 9, measurementType: 'Weight', value: 9, unit: 'kg' }],
+      }));
+      testStore.getState().recalculateRecordAges(patient.id);
+      expect(testStore.getState().growthRecords.find(r => r.id === 'legacy-1')?.ageMonths).toBe(12);
+    });
+  });
+
+
   describe('Automatic BMI Record Generation', () => {
     let patientId: string;
 
@@ -280,7 +330,7 @@ describe('Zustand App Store (Actions Logic)', () => {
       expect(bmiRecord?.value).toBe(17.3);
     });
 
-    it('should update an existing BMI record if a corresponding weight or height is updated (by adding a new one at same age)', () => {
+    it('should update an existing BMI record if a corresponding weight or height is updated (by adding a new one on the same date)', () => {
       // Initial H, W, and auto-BMI
       testStore.getState().addGrowthRecord({ patientId, date: '2023-03-01', ageMonths: 14, measurementType: 'Weight', value: 11, unit: 'kg' });
       testStore.getState().addGrowthRecord({ patientId, date: '2023-03-01', ageMonths: 14, measurementType: 'Height', value: 80, unit: 'cm' }); // BMI = 11 / (0.8*0.8) = 17.1875 -> 17.2
@@ -290,15 +340,15 @@ describe('Zustand App Store (Actions Logic)', () => {
       expect(bmiRecord).toBeDefined();
       expect(bmiRecord?.value).toBe(17.2);
 
-      // Add a new weight record for the same age (simulating an update)
-      testStore.getState().addGrowthRecord({ patientId, date: '2023-03-05', ageMonths: 14, measurementType: 'Weight', value: 11.5, unit: 'kg' }); // New date, but same ageMonths
+      // Add a new weight record for the same date (and therefore the same derived age), simulating an update
+      testStore.getState().addGrowthRecord({ patientId, date: '2023-03-01', measurementType: 'Weight', value: 11.5, unit: 'kg' });
 
       records = testStore.getState().getRecordsForPatient(patientId);
       bmiRecord = records.find(r => r.measurementType === 'BMI' && r.ageMonths === 14);
       expect(bmiRecord).toBeDefined();
       // New BMI = 11.5 / (0.8*0.8) = 11.5 / 0.64 = 17.96875 -> 18.0
       expect(bmiRecord?.value).toBe(18.0);
-      expect(bmiRecord?.date).toBe('2023-03-05'); // Date should update to the latest triggering record's date
+      expect(bmiRecord?.date).toBe('2023-03-01');
 
       // Ensure only one BMI record for that age
       const bmiRecordsForAge = records.filter(r => r.measurementType === 'BMI' && r.ageMonths === 14);
@@ -313,4 +363,105 @@ describe('Zustand App Store (Actions Logic)', () => {
       expect(bmiRecord).toBeUndefined();
     });
   });
+
+  describe('Writing measurements back to the EHR', () => {
+    const create = jest.fn();
+    const fhirPatient: Patient = { id: 'FHIR-123', name: 'FHIR Patient', dob: '2023-01-01', sex: 'Female', isFHIRPatient: true };
+    const weight: NewGrowthRecordData = { patientId: 'FHIR-123', date: '2023-06-01', measurementType: 'Weight', value: 6500, unit: 'g' };
+    const flushWrites = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    beforeEach(() => {
+      create.mockReset();
+      testStore.setState({ patients: [fhirPatient] });
+      testStore.getState().setFHIRContext({ client: { create } as unknown as FHIRContext['client'], patientId: '123', status: 'ready' });
+      testStore.getState().updateSettings({ fhirWriteBack: true });
+    });
+
+    it('should create a coded vital-signs Observation and adopt the id the EHR gives it', async () => {
+      create.mockResolvedValue({ resourceType: 'Observation', id: 'obs-1' });
+      const record = testStore.getState().addGrowthRecord(weight);
+      expect(testStore.getState().growthRecords.find(r => r.id === record.id)?.fhirSyncStatus).toBe('pending');
+      await flushWrites();
+
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({
+        resourceType: 'Observation', status: 'final',
+        category: [{ coding: [expect.objectContaining({ code: 'vital-signs' })] }],
+        code: expect.objectContaining({ coding: [expect.objectContaining({ system: 'http://loinc.org', code: '29463-7' })] }),
+        subject: { reference: 'Patient/123' }, effectiveDateTime: '2023-06-01',
+        valueQuantity: { value: 6500, unit: 'g', system: 'http://unitsofmeasure.org', code: 'g' },
+      }));
+      const [written] = testStore.getState().growthRecords;
+      expect(written).toMatchObject({ id: 'FHIR-obs-1', isFHIRRecord: true, fhirSyncStatus: 'synced' });
+    });
+
+    it('should mark a record failed with the reason when the write fails, and retry it', async () => {
+      create.mockRejectedValueOnce(new Error('403 Forbidden'));
+      const record = testStore.getState().addGrowthRecord(weight);
+      await flushWrites();
+      expect(testStore.getState().growthRecords[0]).toMatchObject({ id: record.id, fhirSyncStatus: 'failed', fhirSyncError: '403 Forbidden' });
+
+      create.mockResolvedValueOnce({ resourceType: 'Observation', id: 'obs-2' });
+      await testStore.getState().retryFHIRWrites('FHIR-123');
+      expect(testStore.getState().growthRecords[0]).toMatchObject({ id: 'FHIR-obs-2', fhirSyncStatus: 'synced' });
+    });
+
+    it('should only write when opted in, for FHIR patients and vital-sign measurements', async () => {
+      testStore.getState().addGrowthRecord({ ...weight, measurementType: 'BoneAge', value: 6, unit: 'months' });
+      const localPatient = testStore.getState().addPatient({ name: 'Local', dob: '2023-01-01', sex: 'Male' });
+      testStore.getState().addGrowthRecord({ ...weight, patientId: localPatient.id });
+      testStore.getState().updateSettings({ fhirWriteBack: false });
+      testStore.getState().addGrowthRecord(weight);
+      await flushWrites();
+
+      expect(create).not.toHaveBeenCalled();
+      expect(testStore.getState().growthRecords.every(r => r.fhirSyncStatus === undefined)).toBe(true);
+    });
+
+    it("should fail a write when the EHR session is for another patient", async () => {
+      testStore.getState().setFHIRContext({ patientId: '456' });
+      testStore.getState().addGrowthRecord(weight);
+      await flushWrites();
+
+      expect(create).not.toHaveBeenCalled();
+      expect(testStore.getState().growthRecords[0].fhirSyncStatus).toBe('failed');
+    });
+  });
+
+  describe('Loading a patient found by search', () => {
+    // Shaped like fhirclient's: a launch without a patient in context has a read-only patient id
+    const clientPatient = { get id() { return null; }, read: jest.fn() };
+    const request = jest.fn();
+    const create = jest.fn();
+    const client = { patient: clientPatient, request, create } as unknown as FHIRContext['client'];
+
+    beforeEach(() => {
+      request.mockReset().mockImplementation((url: string) => Promise.resolve(url === 'Patient/p1'
+        ? { resourceType: 'Patient', id: 'p1', name: [{ given: ['Amy'], family: 'Smith' }], birthDate: '2020-04-02', gender: 'female' }
+        : { resourceType: 'Bundle', entry: [] }));
+      create.mockReset().mockResolvedValue({ resourceType: 'Observation', id: 'obs-1' });
+      testStore.getState().setFHIRContext({ client, status: 'ready', isPractitionerLaunch: true });
+    });
+
+    it("should load the patient by id without changing the client's patient", async () => {
+      await testStore.getState().loadFHIRPatient('p1');
+
+      expect(request).toHaveBeenCalledWith('Patient/p1');
+      expect(request).toHaveBeenCalledWith(expect.stringMatching(/^Observation\?patient=p1&/));
+      expect(clientPatient.read).not.toHaveBeenCalled();
+      expect(testStore.getState().fhirContext).toMatchObject({ patientId: 'p1', status: 'ready' });
+      expect(testStore.getState().selectedPatientId).toBe('FHIR-p1');
+      expect(testStore.getState().getPatientById('FHIR-p1')).toMatchObject({ name: 'Amy Smith', dob: '2020-04-02', sex: 'Female' });
+
+      testStore.getState().updateSettings({ fhirWriteBack: true });
+      testStore.getState().addGrowthRecord({ patientId: 'FHIR-p1', date: '2024-01-01', measurementType: 'Weight', value: 15, unit: 'kg' });
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({ subject: { reference: 'Patient/p1' } }));
+    });
+
+    it('should reject with the reason and keep the previous patient when the read fails', async () => {
+      request.mockRejectedValueOnce(new Error('404 Not Found'));
+      await expect(testStore.getState().loadFHIRPatient('missing')).rejects.toThrow('404 Not Found');
+      expect(testStore.getState().fhirContext.patientId).toBeUndefined();
+    });
+  });
 });
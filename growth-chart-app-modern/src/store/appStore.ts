@@ -1,8 +1,17 @@
+import { useMemo } from 'react';
 import { create, StateCreator } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { v4 as uuidv4 } from 'uuid';
-import { calculateBMI, calculateAgeInMonths } from '../utils/calculations'; // Import age calculator
+import { calculateBMI, calculateAgeInMonths, DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS, DEFAULT_HEIGHT_VELOCITY_MIN_INTERVAL_MONTHS, DEFAULT_WEIGHT_VELOCITY_MIN_INTERVAL_MONTHS, DEFAULT_VELOCITY_WINDOW_MONTHS } from '../utils/calculations'; // Import age calculator
 import { convertToMetricForCalc } from '../utils/units';
+import type { CentileLinePreset } from '../utils/zScoreCalculator';
+import type { GrowthConditionCode } from '../utils/conditions';
+import type { BoneAgeMethod } from '../utils/boneAge';
+import type { TannerSite } from '../utils/puberty';
+import { fetchGrowthObservations, mapObservationToGrowthRecord, mapGrowthRecordToObservation, canWriteGrowthRecordToFHIR } from '../utils/fhirObservations';
+import type { FHIRObservation } from '../utils/fhirObservations';
+import { getFHIRPatientName, mapFHIRGender } from '../utils/fhirPatients';
+import { isSmartAuthorizationRedirect, hasSmartSession } from '../utils/smartLaunch';
 import FHIR from 'fhirclient';
 import { Client, fhirclient } from 'fhirclient/lib/client';
 
@@ -10,21 +19,39 @@ import { Client, fhirclient } from 'fhirclient/lib/client';
 export interface Patient {
   id: string; name: string; dob: string;
   sex: 'Male' | 'Female' | 'Other' | 'Unknown';
-  condition?: string;
+  condition?: string; // Free-text notes
+  conditions?: GrowthConditionCode[]; // Coded conditions that have their own growth charts
+  gestationalAgeWeeks?: number; // Completed weeks of gestation at birth
+  gestationalAgeDays?: number;  // Additional days (0-6)
+  fatherHeightCm?: number; // Biological parents' heights, for the mid-parental target height
+  motherHeightCm?: number;
   isFHIRPatient?: boolean;
 }
-export type NewGrowthRecordData = Omit<GrowthRecord, 'id'>;
+// ageMonths is derived from the patient's DOB and the record date; a supplied value is only used when DOB is unknown
+export type NewGrowthRecordData = Omit<GrowthRecord, 'id' | 'ageMonths'> & { ageMonths?: number };
 export interface GrowthRecord {
   id: string; patientId: string; date: string; ageMonths: number;
-  measurementType: 'Weight' | 'Height' | 'Length' | 'HeadCircumference' | 'BMI' | 'Other';
+  measurementType: 'Weight' | 'Height' | 'Length' | 'HeadCircumference' | 'BMI' | 'BoneAge' | 'TannerStage' | 'Other';
   otherMeasurementName?: string;
-  value: number; unit: 'kg' | 'lbs' | 'cm' | 'in' | 'kg/m²' | string;
+  boneAgeMethod?: BoneAgeMethod; // Bone age records: the atlas or scoring method used to read the X-ray
+  tannerSite?: TannerSite; // Tanner stage records: the characteristic staged (value is the stage, 1-5)
+  value: number; unit: 'kg' | 'g' | 'lbs' | 'oz' | 'cm' | 'mm' | 'm' | 'in' | 'ft' | 'kg/m²' | 'months' | 'years' | 'stage' | string;
   notes?: string; interventionType?: string; interventionDetails?: string;
   isFHIRRecord?: boolean;
+  fhirSyncStatus?: FHIRSyncStatus; // Records of FHIR patients written back to the EHR
+  fhirSyncError?: string; // Why the last write failed
 }
+// 'synced' records were written to the EHR and have become FHIR records
+export type FHIRSyncStatus = 'pending' | 'synced' | 'failed';
 export interface AppSettings {
   defaultChartType: 'WeightForAge' | 'HeightForAge' | 'HCForAge' | 'BMIForAge';
   units: 'Metric' | 'Imperial';
+  correctedAgeCutoffMonths?: number; // Plot preterm infants at corrected age until this chronological age
+  centileLinePreset?: CentileLinePreset; // Which centile/SD lines to generate from LMS data; 'manifest' uses each chart's own set
+  heightVelocityMinIntervalMonths?: number; // Shortest interval annualized into a height velocity
+  weightVelocityMinIntervalMonths?: number;
+  velocityWindowMonths?: number; // Preferred velocity interval; 0 uses consecutive measurements
+  fhirWriteBack?: boolean; // Write measurements added for FHIR patients back to the EHR
   darkMode: boolean; language: 'English' | 'Spanish';
   notifications: { appointmentReminders: boolean; newDataAlerts: boolean; };
 }
@@ -36,12 +63,13 @@ export interface FHIRContext {
   error?: string | null;
   isRetrieved?: boolean; // Legacy or specific check, status is primary
   isAuthorized?: boolean; // Legacy or specific check, status is primary
+  isPractitionerLaunch?: boolean; // Launched without a patient in context; the user finds one by search
 }
 
 export type FHIRStatus =
   | 'idle'              // Initial state, or after user logs out/clears context
   | 'initializing'      // App is trying to initialize fhirclient.js from session or launch
-  | 'authorizing'       // FHIR.oauth2.ready() is in progress or client init from stored context
+  | 'authorizing'       // FHIR.oauth2.ready() is completing or restoring the SMART authorization
   | 'no_context'        // Initialization complete, but no launch context found (e.g. direct app access)
   | 'fetch_patient'     // Fetching patient resource
   | 'fetch_growth_data' // Fetching observation (growth) data
@@ -64,11 +92,15 @@ export interface AppStateActions {
   deletePatient: (patientId: string) => void;
   updateGrowthRecord: (updatedRecord: GrowthRecord) => void;
   deleteGrowthRecord: (recordId: string) => void;
+  recalculateRecordAges: (patientId: string) => void;
   initializeFHIRClient: () => Promise<Client | null>;
   setFHIRContext: (context: Partial<FHIRContext>) => void;
   clearFHIRContext: () => void;
   fetchFHIRPatientData: () => Promise<void>;
   fetchFHIRGrowthData: () => Promise<void>;
+  loadFHIRPatient: (fhirPatientId: string) => Promise<void>; // Rejects with the reason if the patient cannot be loaded
+  writeGrowthRecordToFHIR: (recordId: string) => Promise<void>;
+  retryFHIRWrites: (patientId: string) => Promise<void>;
 }
 export type AppStoreState = AppStateValues & AppStateActions;
 
@@ -76,16 +108,38 @@ export type AppStoreState = AppStateValues & AppStateActions;
 export const initialAppState: AppStateValues = {
   patients: [], growthRecords: [],
   settings: {
-    defaultChartType: 'WeightForAge', units: 'Metric', darkMode: false, language: 'English',
+    defaultChartType: 'WeightForAge', units: 'Metric',
+    correctedAgeCutoffMonths: DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS, centileLinePreset: 'manifest', darkMode: false, language: 'English',
+    heightVelocityMinIntervalMonths: DEFAULT_HEIGHT_VELOCITY_MIN_INTERVAL_MONTHS, weightVelocityMinIntervalMonths: DEFAULT_WEIGHT_VELOCITY_MIN_INTERVAL_MONTHS,
+    velocityWindowMonths: DEFAULT_VELOCITY_WINDOW_MONTHS, fhirWriteBack: false,
     notifications: { appointmentReminders: true, newDataAlerts: false },
   },
   selectedPatientId: null,
   fhirContext: {
     client: undefined, patientId: undefined, serverUrl: undefined,
-    status: 'idle', error: null, isRetrieved: false, isAuthorized: false
+    status: 'idle', error: null, isRetrieved: false, isAuthorized: false, isPractitionerLaunch: false
   }
 };
 
+// --- Helpers ---
+/**
+ * Derives a record's age in months from the patient's DOB and the measurement date.
+ * Falls back to a supplied age only when the patient's DOB is unknown.
+ * @throws If the DOB is known but the date is invalid or precedes it, or no age can be determined.
+ */
+const deriveAgeMonths = (patient: Patient | undefined, date: string, fallbackAgeMonths?: number): number => {
+  const dobIsKnown = !!patient && !isNaN(new Date(patient.dob).getTime());
+  if (dobIsKnown) {
+    const ageMonths = calculateAgeInMonths(patient!.dob, date);
+    if (isNaN(ageMonths)) {
+      throw new Error("Measurement date must be a valid date on or after the patient's date of birth.");
+    }
+    return ageMonths;
+  }
+  if (fallbackAgeMonths !== undefined && !isNaN(fallbackAgeMonths)) return fallbackAgeMonths;
+  throw new Error("ageMonths could not be derived: patient date of birth is unknown.");
+};
+
 // --- Store Creator ---
 export const storeCreator: StateCreator<AppStoreState> = (set, get) => ({
   ...initialAppState,
@@ -123,8 +177,15 @@ export const storeCreator: StateCreator<AppStoreState> = (set, get) => ({
         console.error("Attempted to add growth record without patientId", recordData);
         throw new Error("patientId is required to add a growth record.");
     }
-    const newRecord = { ...recordData, id: uuidv4() };
+    const patient = get().patients.find(p => p.id === recordData.patientId);
+    const newRecord: GrowthRecord = {
+      ...recordData, id: uuidv4(),
+      ageMonths: deriveAgeMonths(patient, recordData.date, recordData.ageMonths),
+    };
+    const shouldWriteBack = !!get().settings.fhirWriteBack && !!patient?.isFHIRPatient && canWriteGrowthRecordToFHIR(newRecord);
+    if (shouldWriteBack) newRecord.fhirSyncStatus = 'pending';
     set((state) => ({ growthRecords: [...state.growthRecords, newRecord] }));
+    if (shouldWriteBack) get().writeGrowthRecordToFHIR(newRecord.id); // Settles the record's sync status; never rejects
 
     if (newRecord.measurementType === 'Weight' || newRecord.measurementType === 'Height' || newRecord.measurementType === 'Length') {
       const { growthRecords, _addOrUpdateBMIRecordInternal } = get();
@@ -141,6 +202,7 @@ export const storeCreator: StateCreator<AppStoreState> = (set, get) => ({
       } else {
         heightRecordForBMI = newRecord;
         weightRecordForBMI = growthRecords.find( (r) => r.patientId === patientId && r.ageMonths === ageMonths && r.measurementType === 'Weight');
+      }
 
       if (weightRecordForBMI && heightRecordForBMI) {
           if (new Date(weightRecordForBMI.date) > new Date(heightRecordForBMI.date)) recordDate = weightRecordForBMI.date; else recordDate = heightRecordForBMI.date;
@@ -159,7 +221,13 @@ export const storeCreator: StateCreator<AppStoreState> = (set, get) => ({
   updateSettings: (newSettings) => set((state) => ({ settings: { ...state.settings, ...newSettings } })),
   getPatientById: (patientId) => get().patients.find(p => p.id === patientId),
   getRecordsForPatient: (patientId) => get().growthRecords.filter(r => r.patientId === patientId),
-  updatePatient: (updatedPatient) => set((state) => ({ patients: state.patients.map((p) => p.id === updatedPatient.id ? { ...p, ...updatedPatient } : p) })),
+  updatePatient: (updatedPatient) => {
+    const previousPatient = get().patients.find(p => p.id === updatedPatient.id);
+    set((state) => ({ patients: state.patients.map((p) => p.id === updatedPatient.id ? { ...p, ...updatedPatient } : p) }));
+    if (previousPatient && previousPatient.dob !== updatedPatient.dob) {
+      get().recalculateRecordAges(updatedPatient.id);
+    }
+  },
   deletePatient: (patientId) => set((state) => {
       const remainingGrowthRecords = state.growthRecords.filter( (r) => r.patientId !== patientId );
       const newSelectedPatientId = state.selectedPatientId === patientId ? null : state.selectedPatientId;
@@ -169,7 +237,11 @@ export const storeCreator: StateCreator<AppStoreState> = (set, get) => ({
         selectedPatientId: newSelectedPatientId,
       };
   }),
-  updateGrowthRecord: (updatedRecord) => set((state) => ({ growthRecords: state.growthRecords.map((r) => r.id === updatedRecord.id ? { ...r, ...updatedRecord } : r) })),
+  updateGrowthRecord: (updatedRecord) => {
+    const patient = get().patients.find(p => p.id === updatedRecord.patientId);
+    const ageMonths = deriveAgeMonths(patient, updatedRecord.date, updatedRecord.ageMonths);
+    set((state) => ({ growthRecords: state.growthRecords.map((r) => r.id === updatedRecord.id ? { ...r, ...updatedRecord, ageMonths } : r) }));
+  },
   deleteGrowthRecord: (recordId) => set((state) => {
       const recordToDelete = state.growthRecords.find(r => r.id === recordId);
       let newGrowthRecords = state.growthRecords.filter((r) => r.id !== recordId);
@@ -180,6 +252,17 @@ export const storeCreator: StateCreator<AppStoreState> = (set, get) => ({
       }
       return { growthRecords: newGrowthRecords };
   }),
+  recalculateRecordAges: (patientId) => set((state) => {
+      const patient = state.patients.find(p => p.id === patientId);
+      if (!patient) return {};
+      return {
+        growthRecords: state.growthRecords.map((r) => {
+          if (r.patientId !== patientId) return r;
+          const ageMonths = calculateAgeInMonths(patient.dob, r.date);
+          return isNaN(ageMonths) || ageMonths === r.ageMonths ? r : { ...r, ageMonths };
+        }),
+      };
+  }),
 
   setFHIRContext: (context) =>
     set((state) => ({ fhirContext: { ...state.fhirContext, ...context } })),
@@ -204,37 +287,25 @@ export const storeCreator: StateCreator<AppStoreState> = (set, get) => ({
     let clientInstance: Client | null = null;
 
     try {
-        // This part simulates FHIR.oauth2.ready() which would handle redirect and get credentials
-        // In our case, we try to load from sessionStorage which is populated by launch.html/index-fhir.html
-        const storedContextString = sessionStorage.getItem('fhirContext');
-        if (storedContextString) {
+        // Complete an authorization the server has just redirected back with, or restore this tab's
+        // session after a reload. Otherwise the app was not launched via SMART.
+        if (isSmartAuthorizationRedirect(window.location.search) || hasSmartSession()) {
             get().setFHIRContext({ status: 'authorizing' });
-            const storedContext = JSON.parse(storedContextString);
-
-            if (storedContext.serverUrl && storedContext.tokenResponse) {
-                clientInstance = FHIR.client({
-                    serverUrl: storedContext.serverUrl,
-                    tokenResponse: storedContext.tokenResponse
-                });
-                if (storedContext.patientId) {
-                    clientInstance.patient.id = storedContext.patientId;
-                }
-
-                get().setFHIRContext({
-                    client: clientInstance,
-                    patientId: clientInstance.patient.id,
-                    serverUrl: clientInstance.serverUrl,
-                    status: 'ready', // Initially ready, subsequent fetches will change status
-                    error: null,
-                    isRetrieved: true,
-                    isAuthorized: true,
-                });
-                // console.log("FHIR client initialized successfully from session storage.");
-            } else {
-                throw new Error("Stored FHIR context is incomplete (missing serverUrl or tokenResponse).");
-            }
+            clientInstance = await FHIR.oauth2.ready();
+
+            get().setFHIRContext({
+                client: clientInstance,
+                patientId: clientInstance.patient.id || undefined,
+                serverUrl: clientInstance.state.serverUrl,
+                status: 'ready', // Initially ready, subsequent fetches will change status
+                error: null,
+                isRetrieved: true,
+                isAuthorized: true,
+                isPractitionerLaunch: !clientInstance.patient.id,
+            });
+            // console.log("FHIR client initialized via SMART authorization.");
         } else {
-            // console.log("No FHIR context found in session storage.");
+            // console.log("No SMART authorization found for this session.");
             get().setFHIRContext({ status: 'no_context', isRetrieved: true, isAuthorized: false, error: null });
         }
     } catch (error: any) {
@@ -252,7 +323,7 @@ export const storeCreator: StateCreator<AppStoreState> = (set, get) => ({
   fetchFHIRPatientData: async () => {
     const { client, patientId: currentFhirPatientIdFromContext } = get().fhirContext;
 
-    if (!client || !client.patient?.id || !currentFhirPatientIdFromContext) {
+    if (!client || !currentFhirPatientIdFromContext) {
       const errorMsg = "FHIR client not ready or patient ID missing for fetching patient data.";
       // console.warn(errorMsg);
       // Don't set error status here if initializeFHIRClient already set 'no_context' or 'error'
@@ -264,23 +335,21 @@ export const storeCreator: StateCreator<AppStoreState> = (set, get) => ({
 
     get().setFHIRContext({ status: 'fetch_patient', error: null });
     try {
-      const fhirPatient: fhirclient.FHIR.Patient = await client.patient.read();
+      // Read by id rather than client.patient, whose id is fixed at launch: the patient may have been chosen by search
+      const fhirPatient: fhirclient.FHIR.Patient = await client.request(`Patient/${currentFhirPatientIdFromContext}`);
       // console.log("Fetched FHIR Patient:", fhirPatient);
-      let name = "Unknown FHIR Patient";
-      if (fhirPatient.name && fhirPatient.name.length > 0) {
-          const primaryName = fhirPatient.name.find(n => n.use === 'official') || fhirPatient.name[0];
-          name = `${primaryName.given?.join(" ") || ""} ${primaryName.family || ""}`.trim();
-      }
       const appPatient: Patient = {
-        id: `FHIR-${fhirPatient.id}`, name: name, dob: fhirPatient.birthDate || "Unknown",
-        sex: (fhirPatient.gender === "male" ? "Male" : fhirPatient.gender === "female" ? "Female" : fhirPatient.gender === "other" ? "Other" : "Unknown"),
+        id: `FHIR-${fhirPatient.id}`, name: getFHIRPatientName(fhirPatient), dob: fhirPatient.birthDate || "Unknown",
+        sex: mapFHIRGender(fhirPatient.gender),
         isFHIRPatient: true,
       };
       let existingPatient = get().patients.find(p => p.id === appPatient.id);
       if (existingPatient) {
         get().updatePatient({ ...existingPatient, ...appPatient }); // Ensure all fields are spread, including isFHIRPatient
       } else {
-        existingPatient = get().addPatient(appPatient); // addPatient will receive the full appPatient including isFHIRPatient
+        // Not addPatient, which assigns a new id: growth data and write-backs find the patient by its FHIR-derived id
+        set((state) => ({ patients: [...state.patients, appPatient] }));
+        existingPatient = appPatient;
       }
       get().selectPatient(existingPatient.id);
       // Don't set error to null here, let fetchFHIRGrowthData manage the final status/error
@@ -310,44 +379,15 @@ export const storeCreator: StateCreator<AppStoreState> = (set, get) => ({
     }
 
     get().setFHIRContext({ status: 'fetch_growth_data', error: null });
-    const loincToMeasurementType: Record<string, GrowthRecord['measurementType']> = {
-      '29463-7': 'Weight', '8302-2': 'Height', '8306-3': 'Length',
-      '8287-5': 'HeadCircumference', '39156-5': 'BMI',
-    };
-    const growthLoincCodes = Object.keys(loincToMeasurementType).join(',');
-
     try {
-      const bundle = await client.request(`Observation?patient=${fhirPatientId}&code=${growthLoincCodes}&_sort=date&_count=100`);
-      let fetchedGrowthRecords: GrowthRecord[] = [];
-      if (bundle && bundle.entry && Array.isArray(bundle.entry)) {
-        const observations = bundle.entry.map((entry: any) => entry.resource as fhirclient.FHIR.Observation);
-        observations.forEach(obs => {
-          if (obs.valueQuantity && obs.effectiveDateTime) {
-            const loincCode = obs.code?.coding?.[0]?.code;
-            const measurementType = loincCode ? loincToMeasurementType[loincCode] : undefined;
-            if (measurementType) {
-              let unit = obs.valueQuantity.unit || obs.valueQuantity.code || '';
-              if (unit === 'kg' || unit.toLowerCase() === 'kilograms') unit = 'kg';
-              else if (unit === '[lb_av]' || unit.toLowerCase() === 'pounds') unit = 'lbs';
-              else if (unit === 'cm' || unit.toLowerCase() === 'centimeters') unit = 'cm';
-              else if (unit === '[in_i]' || unit.toLowerCase() === 'inches') unit = 'in';
-              else if (unit === 'kg/m2') unit = 'kg/m²';
-              const ageMonths = calculateAgeInMonths(fhirAppPatient.dob, obs.effectiveDateTime);
-              if (!isNaN(obs.valueQuantity.value!) && !isNaN(ageMonths)) {
-                fetchedGrowthRecords.push({
-                  id: `FHIR-${obs.id}`, patientId: fhirAppPatient.id,
-                  date: obs.effectiveDateTime.split('T')[0], ageMonths: ageMonths,
-                  measurementType: measurementType, value: obs.valueQuantity.value!,
-                  unit: unit as GrowthRecord['unit'],
-                  isFHIRRecord: true,
-                });
-              }
-            }
-          }
-        });
-      }
+      const observations = await fetchGrowthObservations(url => client.request(url), fhirPatientIdFromContext);
+      const fetchedGrowthRecords = observations
+        .filter(obs => obs.resourceType === 'Observation') // Searches may also return an OperationOutcome
+        .map(obs => mapObservationToGrowthRecord(obs, fhirAppPatient))
+        .filter((record): record is GrowthRecord => record !== null);
       set((state) => {
-        const otherPatientRecords = state.growthRecords.filter(r => r.patientId !== fhirAppPatient.id);
+        // Measurements not yet written to the EHR are kept; the rest of the patient's records are replaced
+        const otherPatientRecords = state.growthRecords.filter(r => r.patientId !== fhirAppPatient.id || r.fhirSyncStatus === 'pending' || r.fhirSyncStatus === 'failed');
         const newTotalRecords = [...otherPatientRecords, ...fetchedGrowthRecords];
         const patientRecordsPostFetch = newTotalRecords.filter(r => r.patientId === fhirAppPatient.id);
         const uniqueAgeMonths = [...new Set(patientRecordsPostFetch.filter(r => r.measurementType === 'Weight' || r.measurementType === 'Height' || r.measurementType === 'Length').map(r => r.ageMonths))];
@@ -380,6 +420,57 @@ export const storeCreator: StateCreator<AppStoreState> = (set, get) => ({
       console.error("Error fetching/mapping FHIR growth data:", error);
       get().setFHIRContext({ status: 'error', error: error.message || "Failed to fetch/map FHIR growth data." });
     }
+  },
+
+  loadFHIRPatient: async (fhirPatientId) => {
+    const { client, patientId: previousPatientId } = get().fhirContext;
+    if (!client) throw new Error("FHIR client not ready for loading a patient.");
+    // Puts the patient in context, as an EHR launch would have. The client's own patient is read-only,
+    // so fetches and write-backs use fhirContext.patientId.
+    get().setFHIRContext({ patientId: fhirPatientId });
+    await get().fetchFHIRPatientData();
+    const { status, error } = get().fhirContext;
+    if (status === 'error') {
+      if (!get().patients.some(p => p.id === `FHIR-${fhirPatientId}`)) get().setFHIRContext({ patientId: previousPatientId });
+      throw new Error(error || "Failed to load the patient from the EHR.");
+    }
+  },
+
+  writeGrowthRecordToFHIR: async (recordId) => {
+    const setRecordSync = (changes: Partial<GrowthRecord>) =>
+      set((state) => ({ growthRecords: state.growthRecords.map(r => r.id === recordId ? { ...r, ...changes } : r) }));
+    const record = get().growthRecords.find(r => r.id === recordId);
+    if (!record || record.isFHIRRecord) return;
+
+    const { client, patientId: fhirPatientIdFromContext } = get().fhirContext;
+    if (!client || !fhirPatientIdFromContext || record.patientId !== `FHIR-${fhirPatientIdFromContext}`) {
+      setRecordSync({ fhirSyncStatus: 'failed', fhirSyncError: "Not connected to this patient's EHR record." });
+      return;
+    }
+    const observation = mapGrowthRecordToObservation(record, fhirPatientIdFromContext);
+    if (!observation) {
+      setRecordSync({ fhirSyncStatus: 'failed', fhirSyncError: 'Only weights, heights/lengths and head circumferences can be written to the EHR.' });
+      return;
+    }
+
+    setRecordSync({ fhirSyncStatus: 'pending', fhirSyncError: undefined });
+    try {
+      const created = await client.create<FHIRObservation>(observation);
+      // The record is now the EHR's: it takes the id a later fetch will give it, and becomes read-only
+      setRecordSync({ id: created?.id ? `FHIR-${created.id}` : recordId, isFHIRRecord: true, fhirSyncStatus: 'synced', fhirSyncError: undefined });
+    } catch (error: any) {
+      console.error("Error writing growth record to FHIR:", error);
+      setRecordSync({ fhirSyncStatus: 'failed', fhirSyncError: error.message || "Failed to write the measurement to the EHR." });
+    }
+  },
+
+  retryFHIRWrites: async (patientId) => {
+    const failedRecordIds = get().growthRecords
+      .filter(r => r.patientId === patientId && r.fhirSyncStatus === 'failed')
+      .map(r => r.id);
+    for (const recordId of failedRecordIds) {
+      await get().writeGrowthRecordToFHIR(recordId);
+    }
   }
 });
 
@@ -392,12 +483,16 @@ export const useAppStore = create<AppStoreState>()(
       storage: createJSONStorage(() => localStorage),
       partialize: (state) => ({
         ...state,
+        // A write still in flight when the app closes is unconfirmed; it is restored as failed so it can be retried
+        growthRecords: state.growthRecords.map(r => r.fhirSyncStatus === 'pending'
+          ? { ...r, fhirSyncStatus: 'failed' as const, fhirSyncError: 'The app was closed before the EHR confirmed the write.' } : r),
         fhirContext: {
             patientId: state.fhirContext.patientId,
             serverUrl: state.fhirContext.serverUrl,
             error: state.fhirContext.error,
             isRetrieved: state.fhirContext.isRetrieved,
             isAuthorized: state.fhirContext.isAuthorized,
+            isPractitionerLaunch: state.fhirContext.isPractitionerLaunch,
         }
       })
     }
@@ -411,11 +506,14 @@ export const useCurrentPatient = (): Patient | null => {
   if (!selectedPatientId) return null;
   return getPatientById(selectedPatientId) || null;
 };
+// Memoized so the array is stable between renders and safe to use as an effect dependency
 export const useCurrentPatientRecords = (): GrowthRecord[] => {
   const selectedPatientId = useAppStore((state) => state.selectedPatientId);
-  const getRecordsForPatient = useAppStore((state) => state.getRecordsForPatient);
-  if (!selectedPatientId) return [];
-  return getRecordsForPatient(selectedPatientId);
+  const growthRecords = useAppStore((state) => state.growthRecords);
+  return useMemo(
+    () => (selectedPatientId ? growthRecords.filter(r => r.patientId === selectedPatientId) : []),
+    [selectedPatientId, growthRecords]
+  );
 };
 
 export default useAppStore;
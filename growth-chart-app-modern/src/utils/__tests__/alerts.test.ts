@@ -0,0 +1,88 @@
+import { evaluateGrowthAlerts, getLatestAlerts, countCentileLinesCrossed, getFalteringThresholdSpaces } from '../alerts';
+import type { GrowthAlert } from '../alerts';
+import type { GrowthRecord } from '../../store/appStore';
+
+const record = (id: string, measurementType: GrowthRecord['measurementType'], ageMonths: number, value = 1): GrowthRecord => ({
+  id, patientId: 'p1', date: '2023-01-01', ageMonths, measurementType, value, unit: measurementType === 'Weight' ? 'kg' : 'cm',
+});
+// Records with their Z-scores, as [record, zScore] pairs
+const assess = (pairs: [GrowthRecord, number][]) => evaluateGrowthAlerts(
+  pairs.map(([r]) => r),
+  Object.fromEntries(pairs.map(([r, zScore]) => [r.id, { zScore }]))
+);
+
+describe('alerts', () => {
+  describe('countCentileLinesCrossed', () => {
+    it('should count the major centile lines between two Z-scores', () => {
+      expect(countCentileLinesCrossed(0.1, -1.5)).toBe(3); // 50th, 25th and 9th
+      expect(countCentileLinesCrossed(-1.5, 0.1)).toBe(3);
+      expect(countCentileLinesCrossed(0.1, 0.5)).toBe(0);
+    });
+  });
+
+  describe('getFalteringThresholdSpaces', () => {
+    it('should depend on the birth weight centile', () => {
+      expect(getFalteringThresholdSpaces(-1.5)).toBe(1);
+      expect(getFalteringThresholdSpaces(0)).toBe(2);
+      expect(getFalteringThresholdSpaces(1.5)).toBe(3);
+    });
+  });
+
+  describe('centile crossing', () => {
+    it('should alert when a measurement crosses two major centile lines', () => {
+      const alerts = assess([[record('l12', 'Length', 12), 0.5], [record('l18', 'Length', 18), 0.3], [record('h24', 'Height', 24), -1.0]]);
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0]).toMatchObject({ type: 'centile-crossing', measurementType: 'Height', recordId: 'h24', fromRecordId: 'l12', severity: 'warning' });
+      expect(alerts[0].message).toBe('Length/height has crossed 2 major centile lines downwards since 12.0 months (69 to 16).');
+    });
+
+    it('should not alert for a single line', () => {
+      expect(assess([[record('hc6', 'HeadCircumference', 6), 0.1], [record('hc12', 'HeadCircumference', 12), -0.5]])).toEqual([]);
+    });
+  });
+
+  describe('weight faltering', () => {
+    it('should alert on a fall from birth weight past the NICE threshold', () => {
+      const alerts = assess([[record('w0', 'Weight', 0, 3.5), 0], [record('w2', 'Weight', 2, 4.5), -1.5]]);
+      const faltering = alerts.filter(alert => alert.type === 'weight-faltering');
+      expect(faltering).toHaveLength(1);
+      expect(faltering[0]).toMatchObject({ recordId: 'w2', fromRecordId: 'w0', severity: 'concern' });
+      expect(faltering[0].message).toContain('fallen 2.3 centile spaces since birth');
+    });
+
+    it('should use a lower threshold for small babies', () => {
+      expect(assess([[record('w0', 'Weight', 0, 2.5), -1.5], [record('w2', 'Weight', 2, 4), -1.9]])).toEqual([]);
+      const alerts = assess([[record('w0', 'Weight', 0, 2.5), -1.5], [record('w2', 'Weight', 2, 4), -2.3]]);
+      expect(alerts.map(alert => alert.message)).toEqual(['Weight has fallen 1.2 centile spaces since birth (7 to 1); the threshold for this birth weight is 1.']);
+    });
+
+    it('should alert below the 2nd centile without a birth weight', () => {
+      const alerts = assess([[record('w6', 'Weight', 6, 6), -2.3]]);
+      expect(alerts).toMatchObject([{ type: 'weight-faltering', recordId: 'w6', message: 'Weight is below the 2nd centile (1).' }]);
+      expect(alerts[0].fromRecordId).toBeUndefined();
+    });
+
+    it('should alert on a newborn losing 10% of birth weight', () => {
+      const alerts = evaluateGrowthAlerts([record('w0', 'Weight', 0, 3.5), record('w1', 'Weight', 0.3, 3.1)], {});
+      expect(alerts.map(alert => alert.message)).toEqual(['Weight is 11% below birth weight.']);
+    });
+  });
+
+  describe('rapid BMI rise', () => {
+    it('should alert on a rise of a centile space within a year', () => {
+      const alerts = assess([[record('b60', 'BMI', 60), 0], [record('b66', 'BMI', 66), 0.8]]);
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0]).toMatchObject({ type: 'rapid-bmi-rise', recordId: 'b66', fromRecordId: 'b60' });
+      expect(assess([[record('b60', 'BMI', 60), 0], [record('b84', 'BMI', 84), 0.8]])).toEqual([]);
+    });
+  });
+
+  describe('getLatestAlerts', () => {
+    it('should keep the latest alert of each type and measurement', () => {
+      const alert = (type: GrowthAlert['type'], measurementType: GrowthAlert['measurementType'], ageMonths: number) =>
+        ({ type, measurementType, ageMonths, recordId: `${type}-${ageMonths}`, severity: 'warning', message: '' } as GrowthAlert);
+      const alerts = [alert('centile-crossing', 'Weight', 12), alert('centile-crossing', 'Weight', 18), alert('centile-crossing', 'Height', 12), alert('rapid-bmi-rise', 'BMI', 60)];
+      expect(getLatestAlerts(alerts).map(a => a.recordId)).toEqual(['rapid-bmi-rise-60', 'centile-crossing-18', 'centile-crossing-12']);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { getBoneAgeMonths, formatYearsMonths, getSkeletalMaturity, predictAdultHeightFromBoneAge } from '../boneAge';
+import type { BayleyPinneauTable } from '../boneAge';
+import type { GrowthRecord } from '../../store/appStore';
+
+const record = (measurementType: GrowthRecord['measurementType'], ageMonths: number, value: number, unit: GrowthRecord['unit']): GrowthRecord => ({
+  id: `${measurementType}-${ageMonths}`, patientId: 'p1', date: '2023-01-01', ageMonths, measurementType, value, unit,
+});
+
+describe('boneAge', () => {
+  describe('getBoneAgeMonths', () => {
+    it('should read bone age entered in years or months', () => {
+      expect(getBoneAgeMonths(record('BoneAge', 120, 10.5, 'years'))).toBe(126);
+      expect(getBoneAgeMonths(record('BoneAge', 120, 126, 'months'))).toBe(126);
+    });
+
+    it('should return NaN for other records or unknown units', () => {
+      expect(getBoneAgeMonths(record('Height', 120, 140, 'cm'))).toBeNaN();
+      expect(getBoneAgeMonths(record('BoneAge', 120, 10, 'weeks'))).toBeNaN();
+    });
+  });
+
+  describe('formatYearsMonths', () => {
+    it('should format months as years and months', () => {
+      expect(formatYearsMonths(130)).toBe('10y 10m');
+      expect(formatYearsMonths(11.6)).toBe('1y 0m');
+    });
+  });
+
+  describe('getSkeletalMaturity', () => {
+    it('should compare bone age with chronological age', () => {
+      expect(getSkeletalMaturity(144, 144)).toBe('average');
+      expect(getSkeletalMaturity(155, 144)).toBe('average');
+      expect(getSkeletalMaturity(156, 144)).toBe('accelerated');
+      expect(getSkeletalMaturity(132, 144)).toBe('retarded');
+    });
+  });
+
+  describe('predictAdultHeightFromBoneAge', () => {
+    // Fixture tables; the real ones are installed by the deployment
+    const tables: BayleyPinneauTable[] = [
+      { sex: 'male', maturity: 'average', rows: [{ boneAgeYears: 11, percentOfAdultHeight: 80 }, { boneAgeYears: 12, percentOfAdultHeight: 84 }, { boneAgeYears: 13, percentOfAdultHeight: 87.5 }] },
+      { sex: 'male', maturity: 'accelerated', rows: [{ boneAgeYears: 12, percentOfAdultHeight: 82 }, { boneAgeYears: 13, percentOfAdultHeight: 86 }] },
+      { sex: 'male', maturity: 'retarded', rows: [{ boneAgeYears: 10, percentOfAdultHeight: 79 }, { boneAgeYears: 11, percentOfAdultHeight: 82 }] },
+      { sex: 'female', maturity: 'average', rows: [{ boneAgeYears: 10, percentOfAdultHeight: 86 }, { boneAgeYears: 11, percentOfAdultHeight: 89.5 }] },
+    ];
+
+    it('should divide height by the percent of adult height reached at the bone age', () => {
+      const records = [record('Height', 144, 145, 'cm'), record('BoneAge', 144, 12, 'years')];
+      expect(predictAdultHeightFromBoneAge(records, { sex: 'Male' }, tables)).toMatchObject({ predictedHeightCm: 172.6, maturity: 'average' });
+    });
+
+    it('should interpolate between tabulated bone ages', () => {
+      const records = [record('Height', 147.5, 150, 'cm'), record('BoneAge', 147, 150, 'months')];
+      // Halfway between the 12 and 13 year rows: 150 / 0.8575
+      expect(predictAdultHeightFromBoneAge(records, { sex: 'Male' }, tables)?.predictedHeightCm).toBe(174.9);
+    });
+
+    it('should use the table for the sex and skeletal maturity', () => {
+      expect(predictAdultHeightFromBoneAge([record('Height', 144, 150, 'cm'), record('BoneAge', 144, 13, 'years')], { sex: 'Male' }, tables))
+        .toMatchObject({ predictedHeightCm: 174.4, maturity: 'accelerated' });
+      expect(predictAdultHeightFromBoneAge([record('Height', 132, 138, 'cm'), record('BoneAge', 132, 10, 'years')], { sex: 'Male' }, tables))
+        .toMatchObject({ predictedHeightCm: 174.7, maturity: 'retarded' });
+      expect(predictAdultHeightFromBoneAge([record('Height', 120, 140, 'cm'), record('BoneAge', 120, 120, 'months')], { sex: 'Female' }, tables)?.predictedHeightCm).toBe(162.8);
+    });
+
+    it('should use the latest bone age and the height closest to it', () => {
+      const records = [
+        record('BoneAge', 100, 8, 'years'), record('Height', 143, 140, 'cm'), record('Height', 144.5, 145, 'cm'),
+        record('BoneAge', 144, 12, 'years'), record('Weight', 144, 40, 'kg'),
+      ];
+      const prediction = predictAdultHeightFromBoneAge(records, { sex: 'Male' }, tables);
+      expect(prediction?.boneAgeRecord.ageMonths).toBe(144);
+      expect(prediction?.heightRecord.value).toBe(145);
+    });
+
+    it('should convert imperial heights', () => {
+      const records = [record('Height', 144, 145 / 2.54, 'in'), record('BoneAge', 144, 12, 'years')];
+      expect(predictAdultHeightFromBoneAge(records, { sex: 'Male' }, tables)?.predictedHeightCm).toBe(172.6);
+    });
+
+    it('should return null when no prediction can be made', () => {
+      expect(predictAdultHeightFromBoneAge([record('Height', 144, 145, 'cm')], { sex: 'Male' }, tables)).toBeNull();
+      expect(predictAdultHeightFromBoneAge([record('Height', 140, 145, 'cm'), record('BoneAge', 144, 12, 'years')], { sex: 'Male' }, tables)).toBeNull();
+      expect(predictAdultHeightFromBoneAge([record('Height', 36, 95, 'cm'), record('BoneAge', 36, 3, 'years')], { sex: 'Male' }, tables)).toBeNull();
+      expect(predictAdultHeightFromBoneAge([record('Height', 120, 140, 'cm'), record('BoneAge', 120, 11, 'years')], { sex: 'Female' }, tables)).toBeNull(); // No accelerated table
+      expect(predictAdultHeightFromBoneAge([record('Height', 144, 145, 'cm'), record('BoneAge', 144, 12, 'years')], { sex: 'Unknown' }, tables)).toBeNull();
+    });
+  });
+});
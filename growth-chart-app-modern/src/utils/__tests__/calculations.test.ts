@@ -1,4 +1,5 @@
-import { calculateBMI, calculateAnnualizedVelocity, generateVelocityDataSeries, VelocityDataPoint, calculateAgeInMonths } from '../calculations';
+import { calculateBMI, calculateAnnualizedVelocity, generateVelocityDataSeries, calculateAgeInMonths, formatAge, hasAgeDateMismatch, calculateCorrectedAgeInMonths, gestationalAgeFromEDD, getAgeForAssessment, isPreterm, pairRecordsByVisit, calculateMidParentalHeight, calculateTargetHeight } from '../calculations';
+import * as legacySamplePatient from '../../../../fixtures/sample-patient.json';
 import { GrowthRecord } from '../../store/appStore'; // Import GrowthRecord type for mock
 
 describe('BMI Calculator', () => {
@@ -68,6 +69,137 @@ describe('calculateAgeInMonths', () => {
 });
 
 
+describe('formatAge', () => {
+  it('should format ages in years and months', () => {
+    expect(formatAge(15)).toBe('1 year 3 months');
+    expect(formatAge(24.5)).toBe('2 years');
+    expect(formatAge(1)).toBe('1 month');
+    expect(formatAge(61)).toBe('5 years 1 month');
+  });
+
+  it('should give ages under a month in days', () => {
+    expect(formatAge(0.5)).toBe('15 days');
+    expect(formatAge(0)).toBe('0 days');
+  });
+
+  it('should handle unknown ages', () => {
+    expect(formatAge(NaN)).toBe('Unknown');
+  });
+});
+
+describe('hasAgeDateMismatch', () => {
+  it('should flag records whose stored age disagrees with their date', () => {
+    expect(hasAgeDateMismatch({ ageMonths: 6, date: '2023-01-01' }, '2022-01-01')).toBe(true);
+  });
+
+  it('should not flag records within tolerance', () => {
+    expect(hasAgeDateMismatch({ ageMonths: 12, date: '2023-01-01' }, '2022-01-01')).toBe(false);
+    expect(hasAgeDateMismatch({ ageMonths: 12.05, date: '2023-01-01' }, '2022-01-01')).toBe(false);
+  });
+
+  it('should not flag records when the age cannot be computed', () => {
+    expect(hasAgeDateMismatch({ ageMonths: 6, date: '2023-01-01' }, 'Unknown')).toBe(false);
+  });
+});
+
+describe('Gestational age correction', () => {
+  describe('calculateCorrectedAgeInMonths', () => {
+    it('should subtract the weeks born before term from chronological age', () => {
+      // 28+0 weeks -> 12 weeks early = 84 days = 84 / 30.4375 = 2.76 months
+      expect(calculateCorrectedAgeInMonths(6, 28)).toBeCloseTo(3.24, 2);
+      // 32+3 weeks -> 7 weeks 4 days early = 53 days = 1.74 months
+      expect(calculateCorrectedAgeInMonths(12, 32, 3)).toBeCloseTo(10.26, 2);
+    });
+
+    it('should return a negative age before the baby reaches term', () => {
+      expect(calculateCorrectedAgeInMonths(1, 28)).toBeLessThan(0);
+    });
+
+    it('should not correct term or post-term babies', () => {
+      expect(calculateCorrectedAgeInMonths(6, 40)).toBe(6);
+      expect(calculateCorrectedAgeInMonths(6, 42)).toBe(6);
+    });
+
+    it('should return NaN for invalid input', () => {
+      expect(calculateCorrectedAgeInMonths(NaN, 30)).toBeNaN();
+      expect(calculateCorrectedAgeInMonths(6, 0)).toBeNaN();
+    });
+  });
+
+  describe('isPreterm', () => {
+    it('should flag births before 37 completed weeks', () => {
+      expect(isPreterm(36, 6)).toBe(true);
+      expect(isPreterm(37)).toBe(false);
+      expect(isPreterm(undefined)).toBe(false);
+    });
+  });
+
+  describe('getAgeForAssessment', () => {
+    const pretermPatient = { gestationalAgeWeeks: 30, gestationalAgeDays: 0 };
+
+    it('should use corrected age for preterm infants before the cut-off', () => {
+      const result = getAgeForAssessment(10, pretermPatient, 24);
+      expect(result.isCorrected).toBe(true);
+      expect(result.ageMonths).toBeCloseTo(7.70, 2); // 70 days / 30.4375 = 2.30 months
+    });
+
+    it('should use chronological age at or after the cut-off', () => {
+      expect(getAgeForAssessment(24, pretermPatient, 24)).toEqual({ ageMonths: 24, isCorrected: false });
+      expect(getAgeForAssessment(13, pretermPatient, 12)).toEqual({ ageMonths: 13, isCorrected: false });
+    });
+
+    it('should use chronological age for term infants or unknown gestation', () => {
+      expect(getAgeForAssessment(5, { gestationalAgeWeeks: 39 })).toEqual({ ageMonths: 5, isCorrected: false });
+      expect(getAgeForAssessment(5, {})).toEqual({ ageMonths: 5, isCorrected: false });
+      expect(getAgeForAssessment(5, null)).toEqual({ ageMonths: 5, isCorrected: false });
+    });
+  });
+
+  describe('gestationalAgeFromEDD', () => {
+    it('should derive gestation from the legacy sample patient EDD', () => {
+      // Born 2011-09-16, due 2011-12-07: 82 days early -> 198 days -> 28+2 weeks
+      const { birthday, EDD } = legacySamplePatient.demographics;
+      expect(gestationalAgeFromEDD(birthday, EDD)).toEqual({ weeks: 28, days: 2 });
+    });
+
+    it('should return 40+0 when born on the due date', () => {
+      expect(gestationalAgeFromEDD('2023-01-01', '2023-01-01')).toEqual({ weeks: 40, days: 0 });
+    });
+
+    it('should return null for invalid dates', () => {
+      expect(gestationalAgeFromEDD('invalid-date', '2023-01-01')).toBeNull();
+    });
+  });
+});
+
+
+describe('Mid-parental height', () => {
+  describe('calculateMidParentalHeight', () => {
+    it('should adjust the parental mean by 6.5 cm for the child\'s sex', () => {
+      expect(calculateMidParentalHeight(180, 165, 'Male')).toBe(179);
+      expect(calculateMidParentalHeight(180, 165, 'Female')).toBe(166);
+    });
+
+    it('should return NaN for missing heights or an unspecified sex', () => {
+      expect(calculateMidParentalHeight(0, 165, 'Male')).toBeNaN();
+      expect(calculateMidParentalHeight(NaN, 165, 'Female')).toBeNaN();
+      expect(calculateMidParentalHeight(180, 165, 'Unknown')).toBeNaN();
+    });
+  });
+
+  describe('calculateTargetHeight', () => {
+    it('should give a range of 8.5 cm either side of the mid-parental height', () => {
+      expect(calculateTargetHeight({ sex: 'Female', fatherHeightCm: 175.5, motherHeightCm: 160 })).toEqual({ midParentalHeightCm: 161.3, lowerCm: 152.8, upperCm: 169.8 });
+    });
+
+    it('should return null when a parent\'s height is unknown', () => {
+      expect(calculateTargetHeight({ sex: 'Male', fatherHeightCm: 180 })).toBeNull();
+      expect(calculateTargetHeight({ sex: 'Other', fatherHeightCm: 180, motherHeightCm: 165 })).toBeNull();
+    });
+  });
+});
+
+
 // Mock GrowthRecord type for testing velocity functions
 const mockGrowthRecord = (
     ageMonths: number,
@@ -207,5 +339,52 @@ describe('Growth Velocity Calculator', () => {
       expect(series[0].velocity).toBeCloseTo(11.6);
       expect(series[0].ageMonthsMidPoint).toBe(13.5);
     });
+
+    it('should tag each interval with the Tanner stage at its midpoint', () => {
+      const records = [mockGrowthRecord(132, 140), mockGrowthRecord(138, 143), mockGrowthRecord(144, 147)];
+      const pubertyRecords: GrowthRecord[] = [
+        { ...mockGrowthRecord(136, 2, 'Height'), measurementType: 'TannerStage', unit: 'stage' },
+      ];
+      const series = generateVelocityDataSeries(records, pubertyRecords);
+      expect(series.map(v => v.pubertyStage)).toEqual([undefined, 2]);
+      expect(generateVelocityDataSeries(records)[1]).not.toHaveProperty('pubertyStage');
+    });
+
+    it('should not annualize intervals shorter than the minimum', () => {
+      const records = [mockGrowthRecord(120, 130), mockGrowthRecord(121, 131), mockGrowthRecord(126, 133)];
+      const series = generateVelocityDataSeries(records, [], { minIntervalMonths: 4 });
+      expect(series).toHaveLength(1); // 120-121 is too short; 126 pairs with 121, the latest record 4+ months before it
+      expect(series[0].intervalMonths).toBe(5);
+      expect(series[0].velocity).toBeCloseTo(4.8);
+    });
+
+    it('should use the interval closest to the window', () => {
+      const records = [0, 4, 8, 11, 16].map(i => mockGrowthRecord(120 + i, 130 + i / 2));
+      const series = generateVelocityDataSeries(records, [], { minIntervalMonths: 4, windowMonths: 12 });
+      expect(series.map(v => v.intervalMonths)).toEqual([4, 8, 11, 12]);
+      expect(series[3].ageMonthsMidPoint).toBe(130);
+      expect(series.every(v => v.velocity === 6)).toBe(true);
+    });
+  });
+});
+
+describe('pairRecordsByVisit', () => {
+  const record = (id: string, date: string, measurementType: GrowthRecord['measurementType'], value: number): GrowthRecord => ({
+    id, patientId: 'test-patient', date, ageMonths: 12, measurementType, value, unit: measurementType === 'Weight' ? 'kg' : 'cm',
+  });
+
+  it('should pair each weight with the length measured on the same day', () => {
+    const records = [
+      record('w1', '2024-01-10', 'Weight', 9.5), record('l1', '2024-01-10T09:30:00Z', 'Length', 74),
+      record('w2', '2024-04-10', 'Weight', 10.2), record('l2', '2024-04-10', 'Length', 77),
+      record('h1', '2024-04-10', 'Height', 76.5),
+    ];
+    const pairs = pairRecordsByVisit(records, 'Weight', 'Length');
+    expect(pairs.map(p => [p.record.id, p.xRecord.id])).toEqual([['w1', 'l1'], ['w2', 'l2']]);
+  });
+
+  it('should leave out records without a same-day partner', () => {
+    const records = [record('w1', '2024-01-10', 'Weight', 9.5), record('l1', '2024-01-11', 'Length', 74)];
+    expect(pairRecordsByVisit(records, 'Weight', 'Length')).toEqual([]);
   });
 });
@@ -0,0 +1,40 @@
+import { isGrowthConditionCode, getConditionLabel, parseConditionCodes, getPatientConditions } from '../conditions';
+
+describe('conditions', () => {
+  describe('isGrowthConditionCode', () => {
+    it('should recognise known codes only', () => {
+      expect(isGrowthConditionCode('down_syndrome')).toBe(true);
+      expect(isGrowthConditionCode('Down syndrome')).toBe(false);
+      expect(isGrowthConditionCode('')).toBe(false);
+    });
+  });
+
+  describe('getConditionLabel', () => {
+    it('should return the display label, or the code if unknown', () => {
+      expect(getConditionLabel('turner_syndrome')).toBe('Turner syndrome');
+      expect(getConditionLabel('unknown_code')).toBe('unknown_code');
+    });
+  });
+
+  describe('parseConditionCodes', () => {
+    it('should recognise condition names and aliases in free text', () => {
+      expect(parseConditionCodes('Trisomy 21')).toEqual(['down_syndrome']);
+      expect(parseConditionCodes("Down's Syndrome")).toEqual(['down_syndrome']);
+      expect(parseConditionCodes('turner_syndrome')).toEqual(['turner_syndrome']);
+      expect(parseConditionCodes('Achondroplasia; suspected Noonan syndrome')).toEqual(['noonan_syndrome', 'achondroplasia']);
+    });
+
+    it('should return no codes for unrelated or missing text', () => {
+      expect(parseConditionCodes('Asthma')).toEqual([]);
+      expect(parseConditionCodes(undefined)).toEqual([]);
+    });
+  });
+
+  describe('getPatientConditions', () => {
+    it('should merge coded conditions with those named in the free-text condition', () => {
+      expect(getPatientConditions({ conditions: ['achondroplasia'], condition: 'Down syndrome' })).toEqual(['down_syndrome', 'achondroplasia']);
+      expect(getPatientConditions({ conditions: ['turner_syndrome'], condition: 'Turner syndrome' })).toEqual(['turner_syndrome']);
+      expect(getPatientConditions({})).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { fetchAllPages, fetchGrowthObservations, mapObservationToGrowthRecord, mapGrowthRecordToObservation, canWriteGrowthRecordToFHIR, getGrowthMeasurementType, normalizeFHIRUnit, GROWTH_CODE_SEARCH_PARAM, LOINC_SYSTEM, SNOMED_SYSTEM } from '../fhirObservations';
+import type { FHIRBundle, FHIRObservation } from '../fhirObservations';
+import type { GrowthRecord } from '../../store/appStore';
+import * as page1 from '../../../../fixtures/fhir-growth-observations-page1.json';
+import * as page2 from '../../../../fixtures/fhir-growth-observations-page2.json';
+
+// Recorded search result: two pages linked by `next`
+const pages: Record<string, FHIRBundle> = {
+  'Observation?patient=123': page1 as unknown as FHIRBundle,
+  [page1.link.find(link => link.relation === 'next')!.url]: page2 as unknown as FHIRBundle,
+};
+const request = jest.fn((url: string) => pages[url] ? Promise.resolve(pages[url]) : Promise.reject(new Error(`Unexpected request: ${url}`)));
+const patient = { id: 'FHIR-123', dob: '2023-01-01' };
+
+describe('fhirObservations', () => {
+  beforeEach(() => request.mockClear());
+
+  describe('fetchAllPages', () => {
+    it('should follow next links until the last page', async () => {
+      const resources = await fetchAllPages<{ resourceType: string; id?: string }>(request, 'Observation?patient=123');
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(resources.map(r => r.id ?? r.resourceType)).toEqual(['wt-1', 'len-1', 'wt-err', 'hc-1', 'panel-1', 'len-cancelled', 'len-2', 'OperationOutcome']);
+    });
+
+    it('should stop after the page limit', async () => {
+      const loop: FHIRBundle = { resourceType: 'Bundle', link: [{ relation: 'next', url: 'loop' }], entry: [] };
+      const requestLoop = jest.fn(() => Promise.resolve(loop));
+      await expect(fetchAllPages(requestLoop, 'loop', 3)).resolves.toEqual([]);
+      expect(requestLoop).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('mapObservationToGrowthRecord', () => {
+    const importRecords = async () => (await fetchAllPages<FHIRObservation>(request, 'Observation?patient=123'))
+      .filter(obs => obs.resourceType === 'Observation')
+      .map(obs => mapObservationToGrowthRecord(obs, patient))
+      .filter((record): record is GrowthRecord => record !== null);
+
+    it('should import the growth measurements of a recorded search', async () => {
+      const records = await importRecords();
+      expect(records.map(r => [r.id, r.measurementType, r.date, r.value, r.unit])).toEqual([
+        ['FHIR-wt-1', 'Weight', '2023-03-15', 6.2, 'kg'],
+        ['FHIR-len-1', 'Length', '2023-03-15', 61.5, 'cm'],         // LOINC is the second coding
+        ['FHIR-hc-1', 'HeadCircumference', '2023-06-20', 42.1, 'cm'], // effectivePeriod
+        ['FHIR-panel-1', 'Weight', '2023-09-18', 8.4, 'kg'],         // Weight component of a vital signs panel
+        ['FHIR-len-2', 'Length', '2023-09-18', 28.2, 'in'],
+      ]);
+      expect(records.every(r => r.patientId === 'FHIR-123' && r.isFHIRRecord)).toBe(true);
+      expect(records[0].ageMonths).toBeCloseTo(2.46, 2);
+    });
+
+    it('should skip entered-in-error and cancelled observations', () => {
+      const obs: FHIRObservation = {
+        resourceType: 'Observation', id: 'x', status: 'entered-in-error', effectiveDateTime: '2023-03-15',
+        code: { coding: [{ system: LOINC_SYSTEM, code: '29463-7' }] }, valueQuantity: { value: 6, unit: 'kg' },
+      };
+      expect(mapObservationToGrowthRecord(obs, patient)).toBeNull();
+      expect(mapObservationToGrowthRecord({ ...obs, status: 'cancelled' }, patient)).toBeNull();
+      expect(mapObservationToGrowthRecord({ ...obs, status: 'preliminary' }, patient)).not.toBeNull();
+    });
+
+    it('should use the end of a period without a start', () => {
+      const obs: FHIRObservation = {
+        resourceType: 'Observation', id: 'x', effectivePeriod: { end: '2023-04-01T08:00:00Z' },
+        code: { coding: [{ system: SNOMED_SYSTEM, code: '27113001' }] }, valueQuantity: { value: 6, unit: 'kg' },
+      };
+      expect(mapObservationToGrowthRecord(obs, patient)?.date).toBe('2023-04-01');
+      expect(mapObservationToGrowthRecord({ ...obs, effectivePeriod: undefined }, patient)).toBeNull();
+    });
+
+    it('should skip observations without a growth code or value', () => {
+      const obs: FHIRObservation = {
+        resourceType: 'Observation', id: 'x', effectiveDateTime: '2023-03-15',
+        code: { coding: [{ system: LOINC_SYSTEM, code: '8867-4' }] }, valueQuantity: { value: 120, unit: '/min' },
+      };
+      expect(mapObservationToGrowthRecord(obs, patient)).toBeNull();
+      expect(mapObservationToGrowthRecord({ ...obs, code: { coding: [{ system: LOINC_SYSTEM, code: '29463-7' }] }, valueQuantity: undefined }, patient)).toBeNull();
+    });
+  });
+
+  describe('mapGrowthRecordToObservation', () => {
+    const record: GrowthRecord = { id: 'r1', patientId: 'FHIR-123', date: '2023-09-18', ageMonths: 8.5, measurementType: 'Length', value: 28.2, unit: 'in' };
+
+    it('should round-trip through the import mapping', () => {
+      const obs = mapGrowthRecordToObservation(record, '123')!;
+      expect(obs.subject).toEqual({ reference: 'Patient/123' });
+      expect(obs.code?.coding).toEqual([
+        { system: LOINC_SYSTEM, code: '8302-2', display: 'Body height' },
+        { system: LOINC_SYSTEM, code: '8306-3', display: 'Body height --lying' },
+      ]);
+      expect(obs.valueQuantity).toEqual({ value: 28.2, unit: 'in', system: 'http://unitsofmeasure.org', code: '[in_i]' });
+      expect(mapObservationToGrowthRecord({ ...obs, id: 'new' }, patient)).toMatchObject({ measurementType: 'Length', date: '2023-09-18', value: 28.2, unit: 'in' });
+    });
+
+    it('should not map measurements that are not vital signs or not in a UCUM unit', () => {
+      expect(mapGrowthRecordToObservation({ ...record, measurementType: 'BMI', unit: 'kg/m²' }, '123')).toBeNull();
+      expect(mapGrowthRecordToObservation({ ...record, measurementType: 'Other', unit: 'cm' }, '123')).toBeNull();
+      expect(canWriteGrowthRecordToFHIR({ measurementType: 'Weight', unit: 'stone' })).toBe(false);
+      expect(canWriteGrowthRecordToFHIR({ measurementType: 'HeadCircumference', unit: 'cm' })).toBe(true);
+    });
+  });
+
+  describe('getGrowthMeasurementType', () => {
+    it('should match codes only within their system', () => {
+      expect(getGrowthMeasurementType([{ system: SNOMED_SYSTEM, code: '363812007' }])).toBe('HeadCircumference');
+      expect(getGrowthMeasurementType([{ system: SNOMED_SYSTEM, code: '29463-7' }])).toBeUndefined();
+      expect(getGrowthMeasurementType([{ code: '29463-7' }])).toBeUndefined();
+    });
+
+    it('should read a height also coded as lying as a length', () => {
+      expect(getGrowthMeasurementType([{ system: LOINC_SYSTEM, code: '8302-2' }, { system: LOINC_SYSTEM, code: '8306-3' }])).toBe('Length');
+      expect(getGrowthMeasurementType([{ system: LOINC_SYSTEM, code: '8302-2' }])).toBe('Height');
+    });
+  });
+
+  describe('normalizeFHIRUnit', () => {
+    it('should map UCUM and spelled-out units to the app units', () => {
+      expect(normalizeFHIRUnit({ code: '[lb_av]' })).toBe('lbs');
+      expect(normalizeFHIRUnit({ unit: 'Centimeters' })).toBe('cm');
+      expect(normalizeFHIRUnit({ unit: 'kg/m2' })).toBe('kg/m²');
+    });
+
+    it('should prefer the UCUM code to the display unit', () => {
+      expect(normalizeFHIRUnit({ unit: 'grams', code: 'g' })).toBe('g');
+      expect(normalizeFHIRUnit({ unit: 'oz', code: '[oz_av]' })).toBe('oz');
+      expect(normalizeFHIRUnit({ unit: 'Meters', code: 'm' })).toBe('m');
+      expect(normalizeFHIRUnit({ unit: 'mo', code: 'mo' })).toBe('months');
+      expect(normalizeFHIRUnit({ unit: 'score' })).toBe('score');
+    });
+  });
+
+  describe('fetchGrowthObservations', () => {
+    const weight: FHIRObservation = { resourceType: 'Observation', id: 'wt-1', code: { coding: [{ system: LOINC_SYSTEM, code: '29463-7' }] } };
+    const panel: FHIRObservation = {
+      resourceType: 'Observation', id: 'vs-1', code: { coding: [{ system: LOINC_SYSTEM, code: '85353-1' }] },
+      component: [{ code: { coding: [{ system: LOINC_SYSTEM, code: '8302-2' }] }, valueQuantity: { value: 90, code: 'cm' } }],
+    };
+    const bundle = (...observations: FHIRObservation[]): FHIRBundle => ({ resourceType: 'Bundle', entry: observations.map(resource => ({ resource })) });
+
+    it('should also find measurements inside panels, each observation once', async () => {
+      const requestSearch = jest.fn((url: string) => Promise.resolve(url.includes('&component-code=') ? bundle(panel, weight) : bundle(weight)));
+      const observations = await fetchGrowthObservations(requestSearch, '123');
+      expect(requestSearch).toHaveBeenCalledWith(`Observation?patient=123&code=${encodeURIComponent(GROWTH_CODE_SEARCH_PARAM)}&_sort=date&_count=100`);
+      expect(requestSearch).toHaveBeenCalledWith(`Observation?patient=123&component-code=${encodeURIComponent(GROWTH_CODE_SEARCH_PARAM)}&_sort=date&_count=100`);
+      expect(observations.map(obs => obs.id)).toEqual(['wt-1', 'vs-1']);
+    });
+  });
+
+  it('should search for both LOINC and SNOMED codes', () => {
+    expect(GROWTH_CODE_SEARCH_PARAM).toContain('http://loinc.org|29463-7');
+    expect(GROWTH_CODE_SEARCH_PARAM).toContain('http://snomed.info/sct|27113001');
+  });
+});
@@ -0,0 +1,62 @@
+import { buildPatientSearchUrl, getFHIRPatientName, mapFHIRGender, searchFHIRPatients, summarizeFHIRPatient } from '../fhirPatients';
+import type { FHIRPatient } from '../fhirPatients';
+import type { FHIRBundle } from '../fhirObservations';
+
+describe('fhirPatients', () => {
+  const patient: FHIRPatient = {
+    resourceType: 'Patient', id: 'p1', birthDate: '2020-04-02', gender: 'female',
+    name: [{ use: 'nickname', given: ['Mimi'] }, { use: 'official', given: ['Amelia', 'Rose'], family: 'Smith' }],
+    identifier: [{ type: { coding: [{ code: 'MR' }] }, value: '12345' }, { system: 'urn:example', value: 'X-9' }, { system: 'urn:empty' }],
+  };
+
+  describe('buildPatientSearchUrl', () => {
+    it('should search on the criteria given, encoded', () => {
+      expect(buildPatientSearchUrl({ name: ' Smith ', birthdate: '', identifier: 'urn:mrn|12345' }))
+        .toBe('Patient?name=Smith&identifier=urn%3Amrn%7C12345&_count=20');
+      expect(buildPatientSearchUrl({ birthdate: '2020-04-02' })).toBe('Patient?birthdate=2020-04-02&_count=20');
+    });
+
+    it('should not search without criteria', () => {
+      expect(buildPatientSearchUrl({ name: '  ' })).toBeNull();
+    });
+  });
+
+  it('should prefer the official name', () => {
+    expect(getFHIRPatientName(patient)).toBe('Amelia Rose Smith');
+    expect(getFHIRPatientName({ name: [{ text: 'Baby Boy Jones' }] })).toBe('Baby Boy Jones');
+    expect(getFHIRPatientName({})).toBe('Unknown FHIR Patient');
+  });
+
+  it('should map FHIR genders', () => {
+    expect(mapFHIRGender('male')).toBe('Male');
+    expect(mapFHIRGender('unknown')).toBe('Unknown');
+    expect(mapFHIRGender(undefined)).toBe('Unknown');
+  });
+
+  it('should summarize demographics and identifiers', () => {
+    expect(summarizeFHIRPatient(patient)).toEqual({
+      id: 'p1', name: 'Amelia Rose Smith', birthDate: '2020-04-02', sex: 'Female', identifiers: ['MR 12345', 'X-9'],
+    });
+  });
+
+  describe('searchFHIRPatients', () => {
+    it('should return the patients of the first page and whether there are more', async () => {
+      const bundle: FHIRBundle = {
+        resourceType: 'Bundle',
+        link: [{ relation: 'self', url: 'Patient?name=Smith' }, { relation: 'next', url: 'Patient?name=Smith&page=2' }],
+        entry: [{ resource: patient }, { resource: { resourceType: 'OperationOutcome' } }],
+      };
+      const request = jest.fn().mockResolvedValue(bundle);
+      const results = await searchFHIRPatients(request, { name: 'Smith' });
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(results.patients.map(p => p.id)).toEqual(['p1']);
+      expect(results.hasMore).toBe(true);
+    });
+
+    it('should not send a search without criteria', async () => {
+      const request = jest.fn();
+      await expect(searchFHIRPatients(request, {})).resolves.toEqual({ patients: [], hasMore: false });
+      expect(request).not.toHaveBeenCalled();
+    });
+  });
+});
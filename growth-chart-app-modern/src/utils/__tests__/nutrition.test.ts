@@ -0,0 +1,92 @@
+import { classifyNutritionIndicator, classifyNutritionalStatus, getWeightStatus } from '../nutrition';
+import type { RecordZScore } from '../referenceData';
+import type { GrowthRecord } from '../../store/appStore';
+
+const who = { id: 'who_chart', name: 'WHO Chart', source: 'WHO' };
+const cdc = { id: 'cdc_chart', name: 'CDC Chart', source: 'CDC' };
+const zScore = (z: number, reference = who, extra: Partial<RecordZScore> = {}): RecordZScore => ({ zScore: z, reference, ...extra });
+const record = (id: string, measurementType: GrowthRecord['measurementType'], ageMonths: number): GrowthRecord => ({
+  id, patientId: 'p1', date: '2023-01-01', ageMonths, measurementType, value: 1, unit: measurementType === 'Weight' ? 'kg' : 'cm',
+});
+
+describe('nutrition', () => {
+  describe('classifyNutritionIndicator', () => {
+    it('should classify stunting and underweight by WHO Z-score cut-offs', () => {
+      expect(classifyNutritionIndicator('height-for-age', zScore(-3.2), 24)?.category).toBe('Severely stunted');
+      expect(classifyNutritionIndicator('height-for-age', zScore(-2.5), 24)?.category).toBe('Stunted');
+      expect(classifyNutritionIndicator('height-for-age', zScore(-1.9), 24)).toEqual({ system: 'WHO', category: 'Normal height', isNormal: true });
+      expect(classifyNutritionIndicator('weight-for-age', zScore(-2.1), 24)).toEqual({ system: 'WHO', category: 'Underweight', isNormal: false });
+    });
+
+    it('should classify wasting and overweight for under-fives', () => {
+      expect(classifyNutritionIndicator('weight-for-stature', zScore(-3.5), 12)?.category).toBe('Severely wasted');
+      expect(classifyNutritionIndicator('weight-for-stature', zScore(-2.5), 12)?.category).toBe('Wasted');
+      expect(classifyNutritionIndicator('weight-for-stature', zScore(2.5), 12)?.category).toBe('Overweight');
+      expect(classifyNutritionIndicator('bmi-for-age', zScore(3.1), 36)?.category).toBe('Obese');
+      expect(classifyNutritionIndicator('bmi-for-age', zScore(1.5), 36)?.category).toBe('Healthy weight');
+    });
+
+    it('should use the school-age BMI bands from 5 years', () => {
+      expect(classifyNutritionIndicator('bmi-for-age', zScore(1.5), 60)?.category).toBe('Overweight');
+      expect(classifyNutritionIndicator('bmi-for-age', zScore(2.1), 120)?.category).toBe('Obese');
+      expect(classifyNutritionIndicator('bmi-for-age', zScore(-2.5), 120)?.category).toBe('Thin');
+    });
+
+    it('should use CDC percentile categories for BMI read from a CDC chart', () => {
+      expect(classifyNutritionIndicator('bmi-for-age', zScore(-1.7, cdc), 120)).toEqual({ system: 'CDC', category: 'Underweight', isNormal: false });
+      expect(classifyNutritionIndicator('bmi-for-age', zScore(0.5, cdc), 120)?.category).toBe('Healthy weight');
+      expect(classifyNutritionIndicator('bmi-for-age', zScore(1.2, cdc), 120)?.category).toBe('Overweight'); // 88th
+      expect(classifyNutritionIndicator('bmi-for-age', zScore(1.7, cdc), 120)?.category).toBe('Obesity');
+      expect(classifyNutritionIndicator('bmi-for-age', zScore(2.4, cdc, { obesityClass: 'Class 2 severe obesity' }), 120)?.category).toBe('Class 2 severe obesity');
+    });
+
+    it('should not apply WHO cut-offs to other references', () => {
+      expect(classifyNutritionIndicator('height-for-age', zScore(-2.5, cdc), 120)).toBeNull();
+      expect(classifyNutritionIndicator('weight-for-stature', zScore(-2.5, { id: 'ds_chart', name: 'Syndrome Chart', source: 'Other' }), 36)).toBeNull();
+    });
+
+    it('should not classify weight-for-age past 10 years', () => {
+      expect(classifyNutritionIndicator('weight-for-age', zScore(-2.5), 120)?.category).toBe('Underweight');
+      expect(classifyNutritionIndicator('weight-for-age', zScore(-2.5), 121)).toBeNull();
+    });
+  });
+
+  describe('classifyNutritionalStatus', () => {
+    it('should classify the latest assessed record for each indicator', () => {
+      const records = [record('h12', 'Length', 12), record('h24', 'Height', 24), record('h30', 'Height', 30), record('w24', 'Weight', 24), record('b24', 'BMI', 24)];
+      const zScores = { h12: zScore(0), h24: zScore(-2.4), w24: zScore(-1), b24: zScore(0.2) }; // h30 has no chart
+      const classifications = classifyNutritionalStatus(records, zScores, { w24: zScore(-2.2) });
+      expect(classifications.map(c => [c.indicator, c.record.id, c.category])).toEqual([
+        ['height-for-age', 'h24', 'Stunted'],
+        ['weight-for-age', 'w24', 'Normal weight'],
+        ['weight-for-stature', 'w24', 'Wasted'],
+        ['bmi-for-age', 'b24', 'Healthy weight'],
+      ]);
+    });
+
+    it('should leave out indicators without an assessed record', () => {
+      expect(classifyNutritionalStatus([record('w6', 'Weight', 6)], {})).toEqual([]);
+    });
+
+    it('should leave out indicators whose latest record cannot be classified', () => {
+      const records = [record('h24', 'Height', 24), record('h36', 'Height', 36)];
+      expect(classifyNutritionalStatus(records, { h24: zScore(-2.5), h36: zScore(-2.5, cdc) })).toEqual([]);
+    });
+
+    it('should classify preterm infants at corrected age', () => {
+      const records = [record('b61', 'BMI', 61)];
+      expect(classifyNutritionalStatus(records, { b61: zScore(1.5) })[0].category).toBe('Overweight'); // School-age bands
+      const preterm = { gestationalAgeWeeks: 28, gestationalAgeDays: 0 };
+      expect(classifyNutritionalStatus(records, { b61: zScore(1.5) }, {}, preterm, 72)[0].category).toBe('Healthy weight'); // Corrected to under five
+    });
+  });
+
+  describe('getWeightStatus', () => {
+    it('should prefer BMI-for-age over weight-for-length/height', () => {
+      const records = [record('w12', 'Weight', 12), record('b12', 'BMI', 12)];
+      expect(getWeightStatus(classifyNutritionalStatus(records, { b12: zScore(2.5) }, { w12: zScore(0) }))?.category).toBe('Overweight');
+      expect(getWeightStatus(classifyNutritionalStatus(records, {}, { w12: zScore(0) }))?.indicator).toBe('weight-for-stature');
+      expect(getWeightStatus(classifyNutritionalStatus(records, { w12: zScore(0) }))).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { getCentileTrend, formatPercentilePhrase, describeGrowthForParents } from '../parentSummary';
+import { inverseNormalCDF } from '../zScoreCalculator';
+
+const z = (percentile: number) => inverseNormalCDF(percentile / 100);
+
+describe('parentSummary', () => {
+  describe('getCentileTrend', () => {
+    it('should follow the major centile lines', () => {
+      expect(getCentileTrend(z(40), z(45))).toBe('steady');
+      expect(getCentileTrend(z(40), z(60))).toBe('up'); // Crosses the 50th
+      expect(getCentileTrend(z(40), z(20))).toBe('down'); // Crosses the 25th
+    });
+  });
+
+  describe('formatPercentilePhrase', () => {
+    it('should use ordinal percentiles', () => {
+      expect(formatPercentilePhrase(z(40))).toBe('the 40th percentile');
+      expect(formatPercentilePhrase(z(2))).toBe('the 2nd percentile');
+      expect(formatPercentilePhrase(z(71))).toBe('the 71st percentile');
+      expect(formatPercentilePhrase(z(12))).toBe('the 12th percentile');
+      expect(formatPercentilePhrase(z(99.5))).toBe('the 99.5th percentile');
+    });
+
+    it('should describe the extremes', () => {
+      expect(formatPercentilePhrase(-4)).toBe('below the 0.1th percentile');
+      expect(formatPercentilePhrase(4)).toBe('above the 99.9th percentile');
+    });
+  });
+
+  describe('describeGrowthForParents', () => {
+    it('should describe the latest percentile and the trend since the one before', () => {
+      expect(describeGrowthForParents([], 'weight')).toBe('');
+      expect(describeGrowthForParents([z(40)], 'weight')).toBe("Your child's weight is on the 40th percentile.");
+      expect(describeGrowthForParents([z(60), z(38), z(40)], 'weight')).toBe("Your child's weight is growing along the 40th percentile.");
+      expect(describeGrowthForParents([z(26), z(60)], 'height')).toBe("Your child's height has moved up from the 26th to the 60th percentile since the last measurement.");
+    });
+  });
+});
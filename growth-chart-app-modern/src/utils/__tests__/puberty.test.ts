@@ -0,0 +1,62 @@
+import { getTannerStage, getPubertyStageAtAge, getPubertyTimeline, findHeightVelocityReference, compareHeightVelocity } from '../puberty';
+import type { HeightVelocityReference } from '../puberty';
+import type { GrowthRecord } from '../../store/appStore';
+
+const tanner = (ageMonths: number, stage: number, tannerSite: GrowthRecord['tannerSite'] = 'breast'): GrowthRecord => ({
+  id: `t-${ageMonths}-${tannerSite}`, patientId: 'p1', date: '2023-01-01', ageMonths, measurementType: 'TannerStage', value: stage, unit: 'stage', tannerSite,
+});
+
+describe('puberty', () => {
+  describe('getTannerStage', () => {
+    it('should accept whole stages from 1 to 5 on Tanner stage records', () => {
+      expect(getTannerStage(tanner(120, 3))).toBe(3);
+      expect(getTannerStage(tanner(120, 6))).toBeNull();
+      expect(getTannerStage(tanner(120, 2.5))).toBeNull();
+      expect(getTannerStage({ measurementType: 'Height', value: 3 })).toBeNull();
+    });
+  });
+
+  describe('getPubertyStageAtAge', () => {
+    const records = [tanner(120, 1), tanner(132, 2), tanner(132, 3, 'pubic_hair'), tanner(144, 4)];
+
+    it('should use the most advanced site at the latest assessment', () => {
+      expect(getPubertyStageAtAge(records, 138)).toBe(3);
+      expect(getPubertyStageAtAge(records, 144)).toBe(4);
+    });
+
+    it('should return null before the first assessment', () => {
+      expect(getPubertyStageAtAge(records, 100)).toBeNull();
+    });
+  });
+
+  describe('getPubertyTimeline', () => {
+    it('should merge assessments at the same stage into periods', () => {
+      const records = [tanner(120, 1), tanner(126, 1), tanner(132, 2), tanner(138, 2), tanner(144, 3)];
+      expect(getPubertyTimeline(records)).toEqual([
+        { stage: 1, startAgeMonths: 120, endAgeMonths: 132 },
+        { stage: 2, startAgeMonths: 132, endAgeMonths: 144 },
+        { stage: 3, startAgeMonths: 144, endAgeMonths: null },
+      ]);
+      expect(getPubertyTimeline([])).toEqual([]);
+    });
+  });
+
+  describe('height velocity references', () => {
+    const references: HeightVelocityReference[] = [
+      { sex: 'female', tannerStage: 2, lower: 5, median: 7, upper: 9 },
+      { sex: 'male', tannerStage: 2, lower: 4.5, median: 6, upper: 8 },
+    ];
+
+    it('should find the reference for the sex and stage', () => {
+      expect(findHeightVelocityReference(references, 'Female', 2)).toBe(references[0]);
+      expect(findHeightVelocityReference(references, 'Female', 3)).toBeUndefined();
+      expect(findHeightVelocityReference(references, 'Male', undefined)).toBeUndefined();
+    });
+
+    it('should compare a velocity with the reference range', () => {
+      expect(compareHeightVelocity(4, references[0])).toBe('below');
+      expect(compareHeightVelocity(5, references[0])).toBe('within');
+      expect(compareHeightVelocity(9.5, references[0])).toBe('above');
+    });
+  });
+});
@@ -0,0 +1,565 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  getChartMeasurementType, findBestChart, hasLMSParameters, calculateRecordZScores, getZScoreMethod,
+  validateCentileManifest, validateCentileData, loadCentileManifest, loadCentileData, clearReferenceDataCache,
+  getMeasurementTypeForChartType, getPreferredSourceForAge, selectDefaultChart, getChartsCoveringAges,
+  isCompositeChart, loadChartSegments, findSegmentForAge, getChartTransitions,
+  getChartXAxis, getPairedRecordTypes, getCentileX, toLMSDataPoints, isConditionSpecificChart, isChartForConditions, getChartedConditions,
+  validateHeightVelocityReferences,
+  calculateWeightForStatureZScores, validateBayleyPinneauTables, loadBayleyPinneauTables, loadHeightVelocityReferences
+} from '../referenceData';
+import type { CentileManifestEntry, CentileData, ChartSegment } from '../referenceData';
+import { calculateValueFromZScore, parseCentileLineKey, getZScoreResultForMeasurement } from '../zScoreCalculator';
+import type { GrowthRecord, Patient } from '../../store/appStore';
+
+const lengthBoysEntry: CentileManifestEntry = {
+  id: 'who_length_boys_0_24_p', name: 'WHO Length for Age (Boys)', description: '', measurementType: 'length_for_age',
+  sex: 'male', ageRangeMonths: [0, 24], source: 'WHO', type: 'percentiles', dataFile: '/data/centiles/who_length_boys_0_24_p.json',
+};
+const weightGirlsEntry: CentileManifestEntry = {
+  id: 'cdc_weight_girls_2_20_z', name: 'CDC Weight for Age (Girls)', description: '', measurementType: 'weight_for_age',
+  sex: 'female', ageRangeMonths: [24, 240], source: 'CDC', type: 'z-scores', dataFile: '/data/centiles/cdc_weight_girls_2_20_z.json',
+};
+const manifest = [lengthBoysEntry, weightGirlsEntry];
+
+const lengthBoysData: CentileData = {
+  source: 'WHO', name: 'WHO Length for Age (Boys)', measurementType: 'length_for_age', sex: 'male',
+  ageUnit: 'months', measurementUnit: 'cm', centilesAvailable: ['p50'], lmsParametersAvailable: ['l', 'm', 's'],
+  data: [
+    { age: 12, p50: 75.7, l: 0.07, m: 75.72, s: 0.033 },
+    { age: 24, p50: 87.6, l: 0.18, m: 87.63, s: 0.035 },
+  ],
+};
+
+describe('referenceData', () => {
+  describe('getChartMeasurementType', () => {
+    it('should map record types to manifest measurement types', () => {
+      expect(getChartMeasurementType('Height')).toBe('length_for_age');
+      expect(getChartMeasurementType('Length')).toBe('length_for_age');
+      expect(getChartMeasurementType('Weight')).toBe('weight_for_age');
+      expect(getChartMeasurementType('HeadCircumference')).toBe('hc_for_age');
+      expect(getChartMeasurementType('BMI')).toBe('bmi_for_age');
+      expect(getChartMeasurementType('Other')).toBeNull();
+    });
+  });
+
+  describe('findBestChart', () => {
+    it('should match measurement type, sex and age range', () => {
+      expect(findBestChart(manifest, { measurementType: 'length_for_age', sex: 'Male', ageMonths: 12 })).toBe(lengthBoysEntry);
+      expect(findBestChart(manifest, { measurementType: 'weight_for_age', sex: 'Female', ageMonths: 36 })).toBe(weightGirlsEntry);
+    });
+
+    it('should return undefined when no chart covers the patient', () => {
+      expect(findBestChart(manifest, { measurementType: 'length_for_age', sex: 'Female', ageMonths: 12 })).toBeUndefined();
+      expect(findBestChart(manifest, { measurementType: 'length_for_age', sex: 'Male', ageMonths: 30 })).toBeUndefined();
+    });
+
+    it('should prefer sex-specific charts, then the preferred source, then the narrowest age range', () => {
+      const anySexEntry: CentileManifestEntry = { ...lengthBoysEntry, id: 'any_length', sex: 'any', ageRangeMonths: [0, 12] };
+      const cdcEntry: CentileManifestEntry = { ...lengthBoysEntry, id: 'cdc_length_boys', source: 'CDC', ageRangeMonths: [0, 36] };
+      const narrowEntry: CentileManifestEntry = { ...lengthBoysEntry, id: 'who_length_boys_0_12', ageRangeMonths: [0, 12] };
+      const charts = [anySexEntry, cdcEntry, lengthBoysEntry, narrowEntry];
+      expect(findBestChart(charts, { measurementType: 'length_for_age', sex: 'Male', ageMonths: 6 })).toBe(narrowEntry);
+      expect(findBestChart(charts, { measurementType: 'length_for_age', sex: 'Male', ageMonths: 6, preferredSource: 'CDC' })).toBe(cdcEntry);
+      expect(findBestChart(charts, { measurementType: 'length_for_age', sex: 'Female', ageMonths: 6 })).toBe(anySexEntry);
+    });
+  });
+
+  describe('chart selection', () => {
+    const whoLengthBoys: CentileManifestEntry = { ...lengthBoysEntry, id: 'who_length_boys', ageRangeMonths: [0, 24] };
+    const cdcLengthBoys: CentileManifestEntry = { ...lengthBoysEntry, id: 'cdc_length_boys', source: 'CDC', ageRangeMonths: [24, 240] };
+    const charts = [cdcLengthBoys, whoLengthBoys, weightGirlsEntry];
+
+    it('should map the default chart type setting to a measurement type', () => {
+      expect(getMeasurementTypeForChartType('HeightForAge')).toBe('length_for_age');
+      expect(getMeasurementTypeForChartType('BMIForAge')).toBe('bmi_for_age');
+    });
+
+    it('should prefer WHO under 24 months and CDC from 24 months', () => {
+      expect(getPreferredSourceForAge(23.9)).toBe('WHO');
+      expect(getPreferredSourceForAge(24)).toBe('CDC');
+    });
+
+    it('should select the chart for the current age, using CDC at the 24-month boundary', () => {
+      expect(selectDefaultChart(charts, 'HeightForAge', 'Male', 10)).toBe(whoLengthBoys);
+      expect(selectDefaultChart(charts, 'HeightForAge', 'Male', 24)).toBe(cdcLengthBoys);
+      expect(selectDefaultChart(charts, 'WeightForAge', 'Female', 60)).toBe(weightGirlsEntry);
+    });
+
+    it('should fall back to the chart covering the latest measurement', () => {
+      expect(selectDefaultChart([whoLengthBoys], 'HeightForAge', 'Male', 30, [6, 18])).toBe(whoLengthBoys);
+      expect(selectDefaultChart([whoLengthBoys], 'HeightForAge', 'Male', 30)).toBeUndefined();
+    });
+
+    it('should group measurement ages by the chart that covers them', () => {
+      const coverage = getChartsCoveringAges([whoLengthBoys, cdcLengthBoys], 'length_for_age', 'Male', [30, 6, 12, 300]);
+      expect(coverage.charts.map(c => [c.entry.id, c.recordCount])).toEqual([['who_length_boys', 2], ['cdc_length_boys', 1]]);
+      expect(coverage.uncoveredCount).toBe(1);
+    });
+  });
+
+  describe('condition-specific charts', () => {
+    const whoLengthBoys: CentileManifestEntry = { ...lengthBoysEntry, id: 'who_length_boys', ageRangeMonths: [0, 24] };
+    const downLengthBoys: CentileManifestEntry = {
+      ...lengthBoysEntry, id: 'cdc_ds_length_boys_0_36', source: 'CDC', ageRangeMonths: [0, 36], conditions: ['down_syndrome'],
+    };
+    const charts = [whoLengthBoys, downLengthBoys];
+
+    it('should only offer syndrome-specific charts to patients with the condition', () => {
+      expect(isConditionSpecificChart(whoLengthBoys)).toBe(false);
+      expect(isConditionSpecificChart(downLengthBoys)).toBe(true);
+      expect(isChartForConditions(whoLengthBoys)).toBe(true);
+      expect(isChartForConditions(downLengthBoys)).toBe(false);
+      expect(isChartForConditions(downLengthBoys, ['turner_syndrome'])).toBe(false);
+      expect(isChartForConditions(downLengthBoys, ['turner_syndrome', 'down_syndrome'])).toBe(true);
+    });
+
+    it('should prefer the syndrome-specific chart for a patient with the condition', () => {
+      expect(findBestChart(charts, { measurementType: 'length_for_age', sex: 'Male', ageMonths: 12, preferredSource: 'WHO' })).toBe(whoLengthBoys);
+      expect(findBestChart(charts, { measurementType: 'length_for_age', sex: 'Male', ageMonths: 12, preferredSource: 'WHO', conditions: ['down_syndrome'] })).toBe(downLengthBoys);
+      expect(selectDefaultChart(charts, 'HeightForAge', 'Male', 30)).toBeUndefined();
+      expect(selectDefaultChart(charts, 'HeightForAge', 'Male', 30, [], ['down_syndrome'])).toBe(downLengthBoys);
+    });
+
+    it('should group measurement ages by the syndrome-specific chart', () => {
+      const coverage = getChartsCoveringAges(charts, 'length_for_age', 'Male', [6, 30], ['down_syndrome']);
+      expect(coverage.charts.map(c => [c.entry.id, c.recordCount])).toEqual([['cdc_ds_length_boys_0_36', 2]]);
+    });
+
+    it('should list the conditions that have charts in the manifest', () => {
+      expect(getChartedConditions(charts)).toEqual(['down_syndrome']);
+      expect(getChartedConditions([whoLengthBoys])).toEqual([]);
+    });
+  });
+
+  describe('validateCentileManifest', () => {
+    it('should accept a valid manifest', () => {
+      expect(validateCentileManifest(manifest)).toEqual([]);
+    });
+
+    it('should report structural problems', () => {
+      const errors = validateCentileManifest([
+        lengthBoysEntry,
+        { ...lengthBoysEntry, ageRangeMonths: [24, 0] },
+        { ...weightGirlsEntry, sex: 'girls', zScoreMethod: 'bogus', centileLines: ['p50', 'median'], conditions: ['bogus'] },
+      ] as unknown as CentileManifestEntry[]);
+      expect(errors).toEqual([
+        'Manifest entry who_length_boys_0_24_p: duplicate id.',
+        'Manifest entry who_length_boys_0_24_p: ageRangeMonths must be [min, max] with min < max.',
+        'Manifest entry cdc_weight_girls_2_20_z: sex must be one of male, female, any.',
+        'Manifest entry cdc_weight_girls_2_20_z: unknown zScoreMethod "bogus".',
+        'Manifest entry cdc_weight_girls_2_20_z: unrecognised centile line "median".',
+        'Manifest entry cdc_weight_girls_2_20_z: unknown condition "bogus".',
+      ]);
+      expect(validateCentileManifest({})).toEqual(['Manifest must be an array of chart entries.']);
+    });
+  });
+
+  describe('validateHeightVelocityReferences', () => {
+    it('should accept one range per sex and Tanner stage', () => {
+      expect(validateHeightVelocityReferences({ source: 'Test', references: [
+        { sex: 'male', tannerStage: 1, lower: 4, median: 5.5, upper: 7 },
+        { sex: 'female', tannerStage: 1, lower: 4, median: 5.5, upper: 7 },
+      ] })).toEqual([]);
+    });
+
+    it('should report invalid and duplicate references', () => {
+      expect(validateHeightVelocityReferences({ references: [
+        { sex: 'male', tannerStage: 2, lower: 5, median: 7, upper: 9 },
+        { sex: 'boys', tannerStage: 6, lower: 8, median: 7, upper: 9 },
+        { sex: 'male', tannerStage: 2, lower: 5, median: 7, upper: 9 },
+      ] })).toEqual([
+        'Reference 1: sex must be male or female.',
+        'Reference 1: tannerStage must be 1-5.',
+        'Reference 1: lower, median and upper must be numbers with 0 <= lower <= median <= upper.',
+        'Reference 2: duplicate reference for male Tanner stage 2.',
+      ]);
+      expect(validateHeightVelocityReferences({})).toEqual(['references must be an array.']);
+    });
+  });
+
+  describe('validateBayleyPinneauTables', () => {
+    const rows = [{ boneAgeYears: 12, percentOfAdultHeight: 85 }, { boneAgeYears: 13, percentOfAdultHeight: 89 }];
+
+    it('should accept one table per sex and maturity', () => {
+      expect(validateBayleyPinneauTables({ source: 'Test', tables: [
+        { sex: 'male', maturity: 'average', rows },
+        { sex: 'male', maturity: 'accelerated', rows },
+      ] })).toEqual([]);
+    });
+
+    it('should report invalid rows and duplicate tables', () => {
+      expect(validateBayleyPinneauTables({ tables: [
+        { sex: 'male', maturity: 'average', rows },
+        { sex: 'boys', maturity: 'slow', rows: [{ boneAgeYears: 12, percentOfAdultHeight: 120 }, { boneAgeYears: 13, percentOfAdultHeight: 90 }] },
+        { sex: 'female', maturity: 'average', rows: [...rows].reverse() },
+        { sex: 'male', maturity: 'average', rows: [] },
+      ] })).toEqual([
+        'Table 1: sex must be male or female.',
+        'Table 1: maturity must be average, accelerated or retarded.',
+        'Table 1, row 0: boneAgeYears must be a number and percentOfAdultHeight a number in (0, 100].',
+        'Table 2, row 1: bone ages must be strictly ascending.',
+        'Table 3: rows must be an array with at least two rows.',
+        'Table 3: duplicate table for male average maturity.',
+      ]);
+      expect(validateBayleyPinneauTables({})).toEqual(['tables must be an array.']);
+    });
+  });
+
+  describe('validateCentileData', () => {
+    it('should accept valid data', () => {
+      expect(validateCentileData(lengthBoysData)).toEqual([]);
+    });
+
+    it('should require strictly increasing ages', () => {
+      const data = { ...lengthBoysData, data: [lengthBoysData.data[1], lengthBoysData.data[0]] };
+      expect(validateCentileData(data)).toEqual(['Point 1: ages must be strictly increasing (12 after 24).']);
+    });
+
+    it('should require positive M and S when LMS is declared', () => {
+      const data = { ...lengthBoysData, data: [{ ...lengthBoysData.data[0], m: 0, s: -0.1 }] };
+      expect(validateCentileData(data)).toEqual([
+        'Point 0 (age 12): M must be positive.',
+        'Point 0 (age 12): S must be positive.',
+      ]);
+    });
+
+    it('should require every declared centile column', () => {
+      const data = { ...lengthBoysData, centilesAvailable: ['p50', 'p97'] };
+      expect(validateCentileData(data)).toContain('Point 0 (age 12): missing centile column "p97".');
+    });
+
+    it('should reject empty data', () => {
+      expect(validateCentileData({ ...lengthBoysData, data: [] })).toEqual(['data must be a non-empty array.']);
+    });
+  });
+
+  describe('bundled reference data', () => {
+    const publicDir = path.join(__dirname, '../../../public');
+    const bundledManifest: CentileManifestEntry[] = JSON.parse(fs.readFileSync(path.join(publicDir, 'data/centile_manifest.json'), 'utf8'));
+
+    it('should have a valid manifest', () => {
+      expect(validateCentileManifest(bundledManifest)).toEqual([]);
+    });
+
+    it.each(bundledManifest.filter(entry => !isCompositeChart(entry)).map(entry => [entry.id, entry] as const))('should have valid data for %s', (_id, entry) => {
+      const data: CentileData = JSON.parse(fs.readFileSync(path.join(publicDir, entry.dataFile!), 'utf8'));
+      expect(validateCentileData(data)).toEqual([]);
+      expect(data.measurementType).toBe(entry.measurementType);
+      expect(data.sex).toBe(entry.sex);
+      if (getChartXAxis(entry.measurementType) === 'age') {
+        expect(data.data[0].age).toBeLessThanOrEqual(entry.ageRangeMonths[0]);
+        expect(data.data[data.data.length - 1].age).toBeGreaterThanOrEqual(entry.ageRangeMonths[1]);
+      }
+    });
+
+    it.each(bundledManifest.filter(entry => !isCompositeChart(entry)).map(entry => [entry.id, entry] as const))(
+      'should have tabulated centiles matching the LMS parameters for %s', (_id, entry) => {
+        const data: CentileData = JSON.parse(fs.readFileSync(path.join(publicDir, entry.dataFile!), 'utf8'));
+        expect(hasLMSParameters(data)).toBe(true);
+        data.data.forEach(point => {
+          data.centilesAvailable.forEach(key => {
+            const expected = calculateValueFromZScore(parseCentileLineKey(key)!.z, point.l!, point.m!, point.s!);
+            expect(point[key]).toBeCloseTo(expected, 1);
+          });
+        });
+      }
+    );
+
+    it.each(['Male', 'Female'] as const)('should cover weight, length, head circumference and BMI for %s patients', sex => {
+      const expectations: [string, number, string][] = [
+        ['weight_for_age', 0, 'WHO'], ['weight_for_age', 18, 'WHO'], ['weight_for_age', 24, 'CDC'], ['weight_for_age', 240, 'CDC'],
+        ['length_for_age', 0, 'WHO'], ['length_for_age', 18, 'WHO'], ['length_for_age', 24, 'CDC'], ['length_for_age', 240, 'CDC'],
+        ['hc_for_age', 0, 'WHO'], ['hc_for_age', 18, 'WHO'], ['hc_for_age', 30, 'CDC'],
+        ['bmi_for_age', 24, 'CDC'], ['bmi_for_age', 240, 'CDC'],
+      ];
+      expectations.forEach(([measurementType, ageMonths, source]) => {
+        const chart = findBestChart(bundledManifest, { measurementType, sex, ageMonths, preferredSource: getPreferredSourceForAge(ageMonths) });
+        expect(chart?.source).toBe(source);
+      });
+    });
+
+    it.each(['Male', 'Female'] as const)('should cover the WHO standards and references to 19 years for %s patients', sex => {
+      const expectations: [string, number, string][] = [
+        ['weight_for_age', 36, 'who_weight_%s_24_60'], ['weight_for_age', 60, 'who_weight_%s_24_60'], ['weight_for_age', 120, 'who_weight_%s_5_10'],
+        ['length_for_age', 36, 'who_height_%s_24_60'], ['length_for_age', 61, 'who_height_%s_5_19'], ['length_for_age', 228, 'who_height_%s_5_19'],
+        ['bmi_for_age', 0, 'who_bmi_%s_0_24'], ['bmi_for_age', 36, 'who_bmi_%s_24_60'], ['bmi_for_age', 61, 'who_bmi_%s_5_19'], ['bmi_for_age', 228, 'who_bmi_%s_5_19'],
+      ];
+      expectations.forEach(([measurementType, ageMonths, id]) => {
+        const chart = findBestChart(bundledManifest, { measurementType, sex, ageMonths, preferredSource: 'WHO' });
+        expect(chart?.id).toBe(id.replace('%s', sex === 'Male' ? 'boys' : 'girls'));
+      });
+      // WHO publishes weight-for-age only to 10 years
+      expect(findBestChart(bundledManifest, { measurementType: 'weight_for_age', sex, ageMonths: 150, preferredSource: 'WHO' })?.source).toBe('CDC');
+    });
+  });
+
+  describe('measurement-based x-axes', () => {
+    const weightForLengthData: CentileData = {
+      source: 'WHO', name: 'WHO Weight for Length (Boys)', measurementType: 'weight_for_length', sex: 'male',
+      ageUnit: 'months', xUnit: 'cm', measurementUnit: 'kg', centilesAvailable: ['p50'], lmsParametersAvailable: ['l', 'm', 's'],
+      data: [
+        { length: 70, p50: 8.4, l: -0.35, m: 8.4, s: 0.08 },
+        { length: 80, p50: 10.8, l: -0.35, m: 10.8, s: 0.08 },
+      ],
+    };
+
+    it('should plot weight-for-length and weight-for-height against the paired measurement', () => {
+      expect(getChartXAxis('weight_for_length')).toBe('length');
+      expect(getChartXAxis('weight_for_height')).toBe('height');
+      expect(getChartXAxis('weight_for_age')).toBe('age');
+      expect(getPairedRecordTypes('weight_for_length')).toEqual({ yRecordType: 'Weight', xRecordType: 'Length' });
+      expect(getPairedRecordTypes('weight_for_height')).toEqual({ yRecordType: 'Weight', xRecordType: 'Height' });
+      expect(getPairedRecordTypes('weight_for_age')).toBeNull();
+    });
+
+    it('should validate and read data keyed by length', () => {
+      expect(validateCentileData(weightForLengthData)).toEqual([]);
+      expect(validateCentileData({ ...weightForLengthData, data: [{ age: 12, p50: 8.4, l: -0.35, m: 8.4, s: 0.08 }] }))
+        .toContain('Point 0: length must be a number.');
+      expect(getCentileX(weightForLengthData.data[1], weightForLengthData)).toBe(80);
+      expect(getCentileX(lengthBoysData.data[1], lengthBoysData)).toBe(24);
+    });
+
+    it('should calculate Z-scores from LMS keyed on length', () => {
+      const lms = toLMSDataPoints(weightForLengthData);
+      expect(lms.map(p => p.age)).toEqual([70, 80]);
+      expect(getZScoreResultForMeasurement(9.6, 75, lms)?.zScore).toBeCloseTo(0, 6); // Median at 75 cm is 9.6 kg
+      expect(toLMSDataPoints(lengthBoysData)).toBe(lengthBoysData.data);
+    });
+
+    it('should score against the bundled WHO weight-for-length and weight-for-height standards', () => {
+      const publicDir = path.join(__dirname, '../../../public');
+      const load = (file: string): CentileData => JSON.parse(fs.readFileSync(path.join(publicDir, 'data/centiles', file), 'utf8'));
+      const weightForLength = toLMSDataPoints(load('who_wfl_boys_45_110.json'));
+      const weightForHeight = toLMSDataPoints(load('who_wfh_boys_65_120.json'));
+      expect(getZScoreResultForMeasurement(9.5032, 75, weightForLength)?.zScore).toBeCloseTo(0, 3); // The median at 75 cm
+      expect(getZScoreResultForMeasurement(calculateValueFromZScore(-2, -0.3521, 14.06, 0.0806), 95, weightForHeight)?.zScore).toBeCloseTo(-2, 3);
+    });
+  });
+
+  describe('composite charts', () => {
+    const cdcLengthBoysEntry: CentileManifestEntry = {
+      ...lengthBoysEntry, id: 'cdc_stature_boys_2_20', source: 'CDC', ageRangeMonths: [24, 240], dataFile: '/data/centiles/cdc_stature_boys_2_20.json',
+    };
+    const compositeEntry: CentileManifestEntry = {
+      ...lengthBoysEntry, id: 'who_cdc_length_boys_0_20', source: 'WHO/CDC', ageRangeMonths: [0, 240], dataFile: undefined,
+      segments: ['who_length_boys_0_24_p', 'cdc_stature_boys_2_20'],
+    };
+    const compositeManifest = [lengthBoysEntry, cdcLengthBoysEntry, compositeEntry];
+    const segments: ChartSegment[] = [
+      { entry: lengthBoysEntry, data: lengthBoysData },
+      { entry: cdcLengthBoysEntry, data: { ...lengthBoysData, source: 'CDC' } },
+    ];
+
+    it('should validate composite charts against their segments', () => {
+      expect(validateCentileManifest(compositeManifest)).toEqual([]);
+      expect(validateCentileManifest([lengthBoysEntry, { ...compositeEntry, segments: ['who_length_boys_0_24_p', 'missing'] }]))
+        .toContain('Manifest entry who_cdc_length_boys_0_20: unknown segment "missing".');
+      expect(validateCentileManifest([lengthBoysEntry, { ...cdcLengthBoysEntry, ageRangeMonths: [36, 240] }, { ...compositeEntry, ageRangeMonths: [0, 240] }]))
+        .toContain('Manifest entry who_cdc_length_boys_0_20: gap between 24 and 36 months.');
+      expect(validateCentileManifest([lengthBoysEntry, cdcLengthBoysEntry, { ...compositeEntry, ageRangeMonths: [0, 120] }]))
+        .toContain('Manifest entry who_cdc_length_boys_0_20: ageRangeMonths must span its segments (0-240).');
+      expect(validateCentileManifest([lengthBoysEntry, weightGirlsEntry, { ...compositeEntry, segments: ['who_length_boys_0_24_p', 'cdc_weight_girls_2_20_z'] }]))
+        .toContain('Manifest entry who_cdc_length_boys_0_20: segment "cdc_weight_girls_2_20_z" has a different measurementType or sex.');
+    });
+
+    it('should not pick composite charts as the reference for an age', () => {
+      expect(findBestChart([compositeEntry, cdcLengthBoysEntry], { measurementType: 'length_for_age', sex: 'Male', ageMonths: 36 })).toBe(cdcLengthBoysEntry);
+      expect(findBestChart([compositeEntry], { measurementType: 'length_for_age', sex: 'Male', ageMonths: 36 })).toBeUndefined();
+    });
+
+    it('should apply the later reference from the transition age', () => {
+      expect(findSegmentForAge(segments, 23.9)?.entry).toBe(lengthBoysEntry);
+      expect(findSegmentForAge(segments, 24)?.entry).toBe(cdcLengthBoysEntry);
+      expect(findSegmentForAge(segments, 250)).toBeUndefined();
+    });
+
+    it('should list the transitions between references', () => {
+      expect(getChartTransitions(segments)).toEqual([{ ageMonths: 24, fromSource: 'WHO', toSource: 'CDC' }]);
+      expect(getChartTransitions(segments.slice(0, 1))).toEqual([]);
+    });
+
+    it('should load each segment of a composite chart', async () => {
+      clearReferenceDataCache();
+      const originalFetch = global.fetch;
+      global.fetch = jest.fn(() => Promise.resolve({ ok: true, json: () => Promise.resolve(lengthBoysData) })) as unknown as typeof fetch;
+      const loaded = await loadChartSegments(compositeEntry, compositeManifest);
+      expect(loaded.map(segment => segment.entry.id)).toEqual(['who_length_boys_0_24_p', 'cdc_stature_boys_2_20']);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      await expect(loadCentileData(compositeEntry)).rejects.toThrow('composite chart');
+      await expect(loadChartSegments(compositeEntry, [compositeEntry])).rejects.toThrow('refers to unknown chart who_length_boys_0_24_p');
+      global.fetch = originalFetch;
+    });
+  });
+
+  describe('loading', () => {
+    const originalFetch = global.fetch;
+    const mockFetch = (responses: Record<string, unknown>) => {
+      global.fetch = jest.fn((url: string) => Promise.resolve({
+        ok: url in responses, status: url in responses ? 200 : 404,
+        json: () => Promise.resolve(responses[url]),
+      })) as unknown as typeof fetch;
+    };
+
+    beforeEach(() => clearReferenceDataCache());
+    afterAll(() => { global.fetch = originalFetch; });
+
+    it('should cache loaded files in memory', async () => {
+      mockFetch({ '/data/centile_manifest.json': manifest });
+      await expect(loadCentileManifest()).resolves.toEqual(manifest);
+      await expect(loadCentileManifest()).resolves.toEqual(manifest);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject invalid data and not cache it', async () => {
+      mockFetch({ [lengthBoysEntry.dataFile!]: { ...lengthBoysData, data: [] } });
+      await expect(loadCentileData(lengthBoysEntry)).rejects.toThrow(`Invalid reference data in ${lengthBoysEntry.dataFile}: data must be a non-empty array.`);
+      await expect(loadCentileData(lengthBoysEntry)).rejects.toThrow();
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject on HTTP errors', async () => {
+      mockFetch({});
+      await expect(loadCentileManifest()).rejects.toThrow('HTTP error! status: 404 for /data/centile_manifest.json');
+    });
+
+    it('should resolve optional files that are not installed to null', async () => {
+      mockFetch({});
+      await expect(loadBayleyPinneauTables()).resolves.toBeNull();
+      await expect(loadHeightVelocityReferences()).resolves.toBeNull();
+    });
+
+    it('should still reject optional files that fail to load', async () => {
+      global.fetch = jest.fn(() => Promise.resolve({ ok: false, status: 500 })) as unknown as typeof fetch;
+      await expect(loadBayleyPinneauTables()).rejects.toThrow('HTTP error! status: 500 for /data/bone-age/bayley_pinneau.json');
+    });
+  });
+
+  describe('hasLMSParameters', () => {
+    it('should require L, M and S on every point', () => {
+      expect(hasLMSParameters(lengthBoysData)).toBe(true);
+      expect(hasLMSParameters({ ...lengthBoysData, data: [{ age: 12, p50: 75.7 }] })).toBe(false);
+      expect(hasLMSParameters({ ...lengthBoysData, data: [] })).toBe(false);
+    });
+  });
+
+  describe('getZScoreMethod', () => {
+    it('should use the WHO restricted method for WHO weight and BMI references', () => {
+      expect(getZScoreMethod({ source: 'WHO', measurementType: 'weight_for_age' })).toBe('who-restricted');
+      expect(getZScoreMethod({ source: 'WHO', measurementType: 'bmi_for_age' })).toBe('who-restricted');
+    });
+
+    it('should use plain LMS for other references', () => {
+      expect(getZScoreMethod({ source: 'WHO', measurementType: 'length_for_age' })).toBe('lms');
+      expect(getZScoreMethod({ source: 'CDC', measurementType: 'weight_for_age' })).toBe('lms');
+    });
+
+    it('should prefer the method declared in the manifest', () => {
+      expect(getZScoreMethod({ source: 'CDC', measurementType: 'bmi_for_age', zScoreMethod: 'cdc-extended-bmi' })).toBe('cdc-extended-bmi');
+      expect(getZScoreMethod({ source: 'WHO', measurementType: 'weight_for_age', zScoreMethod: 'lms' })).toBe('lms');
+    });
+  });
+
+  describe('calculateRecordZScores', () => {
+    const patient: Patient = { id: 'p1', name: 'Test Boy', dob: '2023-01-01', sex: 'Male' };
+    const originalFetch = global.fetch;
+
+    beforeEach(() => {
+      clearReferenceDataCache();
+      global.fetch = jest.fn((url: string) => Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve(url === '/data/centile_manifest.json' ? manifest : lengthBoysData),
+      })) as unknown as typeof fetch;
+    });
+    afterAll(() => { global.fetch = originalFetch; });
+
+    it('should calculate Z-scores for records with a matching LMS chart', async () => {
+      const records: GrowthRecord[] = [
+        { id: 'r1', patientId: 'p1', date: '2024-01-01', ageMonths: 12, measurementType: 'Length', value: 78, unit: 'cm' },
+        { id: 'r2', patientId: 'p1', date: '2024-01-01', ageMonths: 12, measurementType: 'Weight', value: 10, unit: 'kg' }, // No boys weight chart
+        { id: 'r3', patientId: 'p1', date: '2024-01-01', ageMonths: 12, measurementType: 'Other', otherMeasurementName: 'Arm Span', value: 70, unit: 'cm' },
+      ];
+      const zScores = await calculateRecordZScores(records, patient);
+      expect(Object.keys(zScores)).toEqual(['r1']);
+      expect(zScores.r1.zScore).toBeCloseTo(0.8999, 4);
+      expect(zScores.r1.reference).toEqual({ id: 'who_length_boys_0_24_p', name: 'WHO Length for Age (Boys)', source: 'WHO' });
+    });
+
+    it('should convert imperial values before calculating', async () => {
+      const records: GrowthRecord[] = [
+        { id: 'r1', patientId: 'p1', date: '2024-01-01', ageMonths: 12, measurementType: 'Length', value: 78 / 2.54, unit: 'in' },
+      ];
+      const zScores = await calculateRecordZScores(records, patient);
+      expect(zScores.r1.zScore).toBeCloseTo(0.8999, 4);
+    });
+
+    it('should convert millimetres and metres before calculating', async () => {
+      const records: GrowthRecord[] = [
+        { id: 'r1', patientId: 'p1', date: '2024-01-01', ageMonths: 12, measurementType: 'Length', value: 780, unit: 'mm' },
+        { id: 'r2', patientId: 'p1', date: '2024-01-01', ageMonths: 12, measurementType: 'Length', value: 0.78, unit: 'm' },
+      ];
+      const zScores = await calculateRecordZScores(records, patient);
+      expect(zScores.r1.zScore).toBeCloseTo(0.8999, 4);
+      expect(zScores.r2.zScore).toBeCloseTo(0.8999, 4);
+    });
+
+    it('should fetch each chart data file only once', async () => {
+      const records: GrowthRecord[] = [
+        { id: 'r1', patientId: 'p1', date: '2024-01-01', ageMonths: 12, measurementType: 'Length', value: 78, unit: 'cm' },
+        { id: 'r2', patientId: 'p1', date: '2024-07-01', ageMonths: 18, measurementType: 'Length', value: 82, unit: 'cm' },
+      ];
+      await calculateRecordZScores(records, patient);
+      expect(global.fetch).toHaveBeenCalledTimes(2); // Manifest + one data file
+    });
+
+    it('should try a chart that fails to load only once per calculation', async () => {
+      global.fetch = jest.fn((url: string) => Promise.resolve(url === '/data/centile_manifest.json'
+        ? { ok: true, json: () => Promise.resolve(manifest) }
+        : { ok: false, status: 404 })) as unknown as typeof fetch;
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const records: GrowthRecord[] = [
+        { id: 'r1', patientId: 'p1', date: '2024-01-01', ageMonths: 12, measurementType: 'Length', value: 78, unit: 'cm' },
+        { id: 'r2', patientId: 'p1', date: '2024-07-01', ageMonths: 18, measurementType: 'Length', value: 82, unit: 'cm' },
+      ];
+      expect(await calculateRecordZScores(records, patient)).toEqual({});
+      expect(global.fetch).toHaveBeenCalledTimes(2); // Manifest + one failed data file
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('calculateWeightForStatureZScores', () => {
+    const patient: Patient = { id: 'p1', name: 'Test Boy', dob: '2023-01-01', sex: 'Male' };
+    const weightForLengthEntry: CentileManifestEntry = {
+      ...lengthBoysEntry, id: 'who_wfl_boys', name: 'WHO Weight for Length (Boys)', measurementType: 'weight_for_length',
+      dataFile: '/data/centiles/who_wfl_boys.json',
+    };
+    const weightForLengthData: CentileData = {
+      ...lengthBoysData, measurementType: 'weight_for_length', measurementUnit: 'kg',
+      data: [{ length: 70, p50: 8.5, l: -0.35, m: 8.5, s: 0.08 }, { length: 80, p50: 10.6, l: -0.35, m: 10.6, s: 0.08 }],
+    };
+    const originalFetch = global.fetch;
+
+    beforeEach(() => {
+      clearReferenceDataCache();
+      global.fetch = jest.fn((url: string) => Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve(url === '/data/centile_manifest.json' ? [...manifest, weightForLengthEntry] : weightForLengthData),
+      })) as unknown as typeof fetch;
+    });
+    afterAll(() => { global.fetch = originalFetch; });
+
+    it('should assess weights against the same-visit length', async () => {
+      const records: GrowthRecord[] = [
+        { id: 'l1', patientId: 'p1', date: '2024-01-01', ageMonths: 12, measurementType: 'Length', value: 75, unit: 'cm' },
+        { id: 'w1', patientId: 'p1', date: '2024-01-01', ageMonths: 12, measurementType: 'Weight', value: 9.55, unit: 'kg' },
+        { id: 'w2', patientId: 'p1', date: '2024-03-01', ageMonths: 14, measurementType: 'Weight', value: 10, unit: 'kg' }, // No length that day
+      ];
+      const zScores = await calculateWeightForStatureZScores(records, patient);
+      expect(Object.keys(zScores)).toEqual(['w1']);
+      expect(zScores.w1.zScore).toBeCloseTo(0, 6); // The median at 75 cm
+      expect(zScores.w1.reference.id).toBe('who_wfl_boys');
+    });
+  });
+});
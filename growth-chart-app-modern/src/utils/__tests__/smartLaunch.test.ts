@@ -0,0 +1,86 @@
+import { buildAuthorizeParams, hasSmartSession, isSmartAuthorizationRedirect, normalizeFHIRBaseUrl } from '../smartLaunch';
+import { getSmartConfig } from '../../config/smart';
+
+const SMART_CONFIG = getSmartConfig('growth_chart_test');
+
+describe('smartLaunch', () => {
+  describe('normalizeFHIRBaseUrl', () => {
+    it('should trim the URL and drop a trailing slash and query', () => {
+      expect(normalizeFHIRBaseUrl(' https://example.org/fhir/ ')).toBe('https://example.org/fhir');
+      expect(normalizeFHIRBaseUrl('http://localhost:8080/r4?x=1')).toBe('http://localhost:8080/r4');
+      expect(normalizeFHIRBaseUrl('https://example.org')).toBe('https://example.org');
+    });
+
+    it('should reject other text and protocols', () => {
+      expect(normalizeFHIRBaseUrl('example.org/fhir')).toBeNull();
+      expect(normalizeFHIRBaseUrl('javascript:alert(1)')).toBeNull();
+      expect(normalizeFHIRBaseUrl('')).toBeNull();
+    });
+  });
+
+  describe('buildAuthorizeParams', () => {
+    it('should authorize a standalone launch with PKCE and an absolute redirect URI', () => {
+      const params = buildAuthorizeParams(SMART_CONFIG.standaloneLaunch, { iss: 'https://example.org/fhir' }, 'https://app.example.org');
+      expect(params).toEqual({
+        clientId: SMART_CONFIG.standaloneLaunch.clientId,
+        scope: SMART_CONFIG.standaloneLaunch.scope,
+        redirectUri: 'https://app.example.org/',
+        pkceMode: 'required',
+        iss: 'https://example.org/fhir',
+      });
+      expect(params.scope).toContain('launch/patient');
+    });
+
+    it('should pass on the EHR launch token', () => {
+      const params = buildAuthorizeParams(getSmartConfig('growth_chart_test', { writeBack: true }).ehrLaunch, { iss: 'https://ehr.example.org/fhir', launch: 'abc' }, 'https://app.example.org');
+      expect(params.launch).toBe('abc');
+      expect(params.scope!.split(' ')).toContain('launch');
+      expect(params.scope!.split(' ')).toEqual(expect.arrayContaining(['user/Patient.read', 'user/Observation.read', 'user/Observation.write']));
+    });
+  });
+
+  describe('getSmartConfig', () => {
+    it('should use the configured client id for both launches', () => {
+      const config = getSmartConfig(' growth_chart_test ');
+      expect(config.ehrLaunch.clientId).toBe('growth_chart_test');
+      expect(config.standaloneLaunch.clientId).toBe('growth_chart_test');
+    });
+
+    it('should request write access only for write-back', () => {
+      const scopes = (config: ReturnType<typeof getSmartConfig>) => [config.ehrLaunch, config.standaloneLaunch].flatMap(launch => launch.scope.split(' '));
+      expect(scopes(SMART_CONFIG).filter(scope => scope.endsWith('.write'))).toEqual([]);
+      expect(scopes(getSmartConfig('growth_chart_test', { writeBack: true }))).toEqual(expect.arrayContaining(['patient/Observation.write', 'user/Observation.write']));
+      expect(getSmartConfig('growth_chart_test', { writeBack: true }).standaloneLaunch.scope).not.toContain('user/');
+    });
+
+    it('should fail clearly without a client id', () => {
+      expect(() => getSmartConfig(undefined)).toThrow(/VITE_SMART_CLIENT_ID/);
+      expect(() => getSmartConfig('  ')).toThrow(/VITE_SMART_CLIENT_ID/);
+    });
+  });
+
+  it('should recognize the authorization server redirect', () => {
+    expect(isSmartAuthorizationRedirect('?code=xyz&state=abc')).toBe(true);
+    expect(isSmartAuthorizationRedirect('?error=access_denied&state=abc')).toBe(true);
+    expect(isSmartAuthorizationRedirect('?code=xyz')).toBe(false);
+    expect(isSmartAuthorizationRedirect('')).toBe(false);
+  });
+
+  describe('hasSmartSession', () => {
+    beforeEach(() => sessionStorage.clear());
+
+    it('should restore only a completed authorization', () => {
+      expect(hasSmartSession()).toBe(false);
+      sessionStorage.setItem('SMART_KEY', JSON.stringify('state-1'));
+      sessionStorage.setItem('state-1', JSON.stringify({ serverUrl: 'https://example.org/fhir' }));
+      expect(hasSmartSession()).toBe(false); // Redirected to the server but never returned
+      sessionStorage.setItem('state-1', JSON.stringify({ serverUrl: 'https://example.org/fhir', tokenResponse: { access_token: 't' } }));
+      expect(hasSmartSession()).toBe(true);
+    });
+
+    it('should ignore unreadable state', () => {
+      sessionStorage.setItem('SMART_KEY', '{not json');
+      expect(hasSmartSession()).toBe(false);
+    });
+  });
+});
@@ -6,6 +6,8 @@ import {
   convertWeightForDisplay,
   convertHeightForDisplay,
   convertToMetricForCalc,
+  parseUnit,
+  convertUnit,
   WeightUnit,
   HeightUnit,
   DisplayUnits
@@ -43,6 +45,40 @@ describe('Unit Conversion Utilities', () => {
     });
   });
 
+  describe('parseUnit', () => {
+    it('recognises UCUM codes, app units and display strings regardless of case', () => {
+      expect(parseUnit('[lb_av]')?.unit).toBe('lbs');
+      expect(parseUnit('[oz_av]')?.unit).toBe('oz');
+      expect(parseUnit('[in_i]')?.unit).toBe('in');
+      expect(parseUnit('[ft_i]')?.unit).toBe('ft');
+      expect(parseUnit(' Grams ')?.unit).toBe('g');
+      expect(parseUnit('Metres')?.unit).toBe('m');
+      expect(parseUnit('MM')?.dimension).toBe('length');
+      expect(parseUnit('kg')?.dimension).toBe('mass');
+    });
+    it('returns undefined for units that are not a mass or length', () => {
+      expect(parseUnit('kg/m2')).toBeUndefined();
+      expect(parseUnit('stone')).toBeUndefined();
+      expect(parseUnit('')).toBeUndefined();
+      expect(parseUnit(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('convertUnit', () => {
+    it('converts between units of the same dimension', () => {
+      expect(convertUnit(3450, 'g', 'kg')).toBeCloseTo(3.45, 10);
+      expect(convertUnit(1.1, 'm', 'cm')).toBeCloseTo(110, 10);
+      expect(convertUnit(16, '[oz_av]', 'lbs')).toBeCloseTo(1, 10);
+      expect(convertUnit(1, 'lbs', 'g')).toBeCloseTo(453.59237, 5);
+      expect(convertUnit(3, 'ft', '[in_i]')).toBeCloseTo(36, 10);
+      expect(convertUnit(505, 'mm', 'in')).toBeCloseTo(19.88, 2);
+    });
+    it('returns NaN across dimensions or for unknown units', () => {
+      expect(convertUnit(1, 'kg', 'cm')).toBeNaN();
+      expect(convertUnit(1, 'stone', 'kg')).toBeNaN();
+    });
+  });
+
   describe('convertWeightForDisplay', () => {
     it('converts kg to lbs for Imperial display', () => {
       const result = convertWeightForDisplay(10, 'kg', 'Imperial');
@@ -64,6 +100,10 @@ describe('Unit Conversion Utilities', () => {
       expect(result.value).toBe(22.0);
       expect(result.unit).toBe('lbs');
     });
+    it('converts grams and ounces', () => {
+      expect(convertWeightForDisplay(3450, 'g', 'Metric')).toEqual({ value: 3.45, unit: 'kg' });
+      expect(convertWeightForDisplay(120, 'oz', 'Imperial')).toEqual({ value: 7.5, unit: 'lbs' });
+    });
   });
 
   describe('convertHeightForDisplay', () => {
@@ -87,6 +127,11 @@ describe('Unit Conversion Utilities', () => {
       expect(result.value).toBe(39.4);
       expect(result.unit).toBe('in');
     });
+    it('converts millimetres, metres and feet', () => {
+      expect(convertHeightForDisplay(505, 'mm', 'Metric')).toEqual({ value: 50.5, unit: 'cm' });
+      expect(convertHeightForDisplay(1.234, 'm', 'Metric')).toEqual({ value: 123.4, unit: 'cm' });
+      expect(convertHeightForDisplay(3.5, 'ft', 'Imperial')).toEqual({ value: 42, unit: 'in' });
+    });
   });
 
   describe('convertToMetricForCalc', () => {
@@ -108,6 +153,16 @@ describe('Unit Conversion Utilities', () => {
     it('returns cm as is', () => {
       expect(convertToMetricForCalc(100, 'cm')).toBe(100);
     });
+    it('converts grams, ounces, millimetres, metres and feet', () => {
+      expect(convertToMetricForCalc(3450, 'g')).toBeCloseTo(3.45, 10);
+      expect(convertToMetricForCalc(16, 'oz')).toBeCloseTo(0.4536, 4);
+      expect(convertToMetricForCalc(505, 'mm')).toBeCloseTo(50.5, 10);
+      expect(convertToMetricForCalc(1.1, 'm')).toBeCloseTo(110, 10);
+      expect(convertToMetricForCalc(1, 'ft')).toBeCloseTo(30.48, 10);
+    });
+    it('accepts UCUM codes', () => {
+      expect(convertToMetricForCalc(10, '[lb_av]')).toBeCloseTo(4.536, 3);
+    });
     it('returns BMI unit value as is', () => {
       expect(convertToMetricForCalc(22.5, 'kg/m²')).toBe(22.5);
     });
@@ -1,4 +1,9 @@
-import { calculateZScore, getLMSForAge, getZScoreForMeasurement, LMSDataPoint } from '../zScoreCalculator';
+import {
+  calculateZScore, getLMSForAge, getZScoreForMeasurement, LMSDataPoint,
+  normalCDF, zScoreToPercentile, formatPercentile,
+  calculateValueFromZScore, inverseNormalCDF, parseCentileLineKey, generateCentileCurves, resolveCentileLines, CENTILE_LINE_PRESETS,
+  classifyBMIObesity, calculateCDCExtendedBMI, getZScoreResultForMeasurement, calculateWHORestrictedZScore
+} from '../zScoreCalculator';
 
 describe('zScoreCalculator', () => {
   describe('calculateZScore', () => {
@@ -122,4 +127,265 @@ describe('zScoreCalculator', () => {
       expect(getZScoreForMeasurement(70, 6, sampleLMSData)).toBeNaN(); // Age below range
     });
   });
+
+  describe('normalCDF', () => {
+    it('should return known probabilities', () => {
+      expect(normalCDF(0)).toBeCloseTo(0.5, 7);
+      expect(normalCDF(1.959964)).toBeCloseTo(0.975, 6);
+      expect(normalCDF(-1.880794)).toBeCloseTo(0.03, 6);
+    });
+
+    it('should be the inverse of inverseNormalCDF', () => {
+      [0.004, 0.15, 0.5, 0.85, 0.996].forEach(p => {
+        expect(normalCDF(inverseNormalCDF(p))).toBeCloseTo(p, 6);
+      });
+    });
+
+    it('should handle infinite and invalid input', () => {
+      expect(normalCDF(Infinity)).toBe(1);
+      expect(normalCDF(-Infinity)).toBe(0);
+      expect(normalCDF(NaN)).toBeNaN();
+    });
+  });
+
+  describe('zScoreToPercentile', () => {
+    it('should convert Z-scores to percentiles', () => {
+      expect(zScoreToPercentile(0)).toBeCloseTo(50, 5);
+      expect(zScoreToPercentile(-1.880794)).toBeCloseTo(3, 4);
+    });
+  });
+
+  describe('formatPercentile', () => {
+    it('should round mid-range percentiles to whole numbers', () => {
+      expect(formatPercentile(0.2533)).toBe('60');
+      expect(formatPercentile(0)).toBe('50');
+    });
+
+    it('should keep one decimal place in the tails', () => {
+      expect(formatPercentile(-2.652)).toBe('0.4');
+      expect(formatPercentile(2.576)).toBe('99.5');
+    });
+
+    it('should clamp extremes', () => {
+      expect(formatPercentile(-3.5)).toBe('<0.1');
+      expect(formatPercentile(4)).toBe('>99.9');
+    });
+
+    it('should return an empty string for invalid Z-scores', () => {
+      expect(formatPercentile(NaN)).toBe('');
+    });
+  });
+
+  describe('calculateValueFromZScore', () => {
+    it('should return the median at Z=0', () => {
+      expect(calculateValueFromZScore(0, 0.07, 75.72, 0.033)).toBeCloseTo(75.72, 6);
+    });
+
+    it('should invert calculateZScore', () => {
+      const value = calculateValueFromZScore(1.5, -0.45, 49.92, 0.038);
+      expect(calculateZScore(value, -0.45, 49.92, 0.038)).toBeCloseTo(1.5, 6);
+    });
+
+    it('should use the log-normal form when L is zero', () => {
+      expect(calculateValueFromZScore(2, 0, 10, 0.1)).toBeCloseTo(10 * Math.exp(0.2), 6);
+    });
+
+    it('should return NaN when the Box-Cox base is not positive', () => {
+      expect(calculateValueFromZScore(-10, 1, 10, 0.2)).toBeNaN(); // 1 + 1*0.2*-10 = -1
+    });
+  });
+
+  describe('inverseNormalCDF', () => {
+    it('should return known quantiles', () => {
+      expect(inverseNormalCDF(0.5)).toBeCloseTo(0, 6);
+      expect(inverseNormalCDF(0.975)).toBeCloseTo(1.959964, 5);
+      expect(inverseNormalCDF(0.03)).toBeCloseTo(-1.880794, 5);
+      expect(inverseNormalCDF(0.004)).toBeCloseTo(-2.652070, 5); // Lower tail region
+    });
+
+    it('should return NaN outside (0, 1)', () => {
+      expect(inverseNormalCDF(0)).toBeNaN();
+      expect(inverseNormalCDF(1)).toBeNaN();
+    });
+  });
+
+  describe('parseCentileLineKey', () => {
+    it('should parse centile and SD keys', () => {
+      expect(parseCentileLineKey('p50')).toEqual({ key: 'p50', label: 'P50', z: expect.closeTo(0, 6) });
+      expect(parseCentileLineKey('p99.6')!.z).toBeCloseTo(2.652, 3);
+      expect(parseCentileLineKey('z-2')).toEqual({ key: 'z-2', label: 'Z-2', z: -2 });
+    });
+
+    it('should reject unrecognised keys', () => {
+      expect(parseCentileLineKey('median')).toBeNull();
+      expect(parseCentileLineKey('p0')).toBeNull();
+      expect(parseCentileLineKey('p100')).toBeNull();
+    });
+  });
+
+  describe('generateCentileCurves', () => {
+    const lmsData: LMSDataPoint[] = [
+      { age: 0, l: -0.45, m: 49.92, s: 0.038 },  // WHO Length Boys, birth
+      { age: 12, l: 0.07, m: 75.72, s: 0.033 },  // WHO Length Boys, 12 months
+      { age: 24, l: 0.18, m: 87.63, s: 0.035 },  // WHO Length Boys, 24 months
+    ];
+
+    it('should generate points at a fine resolution including tabulated ages', () => {
+      const curves = generateCentileCurves(lmsData, [parseCentileLineKey('p50')!], 0.5);
+      const ages = curves.p50.map(p => p.x);
+      expect(ages).toHaveLength(49); // 0..24 in 0.5 month steps
+      expect(ages).toEqual(expect.arrayContaining([0, 12, 24]));
+      expect(curves.p50.find(p => p.x === 12)!.y).toBeCloseTo(75.72, 6);
+    });
+
+    it('should reproduce tabulated WHO centiles from LMS', () => {
+      const curves = generateCentileCurves(lmsData, ['p3', 'p97'].map(k => parseCentileLineKey(k)!));
+      expect(curves.p3.find(p => p.x === 12)!.y).toBeCloseTo(71.0, 0);
+      expect(curves.p97.find(p => p.x === 12)!.y).toBeCloseTo(80.5, 0);
+    });
+
+    it('should produce ordered lines for any requested set', () => {
+      const curves = generateCentileCurves(lmsData, CENTILE_LINE_PRESETS['uk-who']);
+      const at6 = CENTILE_LINE_PRESETS['uk-who'].map(line => curves[line.key].find(p => p.x === 6)!.y);
+      expect([...at6].sort((a, b) => a - b)).toEqual(at6);
+    });
+
+    it('should return empty curves when no LMS data is available', () => {
+      expect(generateCentileCurves([], [parseCentileLineKey('p50')!])).toEqual({ p50: [] });
+    });
+  });
+
+  describe('resolveCentileLines', () => {
+    it('should prefer a settings preset over the manifest', () => {
+      expect(resolveCentileLines('sd', ['p3', 'p97'], ['p50'])).toBe(CENTILE_LINE_PRESETS.sd);
+    });
+
+    it('should use manifest lines, then tabulated columns, for the manifest preset', () => {
+      expect(resolveCentileLines('manifest', ['p3', 'z2'], ['p50']).map(l => l.key)).toEqual(['p3', 'z2']);
+      expect(resolveCentileLines(undefined, undefined, ['p15', 'p85']).map(l => l.key)).toEqual(['p15', 'p85']);
+    });
+
+    it('should skip unrecognised keys', () => {
+      expect(resolveCentileLines('manifest', ['p50', 'bogus']).map(l => l.key)).toEqual(['p50']);
+    });
+  });
+
+  describe('calculateWHORestrictedZScore', () => {
+    // WHO weight-for-age, boys, 12 months: L=0.0644, M=9.6479, S=0.10925
+    // Published SD lines: -3 SD 6.9 kg, -2 SD 7.7 kg, +2 SD 12.0 kg, +3 SD 13.3 kg
+    const [l, m, s] = [0.0644, 9.6479, 0.10925];
+
+    it('should reproduce the published WHO SD lines', () => {
+      expect(calculateValueFromZScore(-3, l, m, s)).toBeCloseTo(6.9, 1);
+      expect(calculateValueFromZScore(-2, l, m, s)).toBeCloseTo(7.7, 1);
+      expect(calculateValueFromZScore(2, l, m, s)).toBeCloseTo(12.0, 1);
+      expect(calculateValueFromZScore(3, l, m, s)).toBeCloseTo(13.3, 1);
+    });
+
+    it('should equal the LMS Z-score within ±3 SD', () => {
+      expect(calculateWHORestrictedZScore(m, l, m, s)).toBeCloseTo(0, 9);
+      expect(calculateWHORestrictedZScore(11, l, m, s)).toBeCloseTo(calculateZScore(11, l, m, s), 9);
+    });
+
+    it('should be exactly ±3 at the SD3 lines', () => {
+      expect(calculateWHORestrictedZScore(calculateValueFromZScore(3, l, m, s), l, m, s)).toBeCloseTo(3, 6);
+      expect(calculateWHORestrictedZScore(calculateValueFromZScore(-3, l, m, s), l, m, s)).toBeCloseTo(-3, 6);
+    });
+
+    it('should extrapolate above +3 SD using the SD23 distance', () => {
+      // SD3pos = 13.3442, SD23pos = 13.3442 - 11.9857 = 1.3584; z* = 3 + (17 - 13.3442) / 1.3584
+      expect(calculateWHORestrictedZScore(17, l, m, s)).toBeCloseTo(5.69, 2);
+      expect(calculateZScore(17, l, m, s)).toBeCloseTo(5.28, 2); // Raw LMS underestimates
+    });
+
+    it('should extrapolate below -3 SD using the SD23 distance', () => {
+      // SD3neg = 6.9274, SD23neg = 7.7422 - 6.9274 = 0.8148; z* = -3 + (6 - 6.9274) / 0.8148
+      expect(calculateWHORestrictedZScore(6, l, m, s)).toBeCloseTo(-4.14, 2);
+      expect(calculateZScore(6, l, m, s)).toBeCloseTo(-4.28, 2);
+    });
+
+    it('should be selectable as a Z-score method', () => {
+      const whoWeightBoys: LMSDataPoint[] = [{ age: 12, l, m, s }];
+      expect(getZScoreResultForMeasurement(17, 12, whoWeightBoys, 'who-restricted')!.zScore).toBeCloseTo(5.69, 2);
+      expect(getZScoreResultForMeasurement(17, 12, whoWeightBoys, 'lms')!.zScore).toBeCloseTo(5.28, 2);
+    });
+  });
+
+  describe('CDC extended BMI', () => {
+    // CDC BMI-for-age LMS at 120.5 months (bmiagerev)
+    const boysBMI: LMSDataPoint[] = [{ age: 120.5, l: -2.765648008, m: 16.64613844, s: 0.120112464 }];
+    const girlsBMI: LMSDataPoint[] = [{ age: 120.5, l: -2.171295888, m: 16.86231366, s: 0.137057004 }];
+
+    describe('classifyBMIObesity', () => {
+      it('should classify by percentage of the 95th percentile', () => {
+        expect(classifyBMIObesity(99.9, 25)).toBeUndefined();
+        expect(classifyBMIObesity(100, 25)).toBe('Class 1 obesity');
+        expect(classifyBMIObesity(120, 25)).toBe('Class 2 severe obesity');
+        expect(classifyBMIObesity(140, 30)).toBe('Class 3 severe obesity');
+      });
+
+      it('should apply the absolute BMI thresholds', () => {
+        expect(classifyBMIObesity(110, 35)).toBe('Class 2 severe obesity');
+        expect(classifyBMIObesity(115, 40)).toBe('Class 3 severe obesity');
+      });
+    });
+
+    describe('calculateCDCExtendedBMI', () => {
+      it('should use the LMS Z-score below the 95th percentile', () => {
+        const result = calculateCDCExtendedBMI(18, 120.5, 'male', boysBMI)!;
+        expect(result.isExtended).toBe(false);
+        expect(result.zScore).toBeCloseTo(calculateZScore(18, -2.765648008, 16.64613844, 0.120112464), 9);
+        expect(result.obesityClass).toBeUndefined();
+      });
+
+      it('should be continuous at the 95th percentile', () => {
+        const p95 = calculateValueFromZScore(1.64486, -2.765648008, 16.64613844, 0.120112464);
+        const result = calculateCDCExtendedBMI(p95, 120.5, 'male', boysBMI)!;
+        expect(result.isExtended).toBe(true);
+        expect(result.zScore).toBeCloseTo(1.6449, 3);
+        expect(result.percentOf95th).toBeCloseTo(100, 3);
+        expect(result.obesityClass).toBe('Class 1 obesity');
+      });
+
+      it('should calculate extended Z-scores and %P95 for boys', () => {
+        const result = calculateCDCExtendedBMI(30, 120.5, 'male', boysBMI)!;
+        expect(result.isExtended).toBe(true);
+        expect(result.percentOf95th).toBeCloseTo(135.42, 2);
+        expect(result.zScore).toBeCloseTo(2.6003, 3); // Plain LMS would give 2.42
+        expect(result.obesityClass).toBe('Class 2 severe obesity');
+      });
+
+      it('should use the sex-specific dispersion for girls', () => {
+        const result = calculateCDCExtendedBMI(36, 120.5, 'female', girlsBMI)!;
+        expect(result.percentOf95th).toBeCloseTo(156.64, 2);
+        expect(result.zScore).toBeCloseTo(3.5796, 3);
+        expect(result.obesityClass).toBe('Class 3 severe obesity');
+      });
+
+      it('should keep the Z-score finite at extreme BMI', () => {
+        const result = calculateCDCExtendedBMI(120, 120.5, 'male', boysBMI)!;
+        expect(isFinite(result.zScore)).toBe(true);
+        expect(result.zScore).toBeCloseTo(8.21, 2);
+      });
+
+      it('should return null when LMS data does not cover the age', () => {
+        expect(calculateCDCExtendedBMI(30, 60, 'male', boysBMI)).toBeNull();
+      });
+    });
+
+    describe('getZScoreResultForMeasurement', () => {
+      it('should apply the extended method only when declared for the chart', () => {
+        expect(getZScoreResultForMeasurement(30, 120.5, boysBMI)!.zScore).toBeCloseTo(2.4199, 3);
+        expect(getZScoreResultForMeasurement(30, 120.5, boysBMI, 'cdc-extended-bmi', 'male')!.zScore).toBeCloseTo(2.6003, 3);
+      });
+
+      it('should fall back to LMS when the reference sex is not specific', () => {
+        expect(getZScoreResultForMeasurement(30, 120.5, boysBMI, 'cdc-extended-bmi', 'any')!.isExtended).toBeUndefined();
+      });
+
+      it('should return null when no Z-score can be calculated', () => {
+        expect(getZScoreResultForMeasurement(30, 60, boysBMI)).toBeNull();
+      });
+    });
+  });
 });
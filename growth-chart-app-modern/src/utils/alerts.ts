@@ -0,0 +1,181 @@
+// src/utils/alerts.ts
+
+import type { GrowthRecord } from '../store/appStore';
+import { convertToMetricForCalc } from './units';
+import { formatPercentile } from './zScoreCalculator';
+import type { ZScoreResult } from './zScoreCalculator';
+
+export type GrowthAlertType = 'centile-crossing' | 'weight-faltering' | 'rapid-bmi-rise';
+export type GrowthAlertSeverity = 'warning' | 'concern';
+
+export interface GrowthAlert {
+  type: GrowthAlertType;
+  severity: GrowthAlertSeverity;
+  measurementType: GrowthRecord['measurementType']; // 'Height' also covers lengths
+  recordId: string;      // The record at which the alert is raised
+  fromRecordId?: string; // The earlier record it is compared with
+  ageMonths: number;
+  message: string;
+}
+
+export const GROWTH_ALERT_LABELS: Record<GrowthAlertType, string> = {
+  'centile-crossing': 'Centile crossing',
+  'weight-faltering': 'Weight faltering',
+  'rapid-bmi-rise': 'Rapid BMI rise',
+};
+
+// Major centile lines (0.4th to 99.6th) are two thirds of a standard deviation apart
+export const CENTILE_SPACE_Z = 2 / 3;
+const MAJOR_CENTILE_LINES_Z = [-4, -3, -2, -1, 0, 1, 2, 3, 4].map(k => k * CENTILE_SPACE_Z);
+
+export const CENTILE_CROSSING_MIN_LINES = 2;
+export const RAPID_BMI_RISE_Z = CENTILE_SPACE_Z; // A rise of one centile space...
+export const RAPID_BMI_RISE_WINDOW_MONTHS = 12; // ...within a year
+
+// Weight faltering thresholds from NICE guideline NG75 (2017)
+export const BIRTH_WEIGHT_MAX_AGE_MONTHS = 0.25; // A weight in the first week stands in for birth weight
+export const NEONATAL_WEIGHT_LOSS_MAX_AGE_MONTHS = 1;
+export const NEONATAL_WEIGHT_LOSS_PERCENT = 10;
+const FALTERING_LOW_WEIGHT_Z = -2; // 2nd centile
+
+/**
+ * Centile spaces a weight must fall from birth to count as faltering: 1 if birth weight was below the
+ * 9th centile, 2 between the 9th and 91st, 3 above the 91st.
+ */
+export function getFalteringThresholdSpaces(birthWeightZ: number): number {
+  if (birthWeightZ < -2 * CENTILE_SPACE_Z) return 1;
+  if (birthWeightZ > 2 * CENTILE_SPACE_Z) return 3;
+  return 2;
+}
+
+/**
+ * The number of major centile lines between two Z-scores.
+ */
+export function countCentileLinesCrossed(fromZ: number, toZ: number): number {
+  return MAJOR_CENTILE_LINES_Z.filter(line => (fromZ < line) !== (toZ < line)).length;
+}
+
+// --- Rules ---
+
+interface ZScorePoint {
+  record: GrowthRecord;
+  zScore: number;
+}
+
+interface GrowthAlertContext {
+  records: GrowthRecord[];
+  series: Partial<Record<GrowthRecord['measurementType'], ZScorePoint[]>>; // Assessed records of each type, in age order
+}
+
+type GrowthAlertRule = (context: GrowthAlertContext) => GrowthAlert[];
+
+const CENTILE_CROSSING_TYPES: GrowthRecord['measurementType'][] = ['Weight', 'Height', 'HeadCircumference'];
+const MEASUREMENT_LABELS: Partial<Record<GrowthRecord['measurementType'], string>> = { Height: 'Length/height', HeadCircumference: 'Head circumference' };
+const measurementLabel = (type: GrowthRecord['measurementType']) => MEASUREMENT_LABELS[type] ?? type;
+const formatMonths = (months: number) => `${months.toFixed(1)} months`;
+
+// Each measurement against the earlier one it has crossed the most major centile lines from
+const centileCrossingRule: GrowthAlertRule = ({ series }) => CENTILE_CROSSING_TYPES.flatMap(type => {
+  const points = series[type] ?? [];
+  return points.flatMap((point, index) => {
+    const earlier = points.slice(0, index).filter(p => p.record.ageMonths < point.record.ageMonths);
+    if (earlier.length === 0) return [];
+    const from = earlier.reduce((best, p) => countCentileLinesCrossed(p.zScore, point.zScore) > countCentileLinesCrossed(best.zScore, point.zScore) ? p : best);
+    const linesCrossed = countCentileLinesCrossed(from.zScore, point.zScore);
+    if (linesCrossed < CENTILE_CROSSING_MIN_LINES) return [];
+    const direction = point.zScore < from.zScore ? 'downwards' : 'upwards';
+    return [{
+      type: 'centile-crossing', severity: 'warning', measurementType: type, recordId: point.record.id, fromRecordId: from.record.id, ageMonths: point.record.ageMonths,
+      message: `${measurementLabel(type)} has crossed ${linesCrossed} major centile lines ${direction} since ${formatMonths(from.record.ageMonths)} (${formatPercentile(from.zScore)} to ${formatPercentile(point.zScore)}).`,
+    } as GrowthAlert];
+  });
+});
+
+// NICE NG75: a fall from birth weight across the threshold number of centile spaces, a weight below the 2nd centile,
+// or a newborn losing 10% or more of their birth weight
+const weightFalteringRule: GrowthAlertRule = ({ records, series }) => {
+  const weights = records.filter(r => r.measurementType === 'Weight').sort((a, b) => a.ageMonths - b.ageMonths);
+  const birthWeight = weights[0]?.ageMonths <= BIRTH_WEIGHT_MAX_AGE_MONTHS ? weights[0] : undefined;
+  const birthWeightZ = series.Weight?.find(p => p.record.id === birthWeight?.id)?.zScore;
+  const alert = (record: GrowthRecord, message: string): GrowthAlert => ({
+    type: 'weight-faltering', severity: 'concern', measurementType: 'Weight', recordId: record.id, fromRecordId: birthWeight?.id, ageMonths: record.ageMonths, message,
+  });
+
+  const alerts: GrowthAlert[] = [];
+  weights.filter(r => r !== birthWeight).forEach(record => {
+    const zScore = series.Weight?.find(p => p.record.id === record.id)?.zScore;
+    if (birthWeight && record.ageMonths <= NEONATAL_WEIGHT_LOSS_MAX_AGE_MONTHS) {
+      const birthWeightKg = convertToMetricForCalc(birthWeight.value, birthWeight.unit as GrowthRecord['unit']);
+      const lossPercent = (birthWeightKg - convertToMetricForCalc(record.value, record.unit as GrowthRecord['unit'])) / birthWeightKg * 100;
+      if (lossPercent >= NEONATAL_WEIGHT_LOSS_PERCENT) {
+        alerts.push(alert(record, `Weight is ${lossPercent.toFixed(0)}% below birth weight.`));
+        return;
+      }
+    }
+    if (zScore === undefined) return;
+    if (birthWeightZ !== undefined) {
+      const spacesFallen = (birthWeightZ - zScore) / CENTILE_SPACE_Z;
+      const threshold = getFalteringThresholdSpaces(birthWeightZ);
+      if (spacesFallen >= threshold) {
+        alerts.push(alert(record, `Weight has fallen ${spacesFallen.toFixed(1)} centile spaces since birth (${formatPercentile(birthWeightZ)} to ${formatPercentile(zScore)}); the threshold for this birth weight is ${threshold}.`));
+        return;
+      }
+    }
+    if (zScore < FALTERING_LOW_WEIGHT_Z) alerts.push(alert(record, `Weight is below the 2nd centile (${formatPercentile(zScore)}).`));
+  });
+  return alerts;
+};
+
+// Each BMI against the earlier one within a year it has risen most from
+const rapidBMIRiseRule: GrowthAlertRule = ({ series }) => {
+  const points = series.BMI ?? [];
+  return points.flatMap(point => {
+    const earlier = points.filter(p => p.record.ageMonths < point.record.ageMonths && point.record.ageMonths - p.record.ageMonths <= RAPID_BMI_RISE_WINDOW_MONTHS);
+    if (earlier.length === 0) return [];
+    const from = earlier.reduce((lowest, p) => p.zScore < lowest.zScore ? p : lowest);
+    const rise = point.zScore - from.zScore;
+    if (rise < RAPID_BMI_RISE_Z) return [];
+    return [{
+      type: 'rapid-bmi-rise', severity: 'warning', measurementType: 'BMI', recordId: point.record.id, fromRecordId: from.record.id, ageMonths: point.record.ageMonths,
+      message: `BMI has risen ${rise.toFixed(2)} SD in ${formatMonths(point.record.ageMonths - from.record.ageMonths)} (${formatPercentile(from.zScore)} to ${formatPercentile(point.zScore)}).`,
+    } as GrowthAlert];
+  });
+};
+
+const GROWTH_ALERT_RULES: GrowthAlertRule[] = [centileCrossingRule, weightFalteringRule, rapidBMIRiseRule];
+
+/**
+ * Runs the growth alert rules over a patient's Z-score history: crossing two or more major centile lines,
+ * weight faltering (NICE NG75) and a rapid rise in BMI. Lengths and heights form one series.
+ * Low height velocity is not assessed: no height velocity centile reference is bundled.
+ * @param records The patient's records.
+ * @param zScoresByRecordId Z-scores of the records, as from calculateRecordZScores.
+ * @returns Alerts in age order; a trend that persists raises an alert at each record that meets the rule.
+ */
+export function evaluateGrowthAlerts(
+  records: GrowthRecord[],
+  zScoresByRecordId: Record<string, ZScoreResult>
+): GrowthAlert[] {
+  const series: GrowthAlertContext['series'] = {};
+  [...records].sort((a, b) => a.ageMonths - b.ageMonths).forEach(record => {
+    const zScore = zScoresByRecordId[record.id]?.zScore;
+    if (zScore === undefined || isNaN(zScore)) return;
+    const type = record.measurementType === 'Length' ? 'Height' : record.measurementType;
+    (series[type] ??= []).push({ record, zScore });
+  });
+  const context: GrowthAlertContext = { records, series };
+  return GROWTH_ALERT_RULES.flatMap(rule => rule(context)).sort((a, b) => a.ageMonths - b.ageMonths);
+}
+
+/**
+ * The most recent alert of each type and measurement, for a summary of a patient's current concerns.
+ */
+export function getLatestAlerts(alerts: GrowthAlert[]): GrowthAlert[] {
+  const latest = new Map<string, GrowthAlert>();
+  alerts.forEach(alert => {
+    const key = `${alert.type}:${alert.measurementType}`;
+    const existing = latest.get(key);
+    if (!existing || alert.ageMonths >= existing.ageMonths) latest.set(key, alert);
+  });
+  return [...latest.values()].sort((a, b) => b.ageMonths - a.ageMonths);
+}
@@ -0,0 +1,135 @@
+// src/utils/boneAge.ts
+
+import type { GrowthRecord, Patient } from '../store/appStore';
+import { convertToMetricForCalc } from './units';
+
+export type BoneAgeMethod = 'greulich-pyle' | 'tw3';
+
+export const BONE_AGE_METHOD_LABELS: Record<BoneAgeMethod, string> = {
+  'greulich-pyle': 'Greulich-Pyle',
+  'tw3': 'TW3',
+};
+
+export const BONE_AGE_HEIGHT_MAX_GAP_MONTHS = 1; // Height must be measured within a month of the X-ray
+
+/**
+ * Returns a bone age record's value in months; bone age may be entered in years or months.
+ * @returns Bone age in months, or NaN if the record is not a bone age or its unit is unknown.
+ */
+export function getBoneAgeMonths(record: Pick<GrowthRecord, 'measurementType' | 'value' | 'unit'>): number {
+  if (record.measurementType !== 'BoneAge') return NaN;
+  if (record.unit === 'months') return record.value;
+  if (record.unit === 'years') return record.value * 12;
+  return NaN;
+}
+
+/**
+ * Formats months as years and months, e.g. 130 -> "10y 10m".
+ */
+export function formatYearsMonths(months: number): string {
+  const wholeMonths = Math.round(months);
+  return `${Math.floor(wholeMonths / 12)}y ${wholeMonths % 12}m`;
+}
+
+export type SkeletalMaturity = 'average' | 'accelerated' | 'retarded';
+
+export const SKELETAL_MATURITY_THRESHOLD_MONTHS = 12; // Bone age at least a year ahead of (or behind) chronological age
+
+export interface BayleyPinneauRow {
+  boneAgeYears: number;
+  percentOfAdultHeight: number; // Percent of adult height reached at this bone age
+}
+
+export interface BayleyPinneauTable {
+  sex: 'male' | 'female';
+  maturity: SkeletalMaturity;
+  rows: BayleyPinneauRow[]; // Sorted by bone age
+}
+
+export interface BayleyPinneauTableData {
+  source: string;
+  tables: BayleyPinneauTable[];
+}
+
+/**
+ * Classifies skeletal maturity for the Bayley-Pinneau tables by comparing bone age with chronological age.
+ */
+export function getSkeletalMaturity(boneAgeMonths: number, chronologicalAgeMonths: number): SkeletalMaturity {
+  const difference = boneAgeMonths - chronologicalAgeMonths;
+  if (difference >= SKELETAL_MATURITY_THRESHOLD_MONTHS) return 'accelerated';
+  if (difference <= -SKELETAL_MATURITY_THRESHOLD_MONTHS) return 'retarded';
+  return 'average';
+}
+
+/**
+ * Interpolates the percent of adult height reached at a bone age.
+ * @returns The percent, or NaN if the bone age is outside the table.
+ */
+function getPercentOfAdultHeight(rows: BayleyPinneauRow[], boneAgeYears: number): number {
+  const upperIndex = rows.findIndex(row => row.boneAgeYears >= boneAgeYears);
+  if (upperIndex === -1 || boneAgeYears < rows[0].boneAgeYears) return NaN;
+  const upper = rows[upperIndex];
+  if (upper.boneAgeYears === boneAgeYears) return upper.percentOfAdultHeight;
+  const lower = rows[upperIndex - 1];
+  const weight = (boneAgeYears - lower.boneAgeYears) / (upper.boneAgeYears - lower.boneAgeYears);
+  return lower.percentOfAdultHeight + (upper.percentOfAdultHeight - lower.percentOfAdultHeight) * weight;
+}
+
+/**
+ * Finds the latest bone age and the height measured closest to it, as used for adult height prediction.
+ * @returns The pair, or null without a bone age or without a height within a month of it.
+ */
+export function findBoneAgeWithHeight(records: GrowthRecord[]): { boneAgeRecord: GrowthRecord; heightRecord: GrowthRecord } | null {
+  const boneAgeRecord = records
+    .filter(r => !isNaN(getBoneAgeMonths(r)))
+    .sort((a, b) => a.ageMonths - b.ageMonths)
+    .pop();
+  if (!boneAgeRecord) return null;
+
+  const heightRecord = records
+    .filter(r => r.measurementType === 'Height' || r.measurementType === 'Length')
+    .sort((a, b) => Math.abs(a.ageMonths - boneAgeRecord.ageMonths) - Math.abs(b.ageMonths - boneAgeRecord.ageMonths))[0];
+  if (!heightRecord || Math.abs(heightRecord.ageMonths - boneAgeRecord.ageMonths) > BONE_AGE_HEIGHT_MAX_GAP_MONTHS) return null;
+  return { boneAgeRecord, heightRecord };
+}
+
+export interface AdultHeightPrediction {
+  predictedHeightCm: number;
+  boneAgeRecord: GrowthRecord;
+  heightRecord: GrowthRecord;
+  maturity: SkeletalMaturity;
+}
+
+/**
+ * Predicts adult height by the Bayley-Pinneau method from the latest bone age and the height measured
+ * closest to it (see findBoneAgeWithHeight): the height is divided by the percent of adult height reached at that bone age, read
+ * from the table for the patient's sex and skeletal maturity.
+ * @param records The patient's records.
+ * @param patient The patient, for their sex.
+ * @param tables The Bayley-Pinneau tables (see loadBayleyPinneauTables).
+ * @returns The prediction, or null without a bone age, without a height within a month of it,
+ * outside the tabulated bone ages, or for a sex other than Male/Female.
+ */
+export function predictAdultHeightFromBoneAge(
+  records: GrowthRecord[],
+  patient: Pick<Patient, 'sex'>,
+  tables: BayleyPinneauTable[]
+): AdultHeightPrediction | null {
+  if (patient.sex !== 'Male' && patient.sex !== 'Female') return null;
+  const pair = findBoneAgeWithHeight(records);
+  if (!pair) return null;
+  const { boneAgeRecord, heightRecord } = pair;
+
+  const boneAgeMonths = getBoneAgeMonths(boneAgeRecord);
+  const maturity = getSkeletalMaturity(boneAgeMonths, boneAgeRecord.ageMonths);
+  const sex = patient.sex === 'Male' ? 'male' : 'female';
+  const table = tables.find(t => t.sex === sex && t.maturity === maturity);
+  if (!table) return null;
+
+  const percent = getPercentOfAdultHeight(table.rows, boneAgeMonths / 12);
+  const heightCm = convertToMetricForCalc(heightRecord.value, heightRecord.unit);
+  if (isNaN(percent) || isNaN(heightCm)) return null;
+
+  const predictedHeightCm = heightCm / (percent / 100);
+  return { predictedHeightCm: parseFloat(predictedHeightCm.toFixed(1)), boneAgeRecord, heightRecord, maturity };
+}
@@ -1,5 +1,10 @@
 // src/utils/calculations.ts
 
+import type { GrowthRecord, Patient } from '../store/appStore';
+import { convertToMetricForCalc, parseUnit } from './units';
+import { getPubertyStageAtAge } from './puberty';
+import type { TannerStage } from './puberty';
+
 /**
  * Calculates Body Mass Index (BMI).
  * BMI = weight (kg) / (height (m))^2
@@ -63,17 +68,188 @@ export function calculateAgeInMonths(dobString: string, observationDateString: s
   return parseFloat(totalMonths.toFixed(2));
 }
 
+/**
+ * Formats an age in months for people rather than charts, e.g. 15 -> "1 year 3 months".
+ * Ages under a month are given in days.
+ */
+export function formatAge(ageMonths: number): string {
+  if (isNaN(ageMonths)) return 'Unknown';
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+  if (ageMonths < 1) return plural(Math.floor(ageMonths * 30.4375), 'day');
+  const wholeMonths = Math.floor(ageMonths);
+  const years = Math.floor(wholeMonths / 12), months = wholeMonths % 12;
+  if (years === 0) return plural(months, 'month');
+  return months === 0 ? plural(years, 'year') : `${plural(years, 'year')} ${plural(months, 'month')}`;
+}
+
+export const AGE_MISMATCH_TOLERANCE_MONTHS = 0.1; // ~3 days
+
+/**
+ * Checks whether a record's stored age disagrees with the age implied by its date.
+ * Used to flag legacy records whose age was entered manually.
+ * @param record Record with stored `ageMonths` and measurement `date`.
+ * @param dobString Patient's date of birth.
+ * @param toleranceMonths Allowed difference before the record is flagged.
+ * @returns True if the stored age differs from the computed age; false if it matches or cannot be computed.
+ */
+export function hasAgeDateMismatch(
+  record: Pick<GrowthRecord, 'ageMonths' | 'date'>,
+  dobString: string,
+  toleranceMonths: number = AGE_MISMATCH_TOLERANCE_MONTHS
+): boolean {
+  const expectedAgeMonths = calculateAgeInMonths(dobString, record.date);
+  if (isNaN(expectedAgeMonths)) return false;
+  return Math.abs(expectedAgeMonths - record.ageMonths) > toleranceMonths;
+}
+
+
+// --- Gestational Age Correction ---
+
+export const TERM_GESTATION_WEEKS = 40;
+export const PRETERM_THRESHOLD_WEEKS = 37;
+export const DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS = 24;
+const AVERAGE_DAYS_PER_MONTH = 30.4375;
+
+/**
+ * Returns the total gestational age at birth in weeks (e.g. 32+4 -> 32.571...).
+ * @param weeks Completed weeks of gestation.
+ * @param days Additional days (0-6).
+ * @returns Gestational age in fractional weeks, or NaN if weeks is missing/invalid.
+ */
+export function totalGestationalWeeks(weeks?: number, days?: number): number {
+  if (weeks === undefined || isNaN(weeks) || weeks <= 0) return NaN;
+  return weeks + (days && !isNaN(days) ? days : 0) / 7;
+}
+
+/**
+ * Whether a baby born at the given gestation is preterm (< 37 completed weeks).
+ */
+export function isPreterm(weeks?: number, days?: number): boolean {
+  const totalWeeks = totalGestationalWeeks(weeks, days);
+  return !isNaN(totalWeeks) && totalWeeks < PRETERM_THRESHOLD_WEEKS;
+}
+
+/**
+ * Derives gestational age at birth from the date of birth and estimated due date (EDD),
+ * as recorded by the legacy app (`demographics.EDD`).
+ * @param dobString Date of birth string.
+ * @param eddString Estimated due date string.
+ * @returns `{ weeks, days }` of gestation at birth, or null if dates are invalid.
+ */
+export function gestationalAgeFromEDD(dobString: string, eddString: string): { weeks: number; days: number } | null {
+  const dob = new Date(dobString);
+  const edd = new Date(eddString);
+  dob.setHours(12, 0, 0, 0);
+  edd.setHours(12, 0, 0, 0);
+  if (isNaN(dob.getTime()) || isNaN(edd.getTime())) return null;
+
+  const daysEarly = Math.round((edd.getTime() - dob.getTime()) / 86400000);
+  const gestationDays = TERM_GESTATION_WEEKS * 7 - daysEarly;
+  if (gestationDays <= 0) return null;
+  return { weeks: Math.floor(gestationDays / 7), days: gestationDays % 7 };
+}
+
+/**
+ * Calculates corrected (adjusted) age by subtracting the weeks born before term
+ * from chronological age. Result may be negative before the baby reaches term.
+ * @param chronologicalAgeMonths Chronological age in months.
+ * @param gestationalAgeWeeks Completed weeks of gestation at birth.
+ * @param gestationalAgeDays Additional days of gestation at birth.
+ * @returns Corrected age in months, rounded to two decimal places, or NaN for invalid input.
+ */
+export function calculateCorrectedAgeInMonths(
+  chronologicalAgeMonths: number,
+  gestationalAgeWeeks: number,
+  gestationalAgeDays: number = 0
+): number {
+  const totalWeeks = totalGestationalWeeks(gestationalAgeWeeks, gestationalAgeDays);
+  if (isNaN(chronologicalAgeMonths) || isNaN(totalWeeks)) return NaN;
+  const weeksEarly = Math.max(0, TERM_GESTATION_WEEKS - totalWeeks);
+  const correctionMonths = (weeksEarly * 7) / AVERAGE_DAYS_PER_MONTH;
+  return parseFloat((chronologicalAgeMonths - correctionMonths).toFixed(2));
+}
+
+/**
+ * Picks the age to plot/assess a measurement at: corrected age for preterm babies
+ * until the chronological cut-off (typically 24 months), otherwise chronological age.
+ * @param chronologicalAgeMonths Chronological age in months at measurement.
+ * @param patient Patient whose gestational age (if any) should be applied.
+ * @param cutoffMonths Chronological age after which correction stops.
+ */
+export function getAgeForAssessment(
+  chronologicalAgeMonths: number,
+  patient: Pick<Patient, 'gestationalAgeWeeks' | 'gestationalAgeDays'> | null | undefined,
+  cutoffMonths: number = DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS
+): { ageMonths: number; isCorrected: boolean } {
+  if (!patient || !isPreterm(patient.gestationalAgeWeeks, patient.gestationalAgeDays) || chronologicalAgeMonths >= cutoffMonths) {
+    return { ageMonths: chronologicalAgeMonths, isCorrected: false };
+  }
+  const corrected = calculateCorrectedAgeInMonths(chronologicalAgeMonths, patient.gestationalAgeWeeks!, patient.gestationalAgeDays);
+  if (isNaN(corrected)) return { ageMonths: chronologicalAgeMonths, isCorrected: false };
+  return { ageMonths: corrected, isCorrected: true };
+}
+
+
+// --- Mid-Parental Height ---
+
+export const ADULT_HEIGHT_AGE_MONTHS = 240; // Age at which adult height is read off the chart
+export const MID_PARENTAL_SEX_ADJUSTMENT_CM = 13; // Average adult height difference between men and women
+export const TARGET_HEIGHT_RANGE_CM = 8.5; // Half-width of the target range (about 2 SD)
+
+export interface TargetHeight {
+  midParentalHeightCm: number;
+  lowerCm: number;
+  upperCm: number;
+}
+
+/**
+ * Calculates the sex-adjusted mid-parental height (Tanner method): the parents' mean height,
+ * plus 6.5 cm for boys or minus 6.5 cm for girls.
+ * @param fatherHeightCm Biological father's height in centimeters.
+ * @param motherHeightCm Biological mother's height in centimeters.
+ * @param sex The child's sex.
+ * @returns Mid-parental height in cm, rounded to one decimal place, or NaN for invalid input or a sex other than Male/Female.
+ */
+export function calculateMidParentalHeight(fatherHeightCm: number, motherHeightCm: number, sex: Patient['sex']): number {
+  if (!(fatherHeightCm > 0) || !(motherHeightCm > 0) || (sex !== 'Male' && sex !== 'Female')) return NaN;
+  const adjustment = sex === 'Male' ? MID_PARENTAL_SEX_ADJUSTMENT_CM : -MID_PARENTAL_SEX_ADJUSTMENT_CM;
+  return parseFloat(((fatherHeightCm + motherHeightCm + adjustment) / 2).toFixed(1));
+}
+
+/**
+ * The adult height range a child is expected to reach given their parents' heights:
+ * mid-parental height ± 8.5 cm.
+ * @returns The target range, or null if either parent's height is missing or the sex is not Male/Female.
+ */
+export function calculateTargetHeight(patient: Pick<Patient, 'fatherHeightCm' | 'motherHeightCm' | 'sex'>): TargetHeight | null {
+  if (patient.fatherHeightCm === undefined || patient.motherHeightCm === undefined) return null;
+  const midParentalHeightCm = calculateMidParentalHeight(patient.fatherHeightCm, patient.motherHeightCm, patient.sex);
+  if (isNaN(midParentalHeightCm)) return null;
+  return {
+    midParentalHeightCm,
+    lowerCm: parseFloat((midParentalHeightCm - TARGET_HEIGHT_RANGE_CM).toFixed(1)),
+    upperCm: parseFloat((midParentalHeightCm + TARGET_HEIGHT_RANGE_CM).toFixed(1)),
+  };
+}
+
 
 // --- Growth Velocity Calculations ---
 
-import { GrowthRecord } from '../store/appStore';
+// Over shorter intervals measurement error dominates the annualized velocity
+export const DEFAULT_HEIGHT_VELOCITY_MIN_INTERVAL_MONTHS = 4;
+export const DEFAULT_WEIGHT_VELOCITY_MIN_INTERVAL_MONTHS = 1;
+export const DEFAULT_VELOCITY_WINDOW_MONTHS = 12; // Annual velocity, as in the Tanner and CDC velocity references
 
 export interface VelocityDataPoint {
   ageMonthsMidPoint: number;
+  intervalMonths: number;
   velocity: number;
   velocityUnit: string;
   originalRecord1Date: string;
   originalRecord2Date: string;
+  originalRecord1Id: string;
+  originalRecord2Id: string;
+  pubertyStage?: TannerStage; // Tanner stage at the interval midpoint, when puberty was assessed
 }
 
 export function calculateAnnualizedVelocity(
@@ -120,29 +296,101 @@ export function calculateAnnualizedVelocity(
 
   return {
     ageMonthsMidPoint,
+    intervalMonths: record2.ageMonths - record1.ageMonths,
     velocity: parseFloat(velocity.toFixed(2)),
     velocityUnit,
     originalRecord1Date: record1.date,
     originalRecord2Date: record2.date,
+    originalRecord1Id: record1.id,
+    originalRecord2Id: record2.id,
   };
 }
 
+/**
+ * Converts records to kg or cm for velocity calculations. Length and height become one series,
+ * so height velocity continues across the switch to standing height.
+ */
+export function toMetricVelocityRecords(records: GrowthRecord[]): GrowthRecord[] {
+  return records.map(rec => ({
+    ...rec,
+    measurementType: rec.measurementType === 'Length' ? 'Height' : rec.measurementType,
+    value: convertToMetricForCalc(rec.value, rec.unit as GrowthRecord['unit']),
+    unit: parseUnit(rec.unit)?.dimension === 'mass' ? 'kg' : 'cm',
+  }));
+}
+
+export interface VelocityOptions {
+  minIntervalMonths?: number; // Intervals shorter than this are not annualized
+  windowMonths?: number;      // Preferred interval; 0 or undefined uses the shortest interval allowed
+}
+
+/**
+ * Calculates an annualized velocity ending at each record, from an earlier record at least the
+ * minimum interval before it: the one whose interval is closest to the window, or without a window
+ * the latest one. With no options this is the velocity between each pair of consecutive records.
+ * @param records Records of a single measurement type.
+ * @param pubertyRecords Tanner stage records; each interval is tagged with the stage at its midpoint,
+ * so height velocity can be read against puberty-stage references.
+ * @param options Minimum interval and window, in months.
+ */
 export function generateVelocityDataSeries(
-  records: GrowthRecord[]
+  records: GrowthRecord[],
+  pubertyRecords: GrowthRecord[] = [],
+  options: VelocityOptions = {}
 ): VelocityDataPoint[] {
   if (records.length < 2) {
     return [];
   }
+  const { minIntervalMonths = 0, windowMonths } = options;
   const velocitySeries: VelocityDataPoint[] = [];
   const sortedRecords = [...records].sort((a, b) => a.ageMonths - b.ageMonths);
 
   for (let i = 1; i < sortedRecords.length; i++) {
-    const record1 = sortedRecords[i-1];
     const record2 = sortedRecords[i];
+    const intervalFrom = (r: GrowthRecord) => record2.ageMonths - r.ageMonths;
+    const candidates = sortedRecords.slice(0, i).filter(r => intervalFrom(r) > 0 && intervalFrom(r) >= minIntervalMonths);
+    if (candidates.length === 0) continue;
+    // Candidates are in age order, so ties go to the later record (the shorter interval)
+    const record1 = windowMonths
+      ? candidates.reduce((best, r) => Math.abs(intervalFrom(r) - windowMonths) <= Math.abs(intervalFrom(best) - windowMonths) ? r : best)
+      : candidates[candidates.length - 1];
     const velocityPoint = calculateAnnualizedVelocity(record1, record2);
     if (velocityPoint) {
-      velocitySeries.push(velocityPoint);
+      const pubertyStage = getPubertyStageAtAge(pubertyRecords, velocityPoint.ageMonthsMidPoint);
+      velocitySeries.push(pubertyStage ? { ...velocityPoint, pubertyStage } : velocityPoint);
     }
   }
   return velocitySeries;
 }
+
+
+// --- Visit Pairing ---
+
+export interface PairedMeasurement {
+  record: GrowthRecord;  // The plotted measurement, e.g. weight
+  xRecord: GrowthRecord; // The same-visit measurement on the x-axis, e.g. length
+}
+
+/**
+ * Pairs each record of one type with a record of another type taken on the same day, for charts
+ * plotted against a measurement instead of age (e.g. weight-for-length).
+ * @param records A patient's records.
+ * @param yType Type of the plotted records.
+ * @param xType Type of the records on the x-axis.
+ * @returns One pair per `yType` record with a same-day `xType` record; records without a partner are left out.
+ */
+export function pairRecordsByVisit(
+  records: GrowthRecord[],
+  yType: GrowthRecord['measurementType'],
+  xType: GrowthRecord['measurementType']
+): PairedMeasurement[] {
+  const visitDate = (record: GrowthRecord) => record.date.slice(0, 10);
+  const xRecordsByDate = new Map<string, GrowthRecord>();
+  records.filter(r => r.measurementType === xType).forEach(r => {
+    if (!xRecordsByDate.has(visitDate(r))) xRecordsByDate.set(visitDate(r), r);
+  });
+  return records
+    .filter(r => r.measurementType === yType)
+    .map(record => ({ record, xRecord: xRecordsByDate.get(visitDate(record)) }))
+    .filter((pair): pair is PairedMeasurement => pair.xRecord !== undefined);
+}
@@ -0,0 +1,60 @@
+// src/utils/conditions.ts
+
+import type { Patient } from '../store/appStore';
+
+/**
+ * Conditions that can have their own growth references. Codes are used on `Patient.conditions`
+ * and in the `conditions` tag of centile manifest entries. Patients are only offered those with a tagged chart
+ * (see getChartedConditions); none are bundled yet.
+ */
+export type GrowthConditionCode = 'down_syndrome' | 'turner_syndrome' | 'noonan_syndrome' | 'achondroplasia';
+
+export interface GrowthCondition {
+  code: GrowthConditionCode;
+  label: string;
+  snomedCode: string; // SNOMED CT concept, for matching EHR problem lists
+  aliases: string[];  // Lower-case free-text names recognised in legacy `condition` values
+}
+
+export const GROWTH_CONDITIONS: GrowthCondition[] = [
+  { code: 'down_syndrome', label: 'Down syndrome', snomedCode: '41040004', aliases: ['down syndrome', "down's syndrome", 'trisomy 21'] },
+  { code: 'turner_syndrome', label: 'Turner syndrome', snomedCode: '38804009', aliases: ['turner syndrome', "turner's syndrome", '45,x', '45x'] },
+  { code: 'noonan_syndrome', label: 'Noonan syndrome', snomedCode: '205824006', aliases: ['noonan syndrome', "noonan's syndrome"] },
+  { code: 'achondroplasia', label: 'Achondroplasia', snomedCode: '86268005', aliases: ['achondroplasia'] },
+];
+
+/**
+ * Whether a string is a known growth condition code.
+ */
+export function isGrowthConditionCode(code: string): code is GrowthConditionCode {
+  return GROWTH_CONDITIONS.some(condition => condition.code === code);
+}
+
+/**
+ * Returns the display label for a condition code, or the code itself if it is unknown.
+ */
+export function getConditionLabel(code: string): string {
+  return GROWTH_CONDITIONS.find(condition => condition.code === code)?.label ?? code;
+}
+
+/**
+ * Recognises coded conditions named in free text, e.g. a legacy `condition` of "Trisomy 21".
+ * @returns The codes mentioned, in `GROWTH_CONDITIONS` order.
+ */
+export function parseConditionCodes(text: string | undefined): GrowthConditionCode[] {
+  if (!text) return [];
+  const normalised = text.toLowerCase().replace(/[_\s]+/g, ' ');
+  return GROWTH_CONDITIONS
+    .filter(condition => condition.aliases.some(alias => normalised.includes(alias)))
+    .map(condition => condition.code);
+}
+
+/**
+ * A patient's coded conditions, including any recognised in the free-text `condition` of records
+ * created before conditions were coded.
+ */
+export function getPatientConditions(patient: Pick<Patient, 'conditions' | 'condition'>): GrowthConditionCode[] {
+  const codes = new Set<GrowthConditionCode>(patient.conditions ?? []);
+  parseConditionCodes(patient.condition).forEach(code => codes.add(code));
+  return GROWTH_CONDITIONS.map(condition => condition.code).filter(code => codes.has(code));
+}
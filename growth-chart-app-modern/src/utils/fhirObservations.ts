@@ -0,0 +1,218 @@
+// src/utils/fhirObservations.ts
+
+import type { GrowthRecord, Patient } from '../store/appStore';
+import { calculateAgeInMonths } from './calculations';
+import { parseUnit } from './units';
+
+// The parts of FHIR R4 Observation and Bundle resources the growth data import reads
+export interface FHIRCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FHIRQuantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+export interface FHIRObservation {
+  resourceType: 'Observation';
+  id?: string;
+  status?: string;
+  category?: { coding?: FHIRCoding[] }[];
+  code?: { coding?: FHIRCoding[]; text?: string };
+  subject?: { reference?: string };
+  valueQuantity?: FHIRQuantity;
+  component?: { code?: { coding?: FHIRCoding[] }; valueQuantity?: FHIRQuantity }[];
+  effectiveDateTime?: string;
+  effectivePeriod?: { start?: string; end?: string };
+}
+
+export interface FHIRBundle {
+  resourceType: 'Bundle';
+  link?: { relation: string; url: string }[];
+  entry?: { resource?: { resourceType?: string } }[];
+}
+
+export const LOINC_SYSTEM = 'http://loinc.org';
+export const SNOMED_SYSTEM = 'http://snomed.info/sct';
+export const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+
+// Growth measurement codes, by system
+const GROWTH_CODES: Record<string, Record<string, GrowthRecord['measurementType']>> = {
+  [LOINC_SYSTEM]: {
+    '29463-7': 'Weight', '3141-9': 'Weight',                          // Body weight; measured
+    '8302-2': 'Height', '8308-9': 'Height',                           // Body height; standing
+    '8306-3': 'Length',                                               // Body height, lying
+    '8287-5': 'HeadCircumference', '9843-4': 'HeadCircumference',     // By tape; occipital-frontal
+    '39156-5': 'BMI',
+    '37362-1': 'BoneAge',
+  },
+  [SNOMED_SYSTEM]: {
+    '27113001': 'Weight',
+    '50373000': 'Height', '248333004': 'Height',                      // Body height; standing height
+    '248334005': 'Length',
+    '363812007': 'HeadCircumference',
+    '60621009': 'BMI',
+  },
+};
+
+// Token list for an Observation search's `code` parameter, e.g. "http://loinc.org|29463-7,..."
+export const GROWTH_CODE_SEARCH_PARAM = Object.entries(GROWTH_CODES)
+  .flatMap(([system, codes]) => Object.keys(codes).map(code => `${system}|${code}`))
+  .join(',');
+
+// Codes measurements are written back with, those of the FHIR vital signs profiles; the first is the profile's.
+// A length is a body height (8302-2) to the profile, so its lying code goes second.
+// BMI is not written back: the app derives it from weight and height, as the EHR can.
+const WRITE_BACK_CODES: Partial<Record<GrowthRecord['measurementType'], FHIRCoding[]>> = {
+  Weight: [{ system: LOINC_SYSTEM, code: '29463-7', display: 'Body weight' }],
+  Height: [{ system: LOINC_SYSTEM, code: '8302-2', display: 'Body height' }],
+  Length: [
+    { system: LOINC_SYSTEM, code: '8302-2', display: 'Body height' },
+    { system: LOINC_SYSTEM, code: '8306-3', display: 'Body height --lying' },
+  ],
+  HeadCircumference: [{ system: LOINC_SYSTEM, code: '9843-4', display: 'Head Occipital-frontal circumference' }],
+};
+
+// Statuses of observations that must not be shown: recorded in error, or never made
+const EXCLUDED_STATUSES = ['entered-in-error', 'cancelled'];
+
+/**
+ * The growth measurement a set of codings identifies, from any coding in a known system rather than only the first.
+ * A height also coded as lying is a length.
+ */
+export function getGrowthMeasurementType(codings: FHIRCoding[] = []): GrowthRecord['measurementType'] | undefined {
+  const measurementTypes = codings
+    .map(coding => coding.system && coding.code ? GROWTH_CODES[coding.system]?.[coding.code] : undefined)
+    .filter((measurementType): measurementType is GrowthRecord['measurementType'] => !!measurementType);
+  if (measurementTypes[0] === 'Height' && measurementTypes.includes('Length')) return 'Length';
+  return measurementTypes[0];
+}
+
+/**
+ * Normalizes a FHIR quantity's unit to the app's unit names, preferring its UCUM code to its display unit.
+ */
+export function normalizeFHIRUnit(quantity: FHIRQuantity): string {
+  const definition = parseUnit(quantity.code) ?? parseUnit(quantity.unit);
+  if (definition) return definition.unit;
+  const unit = quantity.code || quantity.unit || '';
+  if (unit === 'kg/m2') return 'kg/m²';
+  if (unit === 'mo' || unit.toLowerCase() === 'months') return 'months';
+  if (unit === 'a' || unit.toLowerCase() === 'years') return 'years';
+  return quantity.unit || unit;
+}
+
+/**
+ * Maps a FHIR Observation to a growth record.
+ * The measurement is identified from any of its codings; its value is the observation's own quantity or,
+ * for panels, that of the component carrying a growth code. The date is `effectiveDateTime`, else the
+ * start (or end) of `effectivePeriod`.
+ * @param patient The app patient the observation belongs to; their DOB gives the record's age.
+ * @returns The record, or null if the observation is not a usable growth measurement or has an excluded status.
+ */
+export function mapObservationToGrowthRecord(obs: FHIRObservation, patient: Pick<Patient, 'id' | 'dob'>): GrowthRecord | null {
+  if (obs.status && EXCLUDED_STATUSES.includes(obs.status)) return null;
+
+  let measurementType = getGrowthMeasurementType(obs.code?.coding);
+  let quantity = obs.valueQuantity;
+  if (!quantity) {
+    const component = obs.component?.find(c => c.valueQuantity && getGrowthMeasurementType(c.code?.coding));
+    if (component) {
+      measurementType = getGrowthMeasurementType(component.code?.coding);
+      quantity = component.valueQuantity;
+    }
+  }
+  if (!measurementType || quantity?.value === undefined || isNaN(quantity.value)) return null;
+
+  const effective = obs.effectiveDateTime ?? obs.effectivePeriod?.start ?? obs.effectivePeriod?.end;
+  if (!effective) return null;
+  const ageMonths = calculateAgeInMonths(patient.dob, effective);
+  if (isNaN(ageMonths)) return null;
+
+  return {
+    id: `FHIR-${obs.id}`, patientId: patient.id,
+    date: effective.split('T')[0], ageMonths,
+    measurementType, value: quantity.value,
+    unit: normalizeFHIRUnit(quantity) as GrowthRecord['unit'],
+    isFHIRRecord: true,
+  };
+}
+
+/**
+ * Whether a growth record can be written to the EHR: a weight, height, length or head circumference in a UCUM unit.
+ */
+export function canWriteGrowthRecordToFHIR(record: Pick<GrowthRecord, 'measurementType' | 'unit'>): boolean {
+  return !!WRITE_BACK_CODES[record.measurementType] && !!parseUnit(record.unit);
+}
+
+/**
+ * Maps a growth record to a vital-signs Observation for the EHR, coded in LOINC with its value in UCUM.
+ * @param fhirPatientId The FHIR id of the patient, the observation's subject.
+ * @returns The observation, or null if the record cannot be written to the EHR (see `canWriteGrowthRecordToFHIR`).
+ */
+export function mapGrowthRecordToObservation(record: GrowthRecord, fhirPatientId: string): FHIRObservation | null {
+  const codings = WRITE_BACK_CODES[record.measurementType];
+  const unit = parseUnit(record.unit);
+  if (!codings || !unit) return null;
+  return {
+    resourceType: 'Observation',
+    status: 'final',
+    category: [{ coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: 'vital-signs', display: 'Vital Signs' }] }],
+    code: { coding: codings, text: codings[codings.length - 1].display },
+    subject: { reference: `Patient/${fhirPatientId}` },
+    effectiveDateTime: record.date.split('T')[0],
+    valueQuantity: { value: record.value, unit: unit.unit, system: UCUM_SYSTEM, code: unit.ucum },
+  };
+}
+
+/**
+ * Fetches every page of a FHIR search, following each bundle's `next` link.
+ * @param request Fetches a URL (relative to the FHIR server) and resolves to the bundle, e.g. `client.request`.
+ * @param url The search URL.
+ * @param maxPages Stops after this many pages, guarding against servers whose `next` links loop.
+ * @returns The resources of all pages, in order.
+ */
+export async function fetchAllPages<T>(
+  request: (url: string) => Promise<FHIRBundle>,
+  url: string,
+  maxPages = 100
+): Promise<T[]> {
+  const resources: T[] = [];
+  let nextUrl: string | undefined = url;
+  for (let page = 0; nextUrl && page < maxPages; page++) {
+    const bundle: FHIRBundle = await request(nextUrl);
+    (bundle?.entry ?? []).forEach(entry => { if (entry.resource) resources.push(entry.resource as T); });
+    nextUrl = bundle?.link?.find(link => link.relation === 'next')?.url;
+  }
+  return resources;
+}
+
+/**
+ * Fetches a patient's growth observations. Measurements coded on the observation itself are found by `code`;
+ * those inside panels, such as the vital signs panel (LOINC 85353-1), by `component-code`.
+ * @param request Fetches a URL (relative to the FHIR server) and resolves to the bundle, e.g. `client.request`.
+ * @param fhirPatientId The FHIR id of the patient.
+ * @returns The resources of both searches, each once, in search order.
+ */
+export async function fetchGrowthObservations(
+  request: (url: string) => Promise<FHIRBundle>,
+  fhirPatientId: string
+): Promise<FHIRObservation[]> {
+  const codes = encodeURIComponent(GROWTH_CODE_SEARCH_PARAM);
+  const searches = await Promise.all(['code', 'component-code'].map(param =>
+    fetchAllPages<FHIRObservation>(request, `Observation?patient=${fhirPatientId}&${param}=${codes}&_sort=date&_count=100`)
+  ));
+  const seenIds = new Set<string>();
+  return searches.flat().filter(resource => {
+    if (!resource.id) return true;
+    const key = `${resource.resourceType}/${resource.id}`;
+    if (seenIds.has(key)) return false;
+    seenIds.add(key);
+    return true;
+  });
+}
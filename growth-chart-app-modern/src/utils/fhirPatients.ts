@@ -0,0 +1,97 @@
+// src/utils/fhirPatients.ts
+
+import type { Patient } from '../store/appStore';
+import type { FHIRBundle } from './fhirObservations';
+
+// The parts of a FHIR R4 Patient resource the app reads
+export interface FHIRPatient {
+  resourceType: 'Patient';
+  id?: string;
+  name?: { use?: string; text?: string; given?: string[]; family?: string }[];
+  birthDate?: string;
+  gender?: string;
+  identifier?: { system?: string; value?: string; type?: { text?: string; coding?: { code?: string; display?: string }[] } }[];
+}
+
+export interface FHIRPatientSearchCriteria {
+  name?: string;
+  birthdate?: string; // YYYY-MM-DD
+  identifier?: string; // A value, or system|value
+}
+
+// A search result, with the demographics shown to tell patients apart
+export interface FHIRPatientSummary {
+  id: string;
+  name: string;
+  birthDate?: string;
+  sex: Patient['sex'];
+  identifiers: string[]; // e.g. "MR 12345"
+}
+
+// Matches per search; the user refines the search rather than paging
+export const PATIENT_SEARCH_PAGE_SIZE = 20;
+
+/**
+ * The display name of a FHIR patient: their official name, else the first, as "given family".
+ */
+export function getFHIRPatientName(patient: Pick<FHIRPatient, 'name'>): string {
+  const name = patient.name?.find(n => n.use === 'official') ?? patient.name?.[0];
+  if (!name) return 'Unknown FHIR Patient';
+  return `${name.given?.join(' ') || ''} ${name.family || ''}`.trim() || name.text || 'Unknown FHIR Patient';
+}
+
+/**
+ * Maps a FHIR administrative gender to the app's sex.
+ */
+export function mapFHIRGender(gender: string | undefined): Patient['sex'] {
+  return gender === 'male' ? 'Male' : gender === 'female' ? 'Female' : gender === 'other' ? 'Other' : 'Unknown';
+}
+
+/**
+ * Builds a Patient search URL from the criteria that were filled in.
+ * @returns The URL, or null if no criteria were given.
+ */
+export function buildPatientSearchUrl(criteria: FHIRPatientSearchCriteria): string | null {
+  const params = (['name', 'birthdate', 'identifier'] as const)
+    .filter(key => criteria[key]?.trim())
+    .map(key => `${key}=${encodeURIComponent(criteria[key]!.trim())}`);
+  if (params.length === 0) return null;
+  return `Patient?${params.join('&')}&_count=${PATIENT_SEARCH_PAGE_SIZE}`;
+}
+
+/**
+ * Summarizes a FHIR patient for a list of search results.
+ */
+export function summarizeFHIRPatient(patient: FHIRPatient): FHIRPatientSummary {
+  return {
+    id: patient.id ?? '',
+    name: getFHIRPatientName(patient),
+    birthDate: patient.birthDate,
+    sex: mapFHIRGender(patient.gender),
+    identifiers: (patient.identifier ?? [])
+      .filter(identifier => identifier.value)
+      .map(identifier => {
+        const type = identifier.type?.coding?.[0]?.code ?? identifier.type?.text;
+        return type ? `${type} ${identifier.value}` : identifier.value!;
+      }),
+  };
+}
+
+/**
+ * Searches the FHIR server for patients.
+ * @param request Fetches a URL (relative to the FHIR server) and resolves to the bundle, e.g. `client.request`.
+ * @returns The first page of matches, and whether the server has more.
+ */
+export async function searchFHIRPatients(
+  request: (url: string) => Promise<FHIRBundle>,
+  criteria: FHIRPatientSearchCriteria
+): Promise<{ patients: FHIRPatientSummary[]; hasMore: boolean }> {
+  const url = buildPatientSearchUrl(criteria);
+  if (!url) return { patients: [], hasMore: false };
+  const bundle = await request(url);
+  const patients = (bundle?.entry ?? [])
+    .map(entry => entry.resource)
+    .filter((resource): resource is FHIRPatient => resource?.resourceType === 'Patient' && !!(resource as FHIRPatient).id)
+    .map(summarizeFHIRPatient);
+  return { patients, hasMore: !!bundle?.link?.some(link => link.relation === 'next') };
+}
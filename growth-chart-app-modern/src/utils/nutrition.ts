@@ -0,0 +1,138 @@
+// src/utils/nutrition.ts
+
+import type { GrowthRecord, Patient } from '../store/appStore';
+import { getAgeForAssessment, DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS } from './calculations';
+import { zScoreToPercentile } from './zScoreCalculator';
+import type { RecordZScore } from './referenceData';
+
+export type NutritionIndicator = 'height-for-age' | 'weight-for-age' | 'weight-for-stature' | 'bmi-for-age';
+export type NutritionCutoffSystem = 'WHO' | 'CDC';
+
+export interface NutritionalClassification {
+  indicator: NutritionIndicator;
+  system: NutritionCutoffSystem; // Whose cut-offs the category comes from
+  category: string;
+  isNormal: boolean;
+  record: GrowthRecord; // The latest assessed record for the indicator
+  zScore: RecordZScore; // Its Z-score, with the reference chart it was read from
+}
+
+export const NUTRITION_INDICATOR_LABELS: Record<NutritionIndicator, string> = {
+  'height-for-age': 'Length/height-for-age',
+  'weight-for-age': 'Weight-for-age',
+  'weight-for-stature': 'Weight-for-length/height',
+  'bmi-for-age': 'BMI-for-age',
+};
+
+// WHO cut-offs change at 5 years: weight-for-stature and BMI use the Child Growth Standards'
+// wasting/overweight bands before, the Growth Reference's thinness/overweight bands after
+export const WHO_SCHOOL_AGE_MONTHS = 60;
+// Weight-for-age is not used past 10 years: the WHO Growth Reference stops there, as weight then reflects puberty
+export const WHO_WEIGHT_FOR_AGE_MAX_MONTHS = 120;
+
+interface Cutoff {
+  category: string;
+  below?: number; // Applies below this Z-score...
+  above?: number; // ...or above it
+}
+
+const NORMAL_WEIGHT = 'Healthy weight';
+
+const WHO_CUTOFFS: Record<'height-for-age' | 'weight-for-age' | 'under-five-weight' | 'school-age-bmi', { cutoffs: Cutoff[]; normal: string }> = {
+  'height-for-age': {
+    cutoffs: [{ category: 'Severely stunted', below: -3 }, { category: 'Stunted', below: -2 }],
+    normal: 'Normal height',
+  },
+  'weight-for-age': {
+    cutoffs: [{ category: 'Severely underweight', below: -3 }, { category: 'Underweight', below: -2 }],
+    normal: 'Normal weight',
+  },
+  'under-five-weight': {
+    cutoffs: [{ category: 'Severely wasted', below: -3 }, { category: 'Wasted', below: -2 }, { category: 'Obese', above: 3 }, { category: 'Overweight', above: 2 }],
+    normal: NORMAL_WEIGHT,
+  },
+  'school-age-bmi': {
+    cutoffs: [{ category: 'Severely thin', below: -3 }, { category: 'Thin', below: -2 }, { category: 'Obese', above: 2 }, { category: 'Overweight', above: 1 }],
+    normal: NORMAL_WEIGHT,
+  },
+};
+
+// Bands are checked in order, so the most extreme of each direction comes first
+function applyCutoffs(value: number, cutoffs: Cutoff[]): string | undefined {
+  return cutoffs.find(({ below, above }) => (below !== undefined && value < below) || (above !== undefined && value > above))?.category;
+}
+
+/**
+ * Classifies a Z-score for one indicator. BMI read from a CDC chart uses the CDC percentile categories
+ * (with the obesity class when the extended method was applied); Z-scores read from WHO charts use WHO cut-offs.
+ * @param ageMonths Assessment age, which selects the WHO bands for weight-for-stature and BMI.
+ * @returns The classification, or null for Z-scores from other references (their cut-offs differ)
+ * and for weight-for-age past WHO_WEIGHT_FOR_AGE_MAX_MONTHS.
+ */
+export function classifyNutritionIndicator(
+  indicator: NutritionIndicator,
+  zScore: RecordZScore,
+  ageMonths: number
+): Pick<NutritionalClassification, 'system' | 'category' | 'isNormal'> | null {
+  if (indicator === 'bmi-for-age' && zScore.reference.source === 'CDC') {
+    const percentile = zScoreToPercentile(zScore.zScore);
+    if (percentile < 5) return { system: 'CDC', category: 'Underweight', isNormal: false };
+    if (percentile < 85) return { system: 'CDC', category: NORMAL_WEIGHT, isNormal: true };
+    if (percentile < 95) return { system: 'CDC', category: 'Overweight', isNormal: false };
+    return { system: 'CDC', category: zScore.obesityClass ?? 'Obesity', isNormal: false };
+  }
+
+  if (zScore.reference.source !== 'WHO') return null;
+  if (indicator === 'weight-for-age' && ageMonths > WHO_WEIGHT_FOR_AGE_MAX_MONTHS) return null;
+
+  const band = indicator === 'height-for-age' || indicator === 'weight-for-age' ? indicator
+    : indicator === 'bmi-for-age' && ageMonths >= WHO_SCHOOL_AGE_MONTHS ? 'school-age-bmi'
+    : 'under-five-weight';
+  const category = applyCutoffs(zScore.zScore, WHO_CUTOFFS[band].cutoffs);
+  return { system: 'WHO', category: category ?? WHO_CUTOFFS[band].normal, isNormal: !category };
+}
+
+/**
+ * Classifies a patient's nutritional status from the latest assessed record for each indicator:
+ * stunting (height-for-age), underweight (weight-for-age), wasting and overweight (weight-for-length/height
+ * and BMI-for-age). Indicators without an assessed record, or whose latest record cannot be classified
+ * (see classifyNutritionIndicator), are left out.
+ * @param records The patient's records.
+ * @param zScoresByRecordId Z-scores of the records, as from calculateRecordZScores.
+ * @param weightForStatureZScores Weight-for-length/height Z-scores by weight record ID, as from calculateWeightForStatureZScores.
+ * @param patient The records' patient, for the corrected age of preterm infants.
+ * @param correctedAgeCutoffMonths Chronological age after which gestational correction stops.
+ */
+export function classifyNutritionalStatus(
+  records: GrowthRecord[],
+  zScoresByRecordId: Record<string, RecordZScore>,
+  weightForStatureZScores: Record<string, RecordZScore> = {},
+  patient?: Pick<Patient, 'gestationalAgeWeeks' | 'gestationalAgeDays'> | null,
+  correctedAgeCutoffMonths: number = DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS
+): NutritionalClassification[] {
+  const latestAssessed = (scores: Record<string, RecordZScore>, types: GrowthRecord['measurementType'][]) => records
+    .filter(r => types.includes(r.measurementType) && scores[r.id] && !isNaN(scores[r.id].zScore))
+    .sort((a, b) => b.ageMonths - a.ageMonths)[0];
+
+  const indicators: [NutritionIndicator, Record<string, RecordZScore>, GrowthRecord['measurementType'][]][] = [
+    ['height-for-age', zScoresByRecordId, ['Length', 'Height']],
+    ['weight-for-age', zScoresByRecordId, ['Weight']],
+    ['weight-for-stature', weightForStatureZScores, ['Weight']],
+    ['bmi-for-age', zScoresByRecordId, ['BMI']],
+  ];
+  return indicators.flatMap(([indicator, scores, types]) => {
+    const record = latestAssessed(scores, types);
+    if (!record) return [];
+    const zScore = scores[record.id];
+    const { ageMonths } = getAgeForAssessment(record.ageMonths, patient, correctedAgeCutoffMonths);
+    const classification = classifyNutritionIndicator(indicator, zScore, ageMonths);
+    return classification ? [{ indicator, ...classification, record, zScore }] : [];
+  });
+}
+
+/**
+ * The weight status to report in a summary: from BMI-for-age where assessed, else weight-for-length/height.
+ */
+export function getWeightStatus(classifications: NutritionalClassification[]): NutritionalClassification | undefined {
+  return classifications.find(c => c.indicator === 'bmi-for-age') ?? classifications.find(c => c.indicator === 'weight-for-stature');
+}
@@ -0,0 +1,47 @@
+// src/utils/parentSummary.ts
+
+import { formatPercentile } from './zScoreCalculator';
+import { countCentileLinesCrossed } from './alerts';
+
+export type CentileTrend = 'up' | 'down' | 'steady';
+
+/**
+ * Movement across the major centile lines between two measurements: 'steady' if no line was crossed.
+ */
+export function getCentileTrend(previousZ: number, latestZ: number): CentileTrend {
+  if (countCentileLinesCrossed(previousZ, latestZ) === 0) return 'steady';
+  return latestZ > previousZ ? 'up' : 'down';
+}
+
+const ordinal = (value: string) => {
+  if (value.includes('.') || /1[123]$/.test(value)) return `${value}th`;
+  return `${value}${({ '1': 'st', '2': 'nd', '3': 'rd' } as Record<string, string>)[value.slice(-1)] ?? 'th'}`;
+};
+
+/**
+ * Names the percentile of a Z-score in plain language, e.g. "the 40th percentile" or "below the 0.1th percentile".
+ */
+export function formatPercentilePhrase(z: number): string {
+  const percentile = formatPercentile(z);
+  if (percentile.startsWith('<')) return `below the ${ordinal(percentile.slice(1))} percentile`;
+  if (percentile.startsWith('>')) return `above the ${ordinal(percentile.slice(1))} percentile`;
+  return `the ${ordinal(percentile)} percentile`;
+}
+
+/**
+ * Describes a child's measurements for parents, from the latest percentile and the trend since the one before,
+ * e.g. "Your child's weight is growing along the 40th percentile."
+ * @param zScores Z-scores of the child's measurements of one kind, in age order.
+ * @param measurement What was measured, e.g. "weight".
+ * @returns The description, or an empty string without measurements.
+ */
+export function describeGrowthForParents(zScores: number[], measurement: string): string {
+  const latestZ = zScores[zScores.length - 1];
+  if (latestZ === undefined) return '';
+  if (zScores.length === 1) return `Your child's ${measurement} is on ${formatPercentilePhrase(latestZ)}.`;
+
+  const previousZ = zScores[zScores.length - 2];
+  const trend = getCentileTrend(previousZ, latestZ);
+  if (trend === 'steady') return `Your child's ${measurement} is growing along ${formatPercentilePhrase(latestZ)}.`;
+  return `Your child's ${measurement} has moved ${trend} from ${formatPercentilePhrase(previousZ).replace(/ percentile$/, '')} to ${formatPercentilePhrase(latestZ)} since the last measurement.`;
+}
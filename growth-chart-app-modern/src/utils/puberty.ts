@@ -0,0 +1,92 @@
+// src/utils/puberty.ts
+
+import type { GrowthRecord, Patient } from '../store/appStore';
+
+export type TannerStage = 1 | 2 | 3 | 4 | 5;
+export type TannerSite = 'breast' | 'genitalia' | 'pubic_hair';
+
+export const TANNER_SITE_LABELS: Record<TannerSite, string> = {
+  breast: 'Breast',
+  genitalia: 'Genitalia',
+  pubic_hair: 'Pubic hair',
+};
+
+/**
+ * Returns a Tanner stage record's stage, or null for other records and values outside 1-5.
+ */
+export function getTannerStage(record: Pick<GrowthRecord, 'measurementType' | 'value'>): TannerStage | null {
+  if (record.measurementType !== 'TannerStage' || !Number.isInteger(record.value) || record.value < 1 || record.value > 5) return null;
+  return record.value as TannerStage;
+}
+
+/**
+ * The pubertal stage at an age: the most advanced site at the latest assessment on or before it.
+ * @returns The stage, or null if puberty was not assessed by that age.
+ */
+export function getPubertyStageAtAge(records: GrowthRecord[], ageMonths: number): TannerStage | null {
+  const assessments = records.filter(r => getTannerStage(r) !== null && r.ageMonths <= ageMonths);
+  if (assessments.length === 0) return null;
+  const latestAgeMonths = Math.max(...assessments.map(r => r.ageMonths));
+  return Math.max(...assessments.filter(r => r.ageMonths === latestAgeMonths).map(r => getTannerStage(r)!)) as TannerStage;
+}
+
+export interface PubertyPeriod {
+  stage: TannerStage;
+  startAgeMonths: number;
+  endAgeMonths: number | null; // Null for the stage at the latest assessment
+}
+
+/**
+ * Groups a patient's Tanner assessments into periods spent at each stage, for drawing a puberty timeline.
+ * A period runs from the first assessment at a stage to the first assessment at a different one.
+ */
+export function getPubertyTimeline(records: GrowthRecord[]): PubertyPeriod[] {
+  const assessmentAges = [...new Set(records.filter(r => getTannerStage(r) !== null).map(r => r.ageMonths))].sort((a, b) => a - b);
+  const periods: PubertyPeriod[] = [];
+  assessmentAges.forEach(ageMonths => {
+    const stage = getPubertyStageAtAge(records, ageMonths)!;
+    const current = periods[periods.length - 1];
+    if (current?.stage === stage) return;
+    if (current) current.endAgeMonths = ageMonths;
+    periods.push({ stage, startAgeMonths: ageMonths, endAgeMonths: null });
+  });
+  return periods;
+}
+
+// --- Height Velocity References ---
+
+export interface HeightVelocityReference {
+  sex: 'male' | 'female';
+  tannerStage: TannerStage;
+  lower: number;  // cm/year
+  median: number;
+  upper: number;
+}
+
+export interface HeightVelocityReferenceData {
+  source: string;
+  references: HeightVelocityReference[];
+}
+
+export type VelocityComparison = 'below' | 'within' | 'above';
+
+/**
+ * Finds the height velocity reference for a patient's sex and pubertal stage.
+ */
+export function findHeightVelocityReference(
+  references: HeightVelocityReference[],
+  sex: Patient['sex'],
+  stage: TannerStage | null | undefined
+): HeightVelocityReference | undefined {
+  if (!stage) return undefined;
+  return references.find(reference => reference.sex === sex.toLowerCase() && reference.tannerStage === stage);
+}
+
+/**
+ * Compares a height velocity (cm/year) with the reference range for its pubertal stage.
+ */
+export function compareHeightVelocity(velocityCmPerYear: number, reference: HeightVelocityReference): VelocityComparison {
+  if (velocityCmPerYear < reference.lower) return 'below';
+  if (velocityCmPerYear > reference.upper) return 'above';
+  return 'within';
+}
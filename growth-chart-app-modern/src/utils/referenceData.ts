@@ -0,0 +1,728 @@
+// src/utils/referenceData.ts
+
+import type { GrowthRecord, Patient, AppSettings } from '../store/appStore';
+import { getAgeForAssessment, DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS, pairRecordsByVisit } from './calculations';
+import { convertToMetricForCalc } from './units';
+import { getZScoreResultForMeasurement, parseCentileLineKey } from './zScoreCalculator';
+import type { LMSDataPoint, ZScoreMethod, ZScoreResult } from './zScoreCalculator';
+import { GROWTH_CONDITIONS, isGrowthConditionCode, getPatientConditions } from './conditions';
+import type { GrowthConditionCode } from './conditions';
+import type { HeightVelocityReferenceData } from './puberty';
+import type { BayleyPinneauTableData } from './boneAge';
+
+export const CENTILE_MANIFEST_URL = '/data/centile_manifest.json';
+export const HEIGHT_VELOCITY_REFERENCES_URL = '/data/velocity/height_velocity_by_tanner_stage.json';
+export const BAYLEY_PINNEAU_TABLES_URL = '/data/bone-age/bayley_pinneau.json';
+
+export interface CentilePoint {
+  age?: number;    // x value for age-based charts
+  length?: number; // x value for weight-for-length charts
+  height?: number; // x value for weight-for-height charts
+  [key: string]: number | undefined;
+  l?: number; m?: number; s?: number;
+}
+export interface CentileData {
+  source: string; name: string; measurementType: string; sex: 'male' | 'female' | 'any';
+  ageUnit: string; measurementUnit: string; centilesAvailable: string[];
+  xUnit?: string; // Unit of the x-axis for charts not plotted against age, e.g. 'cm'
+  lmsParametersAvailable?: string[]; data: CentilePoint[];
+}
+export interface CentileManifestEntry {
+  id: string; name: string; description: string; measurementType: string; sex: 'male' | 'female' | 'any';
+  ageRangeMonths: [number, number]; source: string; type: 'percentiles' | 'z-scores';
+  dataFile?: string; // Absent for composite charts, which are drawn from their segments' files
+  segments?: string[]; // Composite charts: ids of the charts stitched together, youngest first (e.g. WHO then CDC)
+  centileLines?: string[]; // Lines to generate from LMS data, e.g. ['p3', 'p50', 'p97'] or ['z-2', 'z0', 'z2']
+  zScoreMethod?: ZScoreMethod; // Overrides the method derived from `source`; see getZScoreMethod
+  conditions?: GrowthConditionCode[]; // Syndrome-specific references, offered only to patients with one of these conditions
+  // Add a flag for 'Other' chart types if we make them selectable in manifest
+  isOtherMeasurementChart?: boolean;
+  otherMeasurementName?: string;
+}
+
+// Bump when files under public/data change so IndexedDB copies from older builds are not reused
+export const REFERENCE_DATA_VERSION = 7;
+
+const IDB_NAME = 'growth-reference-data';
+const IDB_STORE = 'files';
+const VALID_SEXES = ['male', 'female', 'any'];
+const VALID_Z_SCORE_METHODS: ZScoreMethod[] = ['lms', 'cdc-extended-bmi', 'who-restricted'];
+
+// In-memory cache of loaded (validated) files, keyed by URL. Promises are cached so concurrent loads share one request.
+const memoryCache = new Map<string, Promise<unknown>>();
+
+// --- Validation ---
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+/**
+ * Validates a centile manifest.
+ * @returns A list of problems; empty if the manifest is valid.
+ */
+export function validateCentileManifest(manifest: unknown): string[] {
+  if (!Array.isArray(manifest)) return ['Manifest must be an array of chart entries.'];
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  manifest.forEach((entry: Partial<CentileManifestEntry>, index) => {
+    const label = `Manifest entry ${entry?.id ?? index}`;
+    if (!entry || typeof entry !== 'object') { errors.push(`${label}: must be an object.`); return; }
+    if (!entry.id) errors.push(`${label}: missing id.`);
+    else if (ids.has(entry.id)) errors.push(`${label}: duplicate id.`);
+    else ids.add(entry.id);
+    if (!entry.name) errors.push(`${label}: missing name.`);
+    if (!entry.measurementType) errors.push(`${label}: missing measurementType.`);
+    if (!entry.dataFile && !entry.segments) errors.push(`${label}: missing dataFile.`);
+    if (!entry.sex || !VALID_SEXES.includes(entry.sex)) errors.push(`${label}: sex must be one of ${VALID_SEXES.join(', ')}.`);
+    const range = entry.ageRangeMonths;
+    if (!Array.isArray(range) || range.length !== 2 || !isFiniteNumber(range[0]) || !isFiniteNumber(range[1]) || range[0] >= range[1]) {
+      errors.push(`${label}: ageRangeMonths must be [min, max] with min < max.`);
+    }
+    if (entry.zScoreMethod !== undefined && !VALID_Z_SCORE_METHODS.includes(entry.zScoreMethod)) {
+      errors.push(`${label}: unknown zScoreMethod "${entry.zScoreMethod}".`);
+    }
+    entry.centileLines?.forEach(key => {
+      if (!parseCentileLineKey(key)) errors.push(`${label}: unrecognised centile line "${key}".`);
+    });
+    entry.conditions?.forEach(code => {
+      if (!isGrowthConditionCode(code)) errors.push(`${label}: unknown condition "${code}".`);
+    });
+  });
+  if (errors.length === 0) errors.push(...validateCompositeCharts(manifest));
+  return errors;
+}
+
+/**
+ * Checks that each composite chart stitches existing, non-composite charts of its own measurement type and sex,
+ * in age order without gaps, and that its age range spans them exactly.
+ */
+function validateCompositeCharts(manifest: CentileManifestEntry[]): string[] {
+  const errors: string[] = [];
+  const entriesById = new Map(manifest.map(entry => [entry.id, entry]));
+  manifest.filter(isCompositeChart).forEach(entry => {
+    const label = `Manifest entry ${entry.id}`;
+    if (entry.segments!.length < 2) {
+      errors.push(`${label}: a composite chart needs at least two segments.`);
+      return;
+    }
+    const segments = entry.segments!.map(id => entriesById.get(id));
+    segments.forEach((segment, index) => {
+      const id = entry.segments![index];
+      if (!segment) errors.push(`${label}: unknown segment "${id}".`);
+      else if (isCompositeChart(segment)) errors.push(`${label}: segment "${id}" is itself a composite chart.`);
+      else if (segment.measurementType !== entry.measurementType || segment.sex !== entry.sex) {
+        errors.push(`${label}: segment "${id}" has a different measurementType or sex.`);
+      }
+    });
+    if (segments.some(segment => !segment)) return;
+    const ranges = segments.map(segment => segment!.ageRangeMonths);
+    for (let i = 1; i < ranges.length; i++) {
+      if (ranges[i][0] <= ranges[i - 1][0]) errors.push(`${label}: segments must be in age order.`);
+      else if (ranges[i][0] > ranges[i - 1][1]) errors.push(`${label}: gap between ${ranges[i - 1][1]} and ${ranges[i][0]} months.`);
+    }
+    if (entry.ageRangeMonths[0] !== ranges[0][0] || entry.ageRangeMonths[1] !== ranges[ranges.length - 1][1]) {
+      errors.push(`${label}: ageRangeMonths must span its segments (${ranges[0][0]}-${ranges[ranges.length - 1][1]}).`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Validates a centile data file: required metadata, strictly increasing ages, positive M and S where
+ * LMS parameters are declared, and every declared centile column present on every point.
+ * @returns A list of problems; empty if the data is valid.
+ */
+export function validateCentileData(data: unknown): string[] {
+  if (!data || typeof data !== 'object') return ['Centile data must be an object.'];
+  const file = data as Partial<CentileData>;
+  const errors: string[] = [];
+  if (!file.measurementType) errors.push('Missing measurementType.');
+  if (!file.measurementUnit) errors.push('Missing measurementUnit.');
+  if (!file.sex || !VALID_SEXES.includes(file.sex)) errors.push(`sex must be one of ${VALID_SEXES.join(', ')}.`);
+  if (!Array.isArray(file.centilesAvailable)) errors.push('centilesAvailable must be an array.');
+  if (!Array.isArray(file.data) || file.data.length === 0) {
+    errors.push('data must be a non-empty array.');
+    return errors;
+  }
+
+  const declaresLMS = ['l', 'm', 's'].every(p => file.lmsParametersAvailable?.includes(p));
+  const xKey = getChartXAxis(file.measurementType ?? '');
+  let previousX = -Infinity;
+  file.data.forEach((point, index) => {
+    const x = point?.[xKey];
+    if (!isFiniteNumber(x)) {
+      errors.push(`Point ${index}: ${xKey} must be a number.`);
+      return;
+    }
+    if (x <= previousX) errors.push(`Point ${index}: ${xKey === 'age' ? 'ages' : `${xKey} values`} must be strictly increasing (${x} after ${previousX}).`);
+    previousX = x;
+    const pointLabel = `Point ${index} (${xKey} ${x})`;
+    if (declaresLMS) {
+      if (!isFiniteNumber(point.l)) errors.push(`${pointLabel}: L must be a number.`);
+      if (!isFiniteNumber(point.m) || point.m <= 0) errors.push(`${pointLabel}: M must be positive.`);
+      if (!isFiniteNumber(point.s) || point.s <= 0) errors.push(`${pointLabel}: S must be positive.`);
+    }
+    file.centilesAvailable?.forEach(key => {
+      if (!isFiniteNumber(point[key])) errors.push(`${pointLabel}: missing centile column "${key}".`);
+    });
+  });
+  return errors;
+}
+
+/**
+ * Validates a height velocity reference file: one lower/median/upper range (cm/year) per sex and Tanner stage.
+ * @returns A list of problems; empty if the references are valid.
+ */
+export function validateHeightVelocityReferences(data: unknown): string[] {
+  if (!data || typeof data !== 'object') return ['Height velocity references must be an object.'];
+  const file = data as Partial<HeightVelocityReferenceData>;
+  if (!Array.isArray(file.references)) return ['references must be an array.'];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  file.references.forEach((reference, index) => {
+    const label = `Reference ${index}`;
+    if (reference?.sex !== 'male' && reference?.sex !== 'female') errors.push(`${label}: sex must be male or female.`);
+    if (![1, 2, 3, 4, 5].includes(reference?.tannerStage)) errors.push(`${label}: tannerStage must be 1-5.`);
+    if (!isFiniteNumber(reference?.lower) || !isFiniteNumber(reference?.median) || !isFiniteNumber(reference?.upper) ||
+        !(reference.lower >= 0 && reference.lower <= reference.median && reference.median <= reference.upper)) {
+      errors.push(`${label}: lower, median and upper must be numbers with 0 <= lower <= median <= upper.`);
+    }
+    const key = `${reference?.sex}:${reference?.tannerStage}`;
+    if (seen.has(key)) errors.push(`${label}: duplicate reference for ${reference.sex} Tanner stage ${reference.tannerStage}.`);
+    seen.add(key);
+  });
+  return errors;
+}
+
+/**
+ * Validates a Bayley-Pinneau table file: one table of percent of adult height by bone age per sex and
+ * skeletal maturity, with bone ages ascending.
+ * @returns A list of problems; empty if the tables are valid.
+ */
+export function validateBayleyPinneauTables(data: unknown): string[] {
+  if (!data || typeof data !== 'object') return ['Bayley-Pinneau tables must be an object.'];
+  const file = data as Partial<BayleyPinneauTableData>;
+  if (!Array.isArray(file.tables)) return ['tables must be an array.'];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  file.tables.forEach((table, index) => {
+    const label = `Table ${index}`;
+    if (table?.sex !== 'male' && table?.sex !== 'female') errors.push(`${label}: sex must be male or female.`);
+    if (!['average', 'accelerated', 'retarded'].includes(table?.maturity)) errors.push(`${label}: maturity must be average, accelerated or retarded.`);
+    if (!Array.isArray(table?.rows) || table.rows.length < 2) {
+      errors.push(`${label}: rows must be an array with at least two rows.`);
+    } else {
+      table.rows.forEach((row, rowIndex) => {
+        if (!isFiniteNumber(row?.boneAgeYears) || !isFiniteNumber(row?.percentOfAdultHeight) ||
+            row.percentOfAdultHeight <= 0 || row.percentOfAdultHeight > 100) {
+          errors.push(`${label}, row ${rowIndex}: boneAgeYears must be a number and percentOfAdultHeight a number in (0, 100].`);
+        } else if (rowIndex > 0 && !(row.boneAgeYears > table.rows[rowIndex - 1].boneAgeYears)) {
+          errors.push(`${label}, row ${rowIndex}: bone ages must be strictly ascending.`);
+        }
+      });
+    }
+    const key = `${table?.sex}:${table?.maturity}`;
+    if (seen.has(key)) errors.push(`${label}: duplicate table for ${table.sex} ${table.maturity} maturity.`);
+    seen.add(key);
+  });
+  return errors;
+}
+
+// --- IndexedDB Cache ---
+
+function openCacheDB(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+  return new Promise(resolve => {
+    const request = indexedDB.open(IDB_NAME, 1);
+    request.onupgradeneeded = () => { request.result.createObjectStore(IDB_STORE); };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null); // Caching is best-effort
+  });
+}
+
+async function readFromCacheDB<T>(key: string): Promise<T | undefined> {
+  const db = await openCacheDB();
+  if (!db) return undefined;
+  return new Promise(resolve => {
+    const request = db.transaction(IDB_STORE, 'readonly').objectStore(IDB_STORE).get(key);
+    request.onsuccess = () => resolve(request.result as T | undefined);
+    request.onerror = () => resolve(undefined);
+  });
+}
+
+async function writeToCacheDB(key: string, value: unknown): Promise<void> {
+  const db = await openCacheDB();
+  if (!db) return;
+  return new Promise(resolve => {
+    const transaction = db.transaction(IDB_STORE, 'readwrite');
+    transaction.objectStore(IDB_STORE).put(value, key);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => resolve();
+  });
+}
+
+// --- Loading ---
+
+/**
+ * Loads and validates a reference file, checking the memory cache, then IndexedDB, then the network.
+ * Only validated files are cached. An optional file (one a deployment installs itself) resolves to
+ * null when the server has none (HTTP 404); any other failure still rejects.
+ */
+function loadValidated<T>(url: string, validate: (json: unknown) => string[]): Promise<T>;
+function loadValidated<T>(url: string, validate: (json: unknown) => string[], options: { optional: true }): Promise<T | null>;
+function loadValidated<T>(url: string, validate: (json: unknown) => string[], options: { optional?: boolean } = {}): Promise<T | null> {
+  const cached = memoryCache.get(url);
+  if (cached) return cached as Promise<T | null>;
+
+  const load = (async () => {
+    const cacheKey = `v${REFERENCE_DATA_VERSION}:${url}`;
+    const stored = await readFromCacheDB<T>(cacheKey);
+    if (stored !== undefined && validate(stored).length === 0) return stored;
+
+    const response = await fetch(url);
+    if (response.status === 404 && options.optional) return null;
+    if (!response.ok) throw new Error(`HTTP error! status: ${response.status} for ${url}`);
+    const json: unknown = await response.json();
+    const errors = validate(json);
+    if (errors.length > 0) {
+      throw new Error(`Invalid reference data in ${url}: ${errors.slice(0, 5).join(' ')}${errors.length > 5 ? ` (+${errors.length - 5} more)` : ''}`);
+    }
+    await writeToCacheDB(cacheKey, json);
+    return json as T;
+  })();
+
+  memoryCache.set(url, load);
+  load.catch(() => memoryCache.delete(url)); // Allow a retry after a failed load
+  return load;
+}
+
+/**
+ * Loads the centile chart manifest.
+ * @throws Error if the request fails or the manifest is invalid.
+ */
+export function loadCentileManifest(): Promise<CentileManifestEntry[]> {
+  return loadValidated<CentileManifestEntry[]>(CENTILE_MANIFEST_URL, validateCentileManifest);
+}
+
+/**
+ * Loads the reference data file for a manifest entry.
+ * @throws Error if the request fails or the data is invalid.
+ */
+export function loadCentileData(entry: CentileManifestEntry): Promise<CentileData> {
+  if (!entry.dataFile) return Promise.reject(new Error(`${entry.name} is a composite chart; load it with loadChartSegments.`));
+  return loadValidated<CentileData>(entry.dataFile, validateCentileData);
+}
+
+/**
+ * Loads the puberty-stage-specific height velocity references. These are not bundled: a deployment
+ * that licenses a Tanner-stage velocity reference installs it at HEIGHT_VELOCITY_REFERENCES_URL.
+ * @returns The references, or null if none are installed.
+ * @throws Error if the request fails otherwise or the references are invalid.
+ */
+export function loadHeightVelocityReferences(): Promise<HeightVelocityReferenceData | null> {
+  return loadValidated<HeightVelocityReferenceData>(HEIGHT_VELOCITY_REFERENCES_URL, validateHeightVelocityReferences, { optional: true });
+}
+
+/**
+ * Loads the Bayley-Pinneau tables for predicting adult height from bone age. These are not bundled: a
+ * deployment that licenses them installs them at BAYLEY_PINNEAU_TABLES_URL.
+ * @returns The tables, or null if none are installed.
+ * @throws Error if the request fails otherwise or the tables are invalid.
+ */
+export function loadBayleyPinneauTables(): Promise<BayleyPinneauTableData | null> {
+  return loadValidated<BayleyPinneauTableData>(BAYLEY_PINNEAU_TABLES_URL, validateBayleyPinneauTables, { optional: true });
+}
+
+// --- Composite Charts ---
+
+export interface ChartSegment {
+  entry: CentileManifestEntry;
+  data: CentileData;
+}
+
+/**
+ * Whether a manifest entry stitches several reference charts together (e.g. WHO 0-24m then CDC 2-20y).
+ */
+export function isCompositeChart(entry: Pick<CentileManifestEntry, 'segments'>): boolean {
+  return !!entry.segments && entry.segments.length > 0;
+}
+
+/**
+ * Loads the reference data a chart is drawn from: each segment of a composite chart, or the chart's own file.
+ * @throws Error if a segment is missing from the manifest or any file fails to load.
+ */
+export async function loadChartSegments(entry: CentileManifestEntry, manifest: CentileManifestEntry[]): Promise<ChartSegment[]> {
+  const entries = isCompositeChart(entry)
+    ? entry.segments!.map(id => {
+        const segment = manifest.find(candidate => candidate.id === id);
+        if (!segment) throw new Error(`Composite chart ${entry.id} refers to unknown chart ${id}.`);
+        return segment;
+      })
+    : [entry];
+  const data = await Promise.all(entries.map(loadCentileData));
+  return entries.map((segmentEntry, index) => ({ entry: segmentEntry, data: data[index] }));
+}
+
+/**
+ * Finds the segment whose reference applies at an age. Where two segments meet, the later one applies
+ * (e.g. CDC from exactly 24 months).
+ */
+export function findSegmentForAge(segments: ChartSegment[], ageMonths: number): ChartSegment | undefined {
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const [minAge, maxAge] = segments[i].entry.ageRangeMonths;
+    if (ageMonths >= minAge && ageMonths <= maxAge) return segments[i];
+  }
+  return undefined;
+}
+
+export interface ChartTransition {
+  ageMonths: number;
+  fromSource: string;
+  toSource: string;
+}
+
+/**
+ * Lists the ages at which a composite chart switches reference, for marking on the chart.
+ */
+export function getChartTransitions(segments: ChartSegment[]): ChartTransition[] {
+  return segments.slice(1).map((segment, index) => ({
+    ageMonths: segment.entry.ageRangeMonths[0],
+    fromSource: segments[index].entry.source,
+    toSource: segment.entry.source,
+  }));
+}
+
+/**
+ * Clears the in-memory reference data cache (IndexedDB copies are keyed by REFERENCE_DATA_VERSION).
+ */
+export function clearReferenceDataCache(): void {
+  memoryCache.clear();
+}
+
+/**
+ * Maps a growth record's measurement type to the manifest `measurementType` it is plotted against.
+ * @returns e.g. 'length_for_age', or null for 'Other' measurements.
+ */
+export function getChartMeasurementType(measurementType: GrowthRecord['measurementType']): string | null {
+  switch (measurementType) {
+    case 'Length': case 'Height': return 'length_for_age';
+    case 'Weight': return 'weight_for_age';
+    case 'HeadCircumference': return 'hc_for_age';
+    case 'BMI': return 'bmi_for_age';
+    default: return null;
+  }
+}
+
+// --- Chart Axes ---
+
+export type ChartXAxis = 'age' | 'length' | 'height';
+
+// Charts plotted against a body measurement instead of age, and the records they pair on each visit
+const MEASUREMENT_AXIS_CHARTS: Record<string, { xAxis: Exclude<ChartXAxis, 'age'>; yRecordType: GrowthRecord['measurementType']; xRecordType: GrowthRecord['measurementType'] }> = {
+  weight_for_length: { xAxis: 'length', yRecordType: 'Weight', xRecordType: 'Length' },
+  weight_for_height: { xAxis: 'height', yRecordType: 'Weight', xRecordType: 'Height' },
+};
+
+/**
+ * The x-axis a chart of this measurement type is plotted against; also the key of the x value in its data points.
+ */
+export function getChartXAxis(measurementType: string): ChartXAxis {
+  return MEASUREMENT_AXIS_CHARTS[measurementType]?.xAxis ?? 'age';
+}
+
+/**
+ * For charts plotted against length or height, the record types paired on each visit: the plotted
+ * measurement (y) and the measurement on the x-axis. Null for age-based charts.
+ */
+export function getPairedRecordTypes(measurementType: string): { yRecordType: GrowthRecord['measurementType']; xRecordType: GrowthRecord['measurementType'] } | null {
+  const chart = MEASUREMENT_AXIS_CHARTS[measurementType];
+  return chart ? { yRecordType: chart.yRecordType, xRecordType: chart.xRecordType } : null;
+}
+
+/**
+ * Returns a data point's x value: its age, or its length/height for charts plotted against a measurement.
+ */
+export function getCentileX(point: CentilePoint, data: Pick<CentileData, 'measurementType'>): number | undefined {
+  return point[getChartXAxis(data.measurementType)];
+}
+
+/**
+ * Converts a validated reference dataset to the LMS points used by the Z-score and curve functions,
+ * which interpolate over `age`; for length/height-based charts the length/height is used in its place.
+ */
+export function toLMSDataPoints(data: CentileData): LMSDataPoint[] {
+  const xKey = getChartXAxis(data.measurementType);
+  if (xKey === 'age') return data.data as LMSDataPoint[];
+  return data.data.map(point => ({ ...point, age: point[xKey] } as LMSDataPoint));
+}
+
+/**
+ * Whether every point of a reference dataset carries L, M and S parameters.
+ */
+export function hasLMSParameters(data: CentileData): boolean {
+  return data.data.length > 0 && data.data.every(p => p.l !== undefined && p.m !== undefined && p.s !== undefined);
+}
+
+// WHO restricts LMS to ±3 SD for these skewed measurements (WHO Child Growth Standards, 2006)
+const WHO_RESTRICTED_MEASUREMENT_TYPES = ['weight_for_age', 'bmi_for_age', 'weight_for_length', 'weight_for_height'];
+
+/**
+ * Determines how Z-scores are calculated for a chart: its declared `zScoreMethod`, otherwise the
+ * WHO restricted method for WHO weight and BMI references, otherwise plain LMS.
+ */
+export function getZScoreMethod(entry: Pick<CentileManifestEntry, 'source' | 'measurementType' | 'zScoreMethod'>): ZScoreMethod {
+  if (entry.zScoreMethod) return entry.zScoreMethod;
+  if (entry.source === 'WHO' && WHO_RESTRICTED_MEASUREMENT_TYPES.includes(entry.measurementType)) return 'who-restricted';
+  return 'lms';
+}
+
+export interface ChartCriteria {
+  measurementType: string;
+  sex: Patient['sex'];
+  ageMonths: number;
+  preferredSource?: string; // e.g. 'WHO' or 'CDC'
+  conditions?: GrowthConditionCode[]; // The patient's coded conditions
+}
+
+/**
+ * Whether a chart is a syndrome-specific reference (e.g. CDC Down syndrome charts).
+ */
+export function isConditionSpecificChart(entry: Pick<CentileManifestEntry, 'conditions'>): boolean {
+  return !!entry.conditions && entry.conditions.length > 0;
+}
+
+/**
+ * Whether a chart applies to a patient with the given conditions: general charts always do,
+ * syndrome-specific charts only if the patient has one of their conditions.
+ */
+export function isChartForConditions(entry: Pick<CentileManifestEntry, 'conditions'>, conditions: GrowthConditionCode[] = []): boolean {
+  return !isConditionSpecificChart(entry) || entry.conditions!.some(code => conditions.includes(code));
+}
+
+/**
+ * The conditions with at least one syndrome-specific chart in the manifest, in `GROWTH_CONDITIONS` order.
+ * Only these are worth recording on a patient: the others would not change any chart.
+ */
+export function getChartedConditions(manifest: Pick<CentileManifestEntry, 'conditions'>[]): GrowthConditionCode[] {
+  const charted = new Set(manifest.flatMap(entry => entry.conditions ?? []));
+  return GROWTH_CONDITIONS.map(condition => condition.code).filter(code => charted.has(code));
+}
+
+/**
+ * Finds the best manifest chart for a measurement type, sex and age.
+ * Among charts covering the age, a reference for one of the patient's conditions beats a general one,
+ * then sex-specific charts beat 'any', then the preferred source wins, then the chart with the
+ * narrowest age range (the most specific reference).
+ * Composite charts are skipped: the reference for an age is one of the charts they are built from.
+ * @returns The best entry, or undefined if no chart covers the age.
+ */
+export function findBestChart(manifest: CentileManifestEntry[], criteria: ChartCriteria): CentileManifestEntry | undefined {
+  const sex = criteria.sex.toLowerCase();
+  const candidates = manifest.filter(entry =>
+    !isCompositeChart(entry) &&
+    isChartForConditions(entry, criteria.conditions) &&
+    entry.measurementType === criteria.measurementType &&
+    (entry.sex === sex || entry.sex === 'any') &&
+    criteria.ageMonths >= entry.ageRangeMonths[0] && criteria.ageMonths <= entry.ageRangeMonths[1]
+  );
+  const rank = (entry: CentileManifestEntry): number[] => [
+    isConditionSpecificChart(entry) ? 0 : 1,
+    entry.sex === sex ? 0 : 1,
+    criteria.preferredSource && entry.source === criteria.preferredSource ? 0 : 1,
+    entry.ageRangeMonths[1] - entry.ageRangeMonths[0],
+  ];
+  return candidates.sort((a, b) => {
+    const rankA = rank(a), rankB = rank(b);
+    for (let i = 0; i < rankA.length; i++) {
+      if (rankA[i] !== rankB[i]) return rankA[i] - rankB[i];
+    }
+    return 0;
+  })[0];
+}
+
+// Age at which charts switch from the WHO standards to the CDC references (CDC/AAP recommendation)
+export const WHO_CDC_TRANSITION_MONTHS = 24;
+
+const CHART_TYPE_MEASUREMENT_TYPES: Record<AppSettings['defaultChartType'], string> = {
+  WeightForAge: 'weight_for_age',
+  HeightForAge: 'length_for_age',
+  HCForAge: 'hc_for_age',
+  BMIForAge: 'bmi_for_age',
+};
+
+/**
+ * Maps the `defaultChartType` setting to the manifest `measurementType`.
+ */
+export function getMeasurementTypeForChartType(chartType: AppSettings['defaultChartType']): string {
+  return CHART_TYPE_MEASUREMENT_TYPES[chartType];
+}
+
+/**
+ * The reference source to prefer at an age: WHO under 24 months, CDC from 2 years.
+ */
+export function getPreferredSourceForAge(ageMonths: number): string {
+  return ageMonths < WHO_CDC_TRANSITION_MONTHS ? 'WHO' : 'CDC';
+}
+
+/**
+ * Picks the chart to show by default for a patient.
+ * Uses the best chart for the patient's current age; if none covers it (e.g. the patient has outgrown
+ * every chart of this type), falls back to the chart covering their most recent measurement.
+ * @param manifest Charts to choose from.
+ * @param chartType The `defaultChartType` setting.
+ * @param sex Patient's sex.
+ * @param currentAgeMonths Patient's current (corrected, if applicable) age.
+ * @param recordAgesMonths Ages of the patient's measurements of this type.
+ * @param conditions Patient's coded conditions; matching syndrome-specific charts are preferred.
+ * @returns The chart to select, or undefined if no chart applies.
+ */
+export function selectDefaultChart(
+  manifest: CentileManifestEntry[],
+  chartType: AppSettings['defaultChartType'],
+  sex: Patient['sex'],
+  currentAgeMonths: number,
+  recordAgesMonths: number[] = [],
+  conditions: GrowthConditionCode[] = []
+): CentileManifestEntry | undefined {
+  const measurementType = getMeasurementTypeForChartType(chartType);
+  const agesToTry = [currentAgeMonths, ...[...recordAgesMonths].sort((a, b) => b - a)].filter(age => !isNaN(age));
+  for (const ageMonths of agesToTry) {
+    const chart = findBestChart(manifest, { measurementType, sex, ageMonths, preferredSource: getPreferredSourceForAge(ageMonths), conditions });
+    if (chart) return chart;
+  }
+  return undefined;
+}
+
+export interface ChartCoverage {
+  entry: CentileManifestEntry;
+  recordCount: number;
+}
+
+/**
+ * Groups measurement ages by the chart each would be plotted on, for patients whose records span
+ * more than one reference age range (e.g. WHO 0-24m and CDC 2-20y).
+ * @returns Charts in order of the earliest age they cover, and the number of ages no chart covers.
+ */
+export function getChartsCoveringAges(
+  manifest: CentileManifestEntry[],
+  measurementType: string,
+  sex: Patient['sex'],
+  agesMonths: number[],
+  conditions: GrowthConditionCode[] = []
+): { charts: ChartCoverage[]; uncoveredCount: number } {
+  const coverage = new Map<string, ChartCoverage>();
+  let uncoveredCount = 0;
+  [...agesMonths].sort((a, b) => a - b).forEach(ageMonths => {
+    const entry = findBestChart(manifest, { measurementType, sex, ageMonths, preferredSource: getPreferredSourceForAge(ageMonths), conditions });
+    if (!entry) { uncoveredCount++; return; }
+    const existing = coverage.get(entry.id);
+    if (existing) existing.recordCount++;
+    else coverage.set(entry.id, { entry, recordCount: 1 });
+  });
+  return { charts: [...coverage.values()], uncoveredCount };
+}
+
+export interface RecordZScore extends ZScoreResult {
+  reference: Pick<CentileManifestEntry, 'id' | 'name' | 'source'>; // The chart the Z-score was read from
+}
+
+// Chart data loaded during one calculation, by chart id. A chart that fails to load is tried once
+// per calculation rather than once per record; the failure is not cached beyond it.
+type ChartDataLoads = Map<string, Promise<CentileData | null>>;
+
+function loadChartDataOnce(entry: CentileManifestEntry, loads: ChartDataLoads): Promise<CentileData | null> {
+  let load = loads.get(entry.id);
+  if (!load) {
+    load = loadCentileData(entry).catch(e => {
+      console.error(`Failed to load centile data for ${entry.name}:`, e);
+      return null;
+    });
+    loads.set(entry.id, load);
+  }
+  return load;
+}
+
+/**
+ * Calculates a Z-score against the best LMS chart for the criteria.
+ * @param loads Chart data already loaded, or failed to load, during this calculation.
+ * @param x Where to read the chart: the age, or the length/height for charts plotted against a measurement.
+ * @returns The Z-score and its chart, or null if no chart with LMS data applies.
+ */
+async function calculateZScoreOnBestChart(
+  manifest: CentileManifestEntry[],
+  criteria: ChartCriteria,
+  value: number,
+  loads: ChartDataLoads,
+  x: number = criteria.ageMonths
+): Promise<RecordZScore | null> {
+  const entry = findBestChart(manifest, criteria);
+  if (!entry) return null;
+
+  const data = await loadChartDataOnce(entry, loads);
+  if (!data || !hasLMSParameters(data)) return null;
+
+  const lmsReferenceData = toLMSDataPoints(data); // Validated as sorted by x
+  const result = getZScoreResultForMeasurement(value, x, lmsReferenceData, getZScoreMethod(entry), data.sex);
+  return result ? { ...result, reference: { id: entry.id, name: entry.name, source: entry.source } } : null;
+}
+
+/**
+ * Calculates Z-scores for a patient's records against the matching LMS reference charts,
+ * using each chart's declared Z-score method and syndrome-specific charts for the patient's conditions.
+ * Preterm infants are assessed at corrected age.
+ * Records without a matching LMS chart are omitted.
+ * @param records Records to assess.
+ * @param patient The records' patient.
+ * @param correctedAgeCutoffMonths Chronological age after which gestational correction stops.
+ * @returns Map of record ID to Z-score result.
+ */
+export async function calculateRecordZScores(
+  records: GrowthRecord[],
+  patient: Patient,
+  correctedAgeCutoffMonths: number = DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS
+): Promise<Record<string, RecordZScore>> {
+  const zScores: Record<string, RecordZScore> = {};
+  const manifest = await loadCentileManifest();
+  const conditions = getPatientConditions(patient);
+  const loads: ChartDataLoads = new Map();
+
+  for (const record of records) {
+    const chartMeasurementType = getChartMeasurementType(record.measurementType);
+    if (!chartMeasurementType) continue;
+    const { ageMonths } = getAgeForAssessment(record.ageMonths, patient, correctedAgeCutoffMonths);
+    const metricValue = convertToMetricForCalc(record.value, record.unit as GrowthRecord['unit']);
+    const result = await calculateZScoreOnBestChart(manifest, { measurementType: chartMeasurementType, sex: patient.sex, ageMonths, preferredSource: getPreferredSourceForAge(ageMonths), conditions }, metricValue, loads);
+    if (result) zScores[record.id] = result;
+  }
+  return zScores;
+}
+
+/**
+ * Calculates weight-for-length and weight-for-height Z-scores for weights measured at the same visit
+ * as a length or height; used to assess wasting.
+ * @param records The patient's records.
+ * @param patient The records' patient.
+ * @param correctedAgeCutoffMonths Chronological age after which gestational correction stops.
+ * @returns Map of weight record ID to Z-score result.
+ */
+export async function calculateWeightForStatureZScores(
+  records: GrowthRecord[],
+  patient: Patient,
+  correctedAgeCutoffMonths: number = DEFAULT_CORRECTED_AGE_CUTOFF_MONTHS
+): Promise<Record<string, RecordZScore>> {
+  const zScores: Record<string, RecordZScore> = {};
+  const manifest = await loadCentileManifest();
+  const conditions = getPatientConditions(patient);
+  const loads: ChartDataLoads = new Map();
+
+  for (const measurementType of ['weight_for_length', 'weight_for_height']) {
+    const { yRecordType, xRecordType } = getPairedRecordTypes(measurementType)!;
+    for (const { record, xRecord } of pairRecordsByVisit(records, yRecordType, xRecordType)) {
+      const { ageMonths } = getAgeForAssessment(record.ageMonths, patient, correctedAgeCutoffMonths);
+      const weightKg = convertToMetricForCalc(record.value, record.unit as GrowthRecord['unit']);
+      const statureCm = convertToMetricForCalc(xRecord.value, xRecord.unit as GrowthRecord['unit']);
+      const result = await calculateZScoreOnBestChart(manifest, { measurementType, sex: patient.sex, ageMonths, preferredSource: getPreferredSourceForAge(ageMonths), conditions }, weightKg, loads, statureCm);
+      if (result) zScores[record.id] = result;
+    }
+  }
+  return zScores;
+}
@@ -0,0 +1,75 @@
+// src/utils/smartLaunch.ts
+
+import FHIR from 'fhirclient';
+import type { SmartClientConfig } from '../config/smart';
+
+export type SmartAuthorizeParams = Parameters<typeof FHIR.oauth2.authorize>[0];
+
+// Where fhirclient keeps the key of the current authorization's state, in sessionStorage
+const SMART_STATE_KEY = 'SMART_KEY';
+
+/**
+ * Normalizes a FHIR base URL entered by the user: an http(s) URL, without a trailing slash.
+ * @returns The URL, or null if it is not a valid http(s) URL.
+ */
+export function normalizeFHIRBaseUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null;
+  return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}`;
+}
+
+/**
+ * Builds the parameters to authorize with a FHIR server. fhirclient discovers the server's endpoints
+ * from its .well-known/smart-configuration (or CapabilityStatement) and applies PKCE as configured.
+ * @param launch The server, and the EHR's launch token for an EHR launch.
+ * @param origin The app's origin, which the redirect URI is resolved against.
+ */
+export function buildAuthorizeParams(
+  config: SmartClientConfig,
+  launch: { iss: string; launch?: string },
+  origin: string
+): SmartAuthorizeParams {
+  return {
+    clientId: config.clientId,
+    scope: config.scope,
+    redirectUri: new URL(config.redirectUri, origin).href,
+    pkceMode: config.pkceMode,
+    iss: launch.iss,
+    ...(launch.launch ? { launch: launch.launch } : {}),
+  };
+}
+
+/**
+ * Redirects the browser to the FHIR server's authorization endpoint.
+ */
+export function startSmartLaunch(config: SmartClientConfig, launch: { iss: string; launch?: string }): Promise<string | void> {
+  return FHIR.oauth2.authorize(buildAuthorizeParams(config, launch, window.location.origin));
+}
+
+/**
+ * Whether a query string is the authorization server's redirect back to the app.
+ */
+export function isSmartAuthorizationRedirect(search: string): boolean {
+  const params = new URLSearchParams(search);
+  return params.has('state') && (params.has('code') || params.has('error'));
+}
+
+/**
+ * Whether this tab holds a completed SMART authorization to restore, e.g. after a page reload.
+ * An authorization that was started but never completed does not count.
+ */
+export function hasSmartSession(storage: Storage = sessionStorage): boolean {
+  try {
+    const key = JSON.parse(storage.getItem(SMART_STATE_KEY) ?? 'null');
+    if (typeof key !== 'string') return false;
+    const state = JSON.parse(storage.getItem(key) ?? 'null');
+    return !!state?.tokenResponse?.access_token;
+  } catch {
+    return false;
+  }
+}
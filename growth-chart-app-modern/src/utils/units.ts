@@ -1,5 +1,7 @@
 // src/utils/units.ts
 
+import type { GrowthRecord } from '../store/appStore';
+
 // Conversion Factors
 const KG_TO_LBS = 2.20462262185;
 const LBS_TO_KG = 1 / KG_TO_LBS;
@@ -54,17 +56,65 @@ export function inchesToCm(inches: number): number {
   return inches * INCHES_TO_CM;
 }
 
+// --- UCUM Units ---
+
+export type UnitDimension = 'mass' | 'length';
+
+export interface UnitDefinition {
+  unit: string; // The app's name for the unit, as stored on growth records
+  ucum: string; // UCUM code, e.g. '[lb_av]'
+  dimension: UnitDimension;
+  factor: number; // Size of the unit in kg (mass) or cm (length)
+  aliases: string[]; // Lower-case display strings that also name the unit
+}
+
+// Units growth measurements arrive in, from FHIR quantities (UCUM codes or display strings) and manual entry
+const UNIT_DEFINITIONS: UnitDefinition[] = [
+  { unit: 'g', ucum: 'g', dimension: 'mass', factor: 0.001, aliases: ['gm', 'gram', 'grams'] },
+  { unit: 'kg', ucum: 'kg', dimension: 'mass', factor: 1, aliases: ['kgs', 'kilogram', 'kilograms'] },
+  { unit: 'lbs', ucum: '[lb_av]', dimension: 'mass', factor: LBS_TO_KG, aliases: ['lb', 'pound', 'pounds'] },
+  { unit: 'oz', ucum: '[oz_av]', dimension: 'mass', factor: LBS_TO_KG / 16, aliases: ['ounce', 'ounces'] },
+  { unit: 'mm', ucum: 'mm', dimension: 'length', factor: 0.1, aliases: ['millimeter', 'millimeters', 'millimetre', 'millimetres'] },
+  { unit: 'cm', ucum: 'cm', dimension: 'length', factor: 1, aliases: ['centimeter', 'centimeters', 'centimetre', 'centimetres'] },
+  { unit: 'm', ucum: 'm', dimension: 'length', factor: 100, aliases: ['meter', 'meters', 'metre', 'metres'] },
+  { unit: 'in', ucum: '[in_i]', dimension: 'length', factor: INCHES_TO_CM, aliases: ['inch', 'inches'] },
+  { unit: 'ft', ucum: '[ft_i]', dimension: 'length', factor: 12 * INCHES_TO_CM, aliases: ['foot', 'feet'] },
+];
+
+/**
+ * Identifies a mass or length unit from its UCUM code, the app's name for it or a common display string,
+ * e.g. '[lb_av]', 'lbs' or 'Pounds'. Matching ignores case and surrounding whitespace.
+ * @returns The unit's definition, or undefined if it is not a known mass or length unit.
+ */
+export function parseUnit(text: string | undefined): UnitDefinition | undefined {
+  const normalized = text?.trim().toLowerCase();
+  if (!normalized) return undefined;
+  return UNIT_DEFINITIONS.find(definition =>
+    definition.unit === normalized || definition.ucum.toLowerCase() === normalized || definition.aliases.includes(normalized));
+}
+
+/**
+ * Converts a value between two units of the same dimension, each given in any form `parseUnit` accepts.
+ * @returns The converted value, unrounded; NaN if either unit is unknown or they measure different things.
+ */
+export function convertUnit(value: number, fromUnit: string, toUnit: string): number {
+  const from = parseUnit(fromUnit);
+  const to = parseUnit(toUnit);
+  if (!from || !to || from.dimension !== to.dimension) return NaN;
+  return value * from.factor / to.factor;
+}
+
 // --- General Converters for Growth Records ---
 // These could be more complex if handling many unit types or more sophisticated rounding.
 
-export type WeightUnit = 'kg' | 'lbs';
-export type HeightUnit = 'cm' | 'in';
+export type WeightUnit = 'kg' | 'g' | 'lbs' | 'oz';
+export type HeightUnit = 'cm' | 'mm' | 'm' | 'in' | 'ft';
 export type DisplayUnits = 'Metric' | 'Imperial';
 
 /**
  * Converts a weight value to the target display system if necessary.
  * @param value The weight value.
- * @param originalUnit The original unit of the weight ('kg' or 'lbs').
+ * @param originalUnit The original unit of the weight, e.g. 'kg' or 'lbs'.
  * @param targetSystem The target display system ('Metric' or 'Imperial').
  * @returns Object with converted value and its unit string.
  */
@@ -74,20 +124,18 @@ export function convertWeightForDisplay(
     targetSystem: DisplayUnits
 ): { value: number; unit: string } {
     if (targetSystem === 'Metric') {
-        if (originalUnit === 'lbs') return { value: lbsToKg(value), unit: 'kg' };
-        // If already kg, ensure it's rounded as per typical metric display (e.g. 2 decimal places for kg)
-        return { value: parseFloat(value.toFixed(2)), unit: 'kg' };
+        // Standardize kg display to 2 decimal places
+        return { value: parseFloat(convertUnit(value, originalUnit, 'kg').toFixed(2)), unit: 'kg' };
     } else { // Imperial
-        const lbsValue = (originalUnit === 'kg') ? kgToLbs(value) : value;
         // Standardize lbs display to 1 decimal place
-        return { value: parseFloat(lbsValue.toFixed(1)), unit: 'lbs' };
+        return { value: parseFloat(convertUnit(value, originalUnit, 'lbs').toFixed(1)), unit: 'lbs' };
     }
 }
 
 /**
  * Converts a height/length value to the target display system if necessary.
  * @param value The height/length value.
- * @param originalUnit The original unit of the height/length ('cm' or 'in').
+ * @param originalUnit The original unit of the height/length, e.g. 'cm' or 'in'.
  * @param targetSystem The target display system ('Metric' or 'Imperial').
  * @returns Object with converted value and its unit string.
  */
@@ -97,33 +145,23 @@ export function convertHeightForDisplay(
     targetSystem: DisplayUnits
 ): { value: number; unit: string } {
     if (targetSystem === 'Metric') {
-        if (originalUnit === 'in') return { value: inchesToCm(value), unit: 'cm' };
-        return { value: parseFloat(value.toFixed(1)), unit: 'cm' }; // Standardize cm display
+        return { value: parseFloat(convertUnit(value, originalUnit, 'cm').toFixed(1)), unit: 'cm' }; // Standardize cm display
     } else { // Imperial
-        if (originalUnit === 'cm') return { value: cmToInches(value), unit: 'in' };
-        return { value: parseFloat(value.toFixed(1)), unit: 'in' }; // Standardize inches display
+        return { value: parseFloat(convertUnit(value, originalUnit, 'in').toFixed(1)), unit: 'in' }; // Standardize inches display
     }
 }
 
 /**
  * Converts a stored growth value to metric units (kg or cm) for calculations.
  * @param value The measurement value.
- * @param unit The unit of the measurement ('kg', 'lbs', 'cm', 'in').
+ * @param unit The unit of the measurement, any mass or length unit `parseUnit` accepts, or 'kg/m²'.
  * @returns The value in metric units (kg or cm), or original value if already metric or unknown unit.
  */
 export function convertToMetricForCalc(value: number, unit: GrowthRecord['unit']): number {
-    switch (unit) {
-        case 'lbs':
-            return lbsToKg(value); // Raw value for calculation, not display rounded
-        case 'in':
-            return inchesToCm(value); // Raw value for calculation
-        case 'kg':
-        case 'cm':
-        case 'kg/m²': // BMI is already metric calculation based
-            return value;
-        default:
-            // Should not happen with defined types, but as a fallback
-            console.warn(`Unsupported unit for metric conversion: ${unit}`);
-            return value;
-    }
+    if (unit === 'kg/m²') return value; // BMI is already metric calculation based
+    const definition = parseUnit(unit);
+    if (definition) return value * definition.factor; // Raw value for calculation, not display rounded
+    // Should not happen with defined types, but as a fallback
+    console.warn(`Unsupported unit for metric conversion: ${unit}`);
+    return value;
 }
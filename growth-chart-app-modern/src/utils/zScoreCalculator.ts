@@ -136,3 +136,333 @@ export function getZScoreForMeasurement(value: number, age: number, lmsDataSorte
     }
     return calculateZScore(value, lms.l, lms.m, lms.s);
 }
+
+
+// --- Percentiles ---
+
+export const MIN_DISPLAY_PERCENTILE = 0.1;
+export const MAX_DISPLAY_PERCENTILE = 99.9;
+
+/**
+ * Standard normal cumulative distribution function.
+ * Uses the Abramowitz & Stegun 26.2.17 approximation (absolute error < 7.5e-8).
+ * @param z The Z-score.
+ * @returns Probability that a standard normal variable is <= z, or NaN for invalid input.
+ */
+export function normalCDF(z: number): number {
+  if (isNaN(z)) return NaN;
+  if (z === Infinity) return 1;
+  if (z === -Infinity) return 0;
+  const absZ = Math.abs(z);
+  const t = 1 / (1 + 0.2316419 * absZ);
+  const pdf = Math.exp(-absZ * absZ / 2) / Math.sqrt(2 * Math.PI);
+  const upperTail = pdf * t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - upperTail : upperTail;
+}
+
+/**
+ * Converts a Z-score to a percentile (0-100).
+ * @param z The Z-score.
+ * @returns The percentile, or NaN if z is invalid.
+ */
+export function zScoreToPercentile(z: number): number {
+  return normalCDF(z) * 100;
+}
+
+/**
+ * Formats a Z-score as a percentile for display, clamping the extremes to "<0.1" and ">99.9".
+ * Percentiles between 1 and 99 are shown as whole numbers; those in the tails keep one decimal place.
+ * @param z The Z-score.
+ * @returns The formatted percentile (e.g. "60", "99.5", "<0.1"), or an empty string if z is invalid.
+ */
+export function formatPercentile(z: number): string {
+  const percentile = zScoreToPercentile(z);
+  if (isNaN(percentile)) return '';
+  if (percentile < MIN_DISPLAY_PERCENTILE) return `<${MIN_DISPLAY_PERCENTILE}`;
+  if (percentile > MAX_DISPLAY_PERCENTILE) return `>${MAX_DISPLAY_PERCENTILE}`;
+  if (percentile < 1 || percentile > 99) return percentile.toFixed(1);
+  return Math.round(percentile).toString();
+}
+
+
+// --- Centile Curve Generation ---
+
+/**
+ * Inverts the LMS formula to get the measurement value at a given Z-score.
+ * @param z The Z-score (SD line) to compute.
+ * @param l L parameter (Box-Cox power).
+ * @param m M parameter (Median).
+ * @param s S parameter (Coefficient of Variation).
+ * @returns The measurement value, or NaN if the result is undefined for these parameters.
+ */
+export function calculateValueFromZScore(z: number, l: number, m: number, s: number): number {
+  if (Math.abs(l) < 1e-5) {
+    return m * Math.exp(s * z);
+  }
+  const base = 1 + l * s * z;
+  if (base <= 0) { // Beyond the range the Box-Cox transform can represent
+    return NaN;
+  }
+  return m * Math.pow(base, 1 / l);
+}
+
+/**
+ * Inverse of the standard normal cumulative distribution (probit), using Acklam's rational approximation
+ * (relative error < 1.15e-9).
+ * @param p Probability in the open interval (0, 1).
+ * @returns The Z-score whose lower-tail probability is p, or NaN if p is out of range.
+ */
+export function inverseNormalCDF(p: number): number {
+  if (isNaN(p) || p <= 0 || p >= 1) return NaN;
+  const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+  const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+  const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+  const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+           ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+            ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+         (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+export interface CentileLineSpec {
+  key: string;   // e.g. 'p50', 'z-2'
+  label: string; // Legend label, e.g. 'P50', 'Z-2'
+  z: number;     // SD position of the line
+}
+
+/**
+ * Parses a centile/SD line key as used in centile data files and the manifest.
+ * 'p<centile>' (e.g. 'p3', 'p0.4', 'p99.6') is converted to its Z-score; 'z<sd>' (e.g. 'z-2', 'z0') is used directly.
+ * @returns The line spec, or null if the key is not recognised.
+ */
+export function parseCentileLineKey(key: string): CentileLineSpec | null {
+  const match = /^([pz])(-?\d+(?:\.\d+)?)$/i.exec(key.trim());
+  if (!match) return null;
+  const value = parseFloat(match[2]);
+  if (match[1].toLowerCase() === 'z') {
+    return { key, label: key.toUpperCase(), z: value };
+  }
+  const z = inverseNormalCDF(value / 100);
+  return isNaN(z) ? null : { key, label: key.toUpperCase(), z };
+}
+
+export type CentileLinePreset = 'manifest' | 'who' | 'cdc' | 'uk-who' | 'sd';
+
+/**
+ * Named sets of centile lines selectable in settings. 'manifest' defers to the chart's own definition.
+ * UK-WHO lines are spaced exactly 2/3 SD apart; their labels are the conventional rounded centiles.
+ */
+export const CENTILE_LINE_PRESETS: Record<Exclude<CentileLinePreset, 'manifest'>, CentileLineSpec[]> = {
+  who: ['p3', 'p15', 'p50', 'p85', 'p97'].map(k => parseCentileLineKey(k)!),
+  cdc: ['p5', 'p10', 'p25', 'p50', 'p75', 'p90', 'p95'].map(k => parseCentileLineKey(k)!),
+  'uk-who': [
+    { key: 'p0.4', label: 'P0.4', z: -8 / 3 }, { key: 'p2', label: 'P2', z: -2 },
+    { key: 'p9', label: 'P9', z: -4 / 3 }, { key: 'p25', label: 'P25', z: -2 / 3 },
+    { key: 'p50', label: 'P50', z: 0 }, { key: 'p75', label: 'P75', z: 2 / 3 },
+    { key: 'p91', label: 'P91', z: 4 / 3 }, { key: 'p98', label: 'P98', z: 2 },
+    { key: 'p99.6', label: 'P99.6', z: 8 / 3 },
+  ],
+  sd: ['z-3', 'z-2', 'z-1', 'z0', 'z1', 'z2', 'z3'].map(k => parseCentileLineKey(k)!),
+};
+
+/**
+ * Generates centile/SD curves from LMS reference data at a fine age resolution.
+ * LMS values between tabulated ages are linearly interpolated; tabulated ages are always included.
+ * @param lmsDataSorted LMS reference data, sorted by age.
+ * @param lines The centile/SD lines to generate.
+ * @param stepMonths Age step between generated points (defaults to ~400 points across the range, min 0.25 months).
+ * @returns Map of line key to `{ x: age, y: value }` points, sorted by age.
+ */
+export function generateCentileCurves(
+  lmsDataSorted: LMSDataPoint[],
+  lines: CentileLineSpec[],
+  stepMonths?: number
+): Record<string, { x: number; y: number }[]> {
+  const curves: Record<string, { x: number; y: number }[]> = {};
+  lines.forEach(line => { curves[line.key] = []; });
+  if (!lmsDataSorted || lmsDataSorted.length === 0 || lines.length === 0) {
+    return curves;
+  }
+
+  const minAge = lmsDataSorted[0].age;
+  const maxAge = lmsDataSorted[lmsDataSorted.length - 1].age;
+  const step = stepMonths && stepMonths > 0 ? stepMonths : Math.max(0.25, (maxAge - minAge) / 400);
+
+  const ages = new Set<number>(lmsDataSorted.map(p => p.age));
+  for (let age = minAge; age < maxAge; age += step) {
+    ages.add(parseFloat(age.toFixed(4)));
+  }
+  const sortedAges = [...ages].sort((a, b) => a - b);
+
+  sortedAges.forEach(age => {
+    const lms = getLMSForAge(age, lmsDataSorted);
+    if (!lms) return;
+    lines.forEach(line => {
+      const value = calculateValueFromZScore(line.z, lms.l, lms.m, lms.s);
+      if (!isNaN(value)) {
+        curves[line.key].push({ x: age, y: value });
+      }
+    });
+  });
+  return curves;
+}
+
+/**
+ * Resolves which centile/SD lines to draw for a chart.
+ * A settings preset takes precedence; 'manifest' uses the chart's manifest `centileLines`,
+ * falling back to the centile columns tabulated in its data file.
+ * @returns Parsed line specs; unrecognised keys are skipped.
+ */
+export function resolveCentileLines(
+  preset: CentileLinePreset | undefined,
+  manifestCentileLines: string[] | undefined,
+  centilesAvailable: string[] = []
+): CentileLineSpec[] {
+  if (preset && preset !== 'manifest') {
+    return CENTILE_LINE_PRESETS[preset];
+  }
+  const keys = manifestCentileLines && manifestCentileLines.length > 0 ? manifestCentileLines : centilesAvailable;
+  return keys
+    .map(key => parseCentileLineKey(key))
+    .filter((spec): spec is CentileLineSpec => spec !== null);
+}
+
+
+// --- WHO Restricted Application of LMS ---
+
+/**
+ * Calculates a Z-score using the WHO restricted application of the LMS method.
+ * Within ±3 SD this is the plain LMS Z-score. Beyond ±3 SD, where the LMS tails are unreliable for skewed
+ * measurements (weight, BMI), the Z-score is extrapolated linearly using the distance between the 2 SD and 3 SD
+ * lines (SD23): z* = 3 + (y - SD3pos) / SD23pos, or z* = -3 + (y - SD3neg) / SD23neg.
+ * @param value The patient's measurement.
+ * @param l L parameter (Box-Cox power).
+ * @param m M parameter (Median).
+ * @param s S parameter (Coefficient of Variation).
+ * @returns The restricted Z-score, or NaN if parameters are invalid.
+ */
+export function calculateWHORestrictedZScore(value: number, l: number, m: number, s: number): number {
+  const z = calculateZScore(value, l, m, s);
+  if (isNaN(z) || Math.abs(z) <= 3) return z;
+
+  if (z > 3) {
+    const sd3pos = calculateValueFromZScore(3, l, m, s);
+    const sd23pos = sd3pos - calculateValueFromZScore(2, l, m, s);
+    return 3 + (value - sd3pos) / sd23pos;
+  }
+  const sd3neg = calculateValueFromZScore(-3, l, m, s);
+  const sd23neg = calculateValueFromZScore(-2, l, m, s) - sd3neg;
+  return -3 + (value - sd3neg) / sd23neg;
+}
+
+
+// --- CDC Extended BMI-for-Age ---
+
+/**
+ * How a chart's Z-scores are calculated: plain LMS, the CDC extended BMI method above the 95th percentile,
+ * or the WHO restricted application of LMS beyond ±3 SD.
+ * Declared per chart in the centile manifest (`zScoreMethod`) or derived from its source.
+ */
+export type ZScoreMethod = 'lms' | 'cdc-extended-bmi' | 'who-restricted';
+
+export type BMIObesityClass = 'Class 1 obesity' | 'Class 2 severe obesity' | 'Class 3 severe obesity';
+
+export interface ZScoreResult {
+  zScore: number;
+  isExtended?: boolean;      // True if the extended BMI method was applied (BMI >= P95)
+  percentOf95th?: number;    // BMI as a percentage of the 95th percentile (extended BMI charts only)
+  obesityClass?: BMIObesityClass;
+}
+
+const Z_SCORE_P95 = 1.6448536269514722;
+const MAX_EXTENDED_PERCENTILE = 99.99999999999999; // Keeps the extended Z-score finite (~8.2)
+
+/**
+ * Classifies obesity severity from BMI relative to the 95th percentile (AAP 2023 / CDC definitions).
+ * Class 2: >= 120% of P95 or BMI >= 35; Class 3: >= 140% of P95 or BMI >= 40.
+ * @param percentOf95th BMI as a percentage of the 95th percentile.
+ * @param bmi Absolute BMI in kg/m².
+ * @returns The obesity class, or undefined if BMI is below the 95th percentile.
+ */
+export function classifyBMIObesity(percentOf95th: number, bmi: number): BMIObesityClass | undefined {
+  if (isNaN(percentOf95th) || percentOf95th < 100) return undefined;
+  if (percentOf95th >= 140 || bmi >= 40) return 'Class 3 severe obesity';
+  if (percentOf95th >= 120 || bmi >= 35) return 'Class 2 severe obesity';
+  return 'Class 1 obesity';
+}
+
+/**
+ * Calculates BMI-for-age Z-score using the CDC extended BMI method (CDC 2022).
+ * Below the 95th percentile the standard LMS Z-score is used. At or above it, the extended percentile is
+ * 90 + 10 * Φ((BMI - P95) / σ), with σ a sex-specific quadratic in age, and the Z-score is its probit.
+ * @param bmi BMI in kg/m².
+ * @param ageMonths Age in months.
+ * @param sex Sex of the reference population.
+ * @param lmsDataSorted CDC BMI-for-age LMS data, sorted by age.
+ * @returns The Z-score with %P95 and obesity class, or null if LMS values are not available for the age.
+ */
+export function calculateCDCExtendedBMI(
+  bmi: number,
+  ageMonths: number,
+  sex: 'male' | 'female',
+  lmsDataSorted: LMSDataPoint[]
+): ZScoreResult | null {
+  const lms = getLMSForAge(ageMonths, lmsDataSorted);
+  if (!lms || isNaN(bmi)) return null;
+
+  const p95 = calculateValueFromZScore(Z_SCORE_P95, lms.l, lms.m, lms.s);
+  const percentOf95th = (bmi / p95) * 100;
+  const obesityClass = classifyBMIObesity(percentOf95th, bmi);
+
+  if (bmi < p95) {
+    return { zScore: calculateZScore(bmi, lms.l, lms.m, lms.s), isExtended: false, percentOf95th, obesityClass };
+  }
+
+  const ageYears = ageMonths / 12;
+  const sigma = sex === 'male'
+    ? 0.3728 + 0.5196 * ageYears - 0.0091 * ageYears * ageYears
+    : 0.8334 + 0.3712 * ageYears - 0.0011 * ageYears * ageYears;
+  const extendedPercentile = Math.min(90 + 10 * normalCDF((bmi - p95) / sigma), MAX_EXTENDED_PERCENTILE);
+  return { zScore: inverseNormalCDF(extendedPercentile / 100), isExtended: true, percentOf95th, obesityClass };
+}
+
+/**
+ * Calculates a Z-score using the chart's declared method.
+ * @param value Measurement value (metric).
+ * @param ageMonths Age in months.
+ * @param lmsDataSorted LMS reference data, sorted by age.
+ * @param method The chart's Z-score method (defaults to plain LMS).
+ * @param sex Sex of the reference population (required by the extended BMI method).
+ * @returns The Z-score result, or null if it could not be calculated.
+ */
+export function getZScoreResultForMeasurement(
+  value: number,
+  ageMonths: number,
+  lmsDataSorted: LMSDataPoint[],
+  method: ZScoreMethod = 'lms',
+  sex?: 'male' | 'female' | 'any'
+): ZScoreResult | null {
+  if (method === 'cdc-extended-bmi' && (sex === 'male' || sex === 'female')) {
+    const result = calculateCDCExtendedBMI(value, ageMonths, sex, lmsDataSorted);
+    return result && !isNaN(result.zScore) ? result : null;
+  }
+  if (method === 'who-restricted') {
+    const lms = getLMSForAge(ageMonths, lmsDataSorted);
+    const zScore = lms ? calculateWHORestrictedZScore(value, lms.l, lms.m, lms.s) : NaN;
+    return isNaN(zScore) ? null : { zScore };
+  }
+  const zScore = getZScoreForMeasurement(value, ageMonths, lmsDataSorted);
+  return isNaN(zScore) ? null : { zScore };
+}
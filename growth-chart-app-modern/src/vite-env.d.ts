@@ -1 +1,9 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SMART_CLIENT_ID?: string; // Client id registered with the SMART authorization servers
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}